@@ -1,7 +1,105 @@
-import { Controller, Post, Body, Get, HttpStatus, HttpException } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { Controller, Post, Body, Get, Param, Query, Req, Res, HttpStatus, HttpException, UploadedFiles, UseInterceptors } from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiProduces, ApiQuery, ApiConsumes } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
 import { GenAiCodeGenerationService } from './gen-ai-code-generation.service';
-import { CodeGenerationRequest, FullStackProject } from './interfaces/project.interface';
+import { normalizeImageAttachments, UploadedImage } from './utils/image-input';
+import { ModelCapability } from './utils/model-catalog';
+import { parseOpenApiDocument } from './utils/openapi-contract';
+import { validateProjectStructure } from './utils/project-validator';
+import { PROVIDER_ERROR_STATUS } from './utils/provider-errors';
+import {
+  AgentRequest,
+  ClarificationRequest,
+  CodeGenerationRequest,
+  FullStackProject,
+  FullStackStreamEvent,
+  GenerationParameters,
+  ProjectModificationRequest
+} from './interfaces/project.interface';
+
+/** Request body properties shared by every endpoint that accepts sampling parameters */
+const GENERATION_PARAMETER_PROPERTIES = {
+  temperature: { type: 'number', description: 'Sampling temperature, clamped to the model\'s range' },
+  topP: { type: 'number', description: 'Nucleus sampling, 0-1' },
+  maxTokens: { type: 'integer', description: 'Maximum output tokens, clamped to the model\'s limit' },
+  seed: { type: 'integer', description: 'Seed for reproducible sampling where the provider supports it' },
+  stopSequences: { type: 'array', items: { type: 'string' }, description: 'Sequences that end generation' }
+};
+
+/** Request body property for UI images, sent as base64 in JSON or as files in multipart form data */
+const IMAGE_PROPERTIES = {
+  images: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        data: { type: 'string', description: 'Base64 image data or a data URL' },
+        mimeType: { type: 'string', enum: ['image/png', 'image/jpeg', 'image/webp', 'image/gif'] },
+        name: { type: 'string' }
+      },
+      required: ['data']
+    },
+    description: 'Wireframes, screenshots or sketches guiding the UI (needs a vision model). With multipart/form-data, upload files in the "images" field instead.'
+  }
+};
+
+/** Request fields that arrive as strings in multipart form data */
+const STRUCTURED_FIELDS = ['fallbackModels', 'stopSequences', 'promptVariables', 'clarification', 'requirements', 'images'];
+
+/** Request body property for contract-first generation */
+const OPENAPI_PROPERTIES = {
+  openApiSpec: {
+    type: 'object',
+    description: 'OpenAPI 3 document (JSON object or string) the FastAPI routes, Pydantic models, apiEndpoints and frontend calls must match; the response reports deviations as "conformance"'
+  }
+};
+
+/** Request body property for output that has to be salvaged */
+const SALVAGE_PROPERTIES = {
+  regenerateMissingFiles: {
+    type: 'boolean',
+    description: 'When the model output is malformed and the project is salvaged ("partial": true), write the files it is missing in follow-up model calls'
+  }
+};
+
+/** Request body property for the TypeScript check run before deploying */
+const TYPE_CHECK_PROPERTIES = {
+  blockOnTypeErrors: {
+    type: 'boolean',
+    description: 'Do not deploy when compiling the frontend files reports errors; they are listed in deployment.typeCheck either way'
+  }
+};
+
+/** Request body property selecting how the response cache is used */
+const CACHE_PROPERTIES = {
+  cache: {
+    type: 'string',
+    enum: ['bypass', 'prefer', 'only'],
+    description: 'prefer: reuse the response of an identical earlier request; only: never call the model (404 on a miss); bypass: always generate (default RESPONSE_CACHE_MODE)'
+  }
+};
+
+/** Request body properties for answers to POST /gen-ai-code/clarify */
+const CLARIFICATION_PROPERTIES = {
+  clarification: {
+    type: 'object',
+    properties: {
+      questions: { type: 'array', items: { type: 'object' }, description: 'Questions as returned by POST /gen-ai-code/clarify' },
+      answers: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description: 'Answers keyed by question id; unanswered questions use their suggestedDefault'
+      }
+    },
+    description: 'Answers to clarifying questions, turned into structured requirements before generating'
+  },
+  requirements: {
+    type: 'object',
+    description: 'Structured requirements (summary, entities, auth, pages, integrations, notes), e.g. from an earlier response'
+  }
+};
 
 @ApiTags('AI Code Generation')
 @Controller('gen-ai-code')
@@ -25,9 +123,91 @@ export class GenAiCodeGenerationController {
     };
   }
 
+  @Get('models')
+  @ApiOperation({ summary: 'List models with provider, limits, price, capabilities and whether their API key is configured' })
+  @ApiResponse({ status: 200, description: 'Model catalog' })
+  listModels() {
+    const models = this.genAiCodeService.listModels();
+    return {
+      models,
+      available: models.filter(model => model.keyConfigured).map(model => model.id),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  @Get('prompts')
+  @ApiOperation({ summary: 'List system prompt versions per project template' })
+  @ApiResponse({ status: 200, description: 'Prompt versions and the default version of each template' })
+  listPromptVersions() {
+    return {
+      prompts: this.genAiCodeService.listPromptVersions(),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  @Get('usage')
+  @ApiOperation({ summary: 'Token usage and cost of model calls, aggregated by model, template and operation' })
+  @ApiQuery({ name: 'model', required: false, description: 'Only calls to this model identifier' })
+  @ApiQuery({ name: 'template', required: false, description: 'Only calls for this project template' })
+  @ApiQuery({ name: 'promptVersion', required: false, description: 'Only calls made with this system prompt version' })
+  @ApiQuery({ name: 'from', required: false, description: 'ISO date, only calls at or after this time' })
+  @ApiQuery({ name: 'to', required: false, description: 'ISO date, only calls at or before this time' })
+  @ApiResponse({ status: 200, description: 'Usage totals and breakdowns' })
+  @ApiResponse({ status: 400, description: 'Invalid date filter' })
+  getUsage(
+    @Query() query: { model?: string; template?: string; promptVersion?: string; from?: string; to?: string }
+  ) {
+    return {
+      ...this.genAiCodeService.getUsageReport(query),
+      filters: query,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  @Post('clarify')
+  @ApiOperation({ summary: 'Ask clarifying questions about a prompt before generating' })
+  @ApiResponse({ status: 200, description: 'Questions about entities, auth, pages and integrations, each with a suggested default' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Description of the application, e.g. "make a CRM"' },
+        modelIdentifier: { type: 'string', description: 'AI model to use' },
+        template: {
+          type: 'string',
+          enum: ['next+fastapi+mongodb', 'react+fastapi+mongodb'],
+          description: 'Project template to use'
+        },
+        ...GENERATION_PARAMETER_PROPERTIES
+      },
+      required: ['prompt', 'modelIdentifier']
+    }
+  })
+  async clarify(@Body() request: ClarificationRequest) {
+    if (!request?.prompt || !request?.modelIdentifier) {
+      throw new HttpException(
+        { message: 'prompt and modelIdentifier are required' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    this.genAiCodeService.assertModelsAvailable([request.modelIdentifier], ['supportsStructuredOutput']);
+    const result = await this.genAiCodeService.clarifyRequirements(request);
+    return {
+      success: true,
+      questions: result.questions,
+      usage: result.usage,
+      next: 'Send the questions and your answers (keyed by question id) as "clarification" to generate-fullstack or generate-and-deploy'
+    };
+  }
+
   @Post('generate-fullstack')
   @ApiOperation({ summary: 'Generate full-stack application with frontend, backend, and database' })
   @ApiResponse({ status: 200, description: 'Full-stack application generated successfully' })
+  @ApiResponse({ status: 400, description: 'Unknown or unavailable model, prompt rejected by screening, or generation failed' })
+  @ApiResponse({ status: 404, description: 'cache is "only" and no cached response exists' })
+  @ApiResponse({ status: 429, description: 'The model provider kept rate limiting after retries' })
+  @ApiResponse({ status: 502, description: 'The model provider failed (overloaded, rejected credentials or request)' })
+  @ApiResponse({ status: 504, description: 'The model provider timed out' })
   @ApiBody({
     schema: {
       type: 'object',
@@ -38,31 +218,295 @@ export class GenAiCodeGenerationController {
           type: 'string', 
           enum: ['next+fastapi+mongodb', 'react+fastapi+mongodb'],
           description: 'Project template to use'
-        }
+        },
+        generationMode: {
+          type: 'string',
+          enum: ['single', 'multi-pass'],
+          description: 'multi-pass plans the project first, then generates each file separately (for larger apps)'
+        },
+        fallbackModels: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Models to try in order when modelIdentifier produces unusable output (defaults to DEFAULT_FALLBACK_MODELS)'
+        },
+        promptVersion: { type: 'string', description: 'System prompt version, e.g. "v1" (see GET /gen-ai-code/prompts)' },
+        promptVariables: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Overrides for system prompt variables such as framework, styling and database'
+        },
+        ...CLARIFICATION_PROPERTIES,
+        ...OPENAPI_PROPERTIES,
+        ...IMAGE_PROPERTIES,
+        ...CACHE_PROPERTIES,
+        ...SALVAGE_PROPERTIES,
+        ...GENERATION_PARAMETER_PROPERTIES
       },
       required: ['prompt', 'modelIdentifier']
     }
   })
-  async generateFullStackApp(@Body() request: CodeGenerationRequest) {
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @UseInterceptors(FilesInterceptor('images', 20, { limits: { fileSize: 25 * 1024 * 1024 } }))
+  async generateFullStackApp(@Body() body: CodeGenerationRequest, @UploadedFiles() uploads?: UploadedImage[]) {
+    const request = this.prepareGenerationRequest(body, uploads);
     const result = await this.genAiCodeService.generateFullStackApplication(request);
     
     if (!result.success) {
       throw new HttpException(
         {
           message: result.error,
+          code: result.errorCode,
+          schemaErrors: result.schemaErrors,
+          attempts: result.attempts,
           rawResponse: result.rawResponse
         },
-        HttpStatus.BAD_REQUEST
+        result.errorCode ? PROVIDER_ERROR_STATUS[result.errorCode] : HttpStatus.BAD_REQUEST
       );
     }
     
     return {
       success: true,
+      projectId: result.projectId,
       project: result.data,
+      continuations: result.continuations,
+      attempts: result.attempts,
+      usage: result.usage,
+      systemPrompt: result.systemPrompt,
+      parameters: result.parameters,
+      requirements: result.requirements,
+      conformance: result.conformance,
+      cache: result.cache,
+      cached: result.cached,
+      partial: result.partial,
+      salvage: result.salvage,
       generatedAt: new Date().toISOString()
     };
   }
 
+  @Get('generate-fullstack/stream')
+  @ApiOperation({ summary: 'Stream full-stack generation as server-sent events (query parameters)' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Stream of token, file, complete and error events' })
+  streamFullStackAppGet(
+    @Query() query: CodeGenerationRequest,
+    @Req() req: Request,
+    @Res() res: Response
+  ) {
+    this.writeEventStream(query, req, res);
+  }
+
+  @Post('generate-fullstack/stream')
+  @ApiOperation({ summary: 'Stream full-stack generation as server-sent events' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Stream of token, file, complete and error events' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Description of the application to generate' },
+        modelIdentifier: { type: 'string', description: 'AI model to use (e.g., "google:gemini-2.0-flash")' },
+        template: { 
+          type: 'string', 
+          enum: ['next+fastapi+mongodb', 'react+fastapi+mongodb'],
+          description: 'Project template to use'
+        },
+        promptVersion: { type: 'string', description: 'System prompt version, e.g. "v1" (see GET /gen-ai-code/prompts)' },
+        ...CLARIFICATION_PROPERTIES,
+        ...OPENAPI_PROPERTIES,
+        ...IMAGE_PROPERTIES,
+        ...SALVAGE_PROPERTIES,
+        ...GENERATION_PARAMETER_PROPERTIES
+      },
+      required: ['prompt', 'modelIdentifier']
+    }
+  })
+  streamFullStackAppPost(
+    @Body() request: CodeGenerationRequest,
+    @Req() req: Request,
+    @Res() res: Response
+  ) {
+    this.writeEventStream(request, req, res);
+  }
+
+  /**
+   * Accept a generation request as JSON, multipart form data or query
+   * parameters, validate its images and check every model in the chain can
+   * handle the request, including any extra capabilities the endpoint needs
+   */
+  private prepareGenerationRequest(
+    body: CodeGenerationRequest,
+    uploads: UploadedImage[] = [],
+    capabilities: ModelCapability[] = []
+  ): CodeGenerationRequest {
+    const request = { ...body } as CodeGenerationRequest & Record<string, unknown>;
+    for (const field of STRUCTURED_FIELDS) {
+      const value = request[field];
+      if (typeof value !== 'string') {
+        continue;
+      }
+      try {
+        request[field] = JSON.parse(value);
+      } catch {
+        if (field !== 'fallbackModels' && field !== 'stopSequences') {
+          throw new HttpException({ message: `${field} must be JSON` }, HttpStatus.BAD_REQUEST);
+        }
+        request[field] = value.split(',').map(item => item.trim()).filter(Boolean);
+      }
+    }
+    for (const flag of ['autoFix', 'blockOnTypeErrors', 'regenerateMissingFiles'] as const) {
+      if (typeof request[flag] === 'string') {
+        request[flag] = request[flag] === 'true';
+      }
+    }
+
+    const images = normalizeImageAttachments(request.images, uploads);
+    this.genAiCodeService.assertModelsAvailable(
+      [request.modelIdentifier, ...(request.fallbackModels ?? [])],
+      images.length > 0
+        ? [...capabilities, 'supportsStructuredOutput', 'supportsVision']
+        : [...capabilities, 'supportsStructuredOutput']
+    );
+    return {
+      ...request,
+      images: images.length > 0 ? images : undefined,
+      openApiSpec: request.openApiSpec ? parseOpenApiDocument(request.openApiSpec) : undefined
+    };
+  }
+
+  private writeEventStream(body: CodeGenerationRequest, req: Request, res: Response) {
+    if (!body?.prompt || !body?.modelIdentifier) {
+      throw new HttpException(
+        { message: 'prompt and modelIdentifier are required' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    const request = this.prepareGenerationRequest(body, [], ['supportsStreaming']);
+
+    const events: Observable<FullStackStreamEvent> = this.genAiCodeService.streamFullStackApplication(request);
+    this.pipeEvents(events, req, res);
+  }
+
+  /**
+   * Pipe events to the client as SSE, one event per message
+   */
+  private pipeEvents(events: Observable<{ type: string }>, req: Request, res: Response) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const subscription = events.subscribe({
+      next: event => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+      complete: () => res.end()
+    });
+
+    req.on('close', () => subscription.unsubscribe());
+  }
+
+  @Post('agent')
+  @ApiOperation({ summary: 'Let the model build and run the app directly in the sandbox through tools, streamed as server-sent events' })
+  @ApiProduces('text/event-stream')
+  @ApiResponse({ status: 200, description: 'Stream of started, text, tool-call, tool-result, step, complete and error events' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Description of the application to build' },
+        modelIdentifier: { type: 'string', description: 'AI model to use; it must support tool calling' },
+        template: {
+          type: 'string',
+          enum: ['next+fastapi+mongodb', 'react+fastapi+mongodb'],
+          description: 'Stack the agent should use'
+        },
+        maxSteps: { type: 'integer', minimum: 1, description: 'Model calls allowed (capped at AGENT_MAX_STEPS, default 25)' },
+        healthCheck: {
+          type: 'object',
+          properties: {
+            port: { type: 'integer' },
+            path: { type: 'string' }
+          },
+          description: 'Endpoint checked when the agent stops (default port 8000, /health)'
+        },
+        ...GENERATION_PARAMETER_PROPERTIES
+      },
+      required: ['prompt', 'modelIdentifier']
+    }
+  })
+  runAgent(
+    @Body() request: AgentRequest,
+    @Req() req: Request,
+    @Res() res: Response
+  ) {
+    if (!request?.prompt || !request?.modelIdentifier) {
+      throw new HttpException(
+        { message: 'prompt and modelIdentifier are required' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+    this.genAiCodeService.assertModelsAvailable([request.modelIdentifier], ['supportsStreaming']);
+    this.pipeEvents(this.genAiCodeService.runAgent(request), req, res);
+  }
+
+  @Get('agent/runs')
+  @ApiOperation({ summary: 'List recent agent runs' })
+  @ApiResponse({ status: 200, description: 'Agent runs, most recent first, without tool calls' })
+  listAgentRuns() {
+    return { runs: this.genAiCodeService.listAgentRuns() };
+  }
+
+  @Get('agent/runs/:runId')
+  @ApiOperation({ summary: 'Audit log of an agent run with every tool call and result' })
+  @ApiResponse({ status: 200, description: 'Agent run' })
+  @ApiResponse({ status: 404, description: 'Unknown run id' })
+  getAgentRun(@Param('runId') runId: string) {
+    return this.genAiCodeService.getAgentRun(runId);
+  }
+
+  @Post('projects/:id/modify')
+  @ApiOperation({ summary: 'Apply a natural-language change to an existing project' })
+  @ApiResponse({ status: 200, description: 'File-level patch and merged project' })
+  @ApiResponse({ status: 404, description: 'Project not stored and not included in the request' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        change: { type: 'string', description: 'Requested change, e.g. "add a due date to todos"' },
+        modelIdentifier: { type: 'string', description: 'AI model to use' },
+        project: {
+          type: 'object',
+          description: 'Current project; optional when the id refers to a project generated by this service'
+        },
+        ...GENERATION_PARAMETER_PROPERTIES
+      },
+      required: ['change', 'modelIdentifier']
+    }
+  })
+  async modifyProject(@Param('id') projectId: string, @Body() request: ProjectModificationRequest) {
+    if (!request?.change || !request?.modelIdentifier) {
+      throw new HttpException(
+        { message: 'change and modelIdentifier are required' },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const result = await this.genAiCodeService.modifyProject(projectId, request);
+
+    if (!result.success) {
+      throw new HttpException(
+        {
+          message: result.error,
+          projectId
+        },
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    return {
+      ...result,
+      modifiedAt: new Date().toISOString()
+    };
+  }
+
   @Post('generate-frontend')
   @ApiOperation({ summary: 'Generate frontend-only code (legacy support)' })
   @ApiResponse({ status: 200, description: 'Frontend code generated successfully' })
@@ -71,18 +515,21 @@ export class GenAiCodeGenerationController {
       type: 'object',
       properties: {
         prompt: { type: 'string', description: 'Description of the frontend to generate' },
-        modelIdentifier: { type: 'string', description: 'AI model to use' }
+        modelIdentifier: { type: 'string', description: 'AI model to use' },
+        ...GENERATION_PARAMETER_PROPERTIES
       },
       required: ['prompt', 'modelIdentifier']
     }
   })
   async generateFrontendCode(
-    @Body() body: { prompt: string; modelIdentifier: string }
+    @Body() body: { prompt: string; modelIdentifier: string } & GenerationParameters
   ) {
+    this.genAiCodeService.assertModelsAvailable([body.modelIdentifier]);
     try {
       const result = await this.genAiCodeService.generateFrontendCode(
         body.prompt, 
-        body.modelIdentifier
+        body.modelIdentifier,
+        body
       );
       
       return {
@@ -91,6 +538,9 @@ export class GenAiCodeGenerationController {
         generatedAt: new Date().toISOString()
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
         {
           message: 'Failed to generate frontend code',
@@ -114,12 +564,47 @@ export class GenAiCodeGenerationController {
           type: 'string', 
           enum: ['next+fastapi+mongodb', 'react+fastapi+mongodb'],
           description: 'Project template to use'
-        }
+        },
+        generationMode: {
+          type: 'string',
+          enum: ['single', 'multi-pass'],
+          description: 'multi-pass plans the project first, then generates each file separately (for larger apps)'
+        },
+        fallbackModels: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Models to try in order when modelIdentifier produces unusable output (defaults to DEFAULT_FALLBACK_MODELS)'
+        },
+        promptVersion: { type: 'string', description: 'System prompt version, e.g. "v1" (see GET /gen-ai-code/prompts)' },
+        promptVariables: {
+          type: 'object',
+          additionalProperties: { type: 'string' },
+          description: 'Overrides for system prompt variables such as framework, styling and database'
+        },
+        autoFix: {
+          type: 'boolean',
+          description: 'When a dependency install or service start fails, send the error to the model, apply its patch and retry the step'
+        },
+        maxRepairRounds: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Maximum auto-fix rounds for the whole deployment (defaults to AUTO_FIX_MAX_ROUNDS, 2)'
+        },
+        ...TYPE_CHECK_PROPERTIES,
+        ...CLARIFICATION_PROPERTIES,
+        ...OPENAPI_PROPERTIES,
+        ...IMAGE_PROPERTIES,
+        ...CACHE_PROPERTIES,
+        ...SALVAGE_PROPERTIES,
+        ...GENERATION_PARAMETER_PROPERTIES
       },
       required: ['prompt', 'modelIdentifier']
     }
   })
-  async generateAndDeployFullStack(@Body() request: CodeGenerationRequest) {
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @UseInterceptors(FilesInterceptor('images', 20, { limits: { fileSize: 25 * 1024 * 1024 } }))
+  async generateAndDeployFullStack(@Body() body: CodeGenerationRequest, @UploadedFiles() uploads?: UploadedImage[]) {
+    const request = this.prepareGenerationRequest(body, uploads);
     try {
       const result = await this.genAiCodeService.generateAndDeployFullStack(request);
       
@@ -127,24 +612,34 @@ export class GenAiCodeGenerationController {
         throw new HttpException(
           {
             message: result.error,
-            stage: result.project ? 'deployment' : 'generation'
+            code: result.errorCode,
+            stage: result.project ? 'deployment' : 'generation',
+            deployment: result.deployment
           },
-          HttpStatus.BAD_REQUEST
+          result.errorCode ? PROVIDER_ERROR_STATUS[result.errorCode] : HttpStatus.BAD_REQUEST
         );
       }
       
       return {
         success: true,
         message: 'Full-stack application generated and deployed successfully!',
+        projectId: result.projectId,
         project: result.project ? {
           name: result.project.projectName,
           description: result.project.projectDescription,
           template: result.project.template
         } : null,
+        conformance: result.conformance,
+        cache: result.cache,
+        partial: result.partial,
+        salvage: result.salvage,
         deployment: result.deployment,
         generatedAt: new Date().toISOString()
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
         {
           message: 'Failed to generate and deploy application',
@@ -165,22 +660,35 @@ export class GenAiCodeGenerationController {
         project: { 
           type: 'object',
           description: 'Full project structure with frontend, backend, and configuration'
-        }
+        },
+        ...TYPE_CHECK_PROPERTIES
       },
       required: ['project']
     }
   })
-  async deployExistingProject(@Body() body: { project: FullStackProject }) {
+  async deployExistingProject(@Body() body: { project: FullStackProject; blockOnTypeErrors?: boolean }) {
     try {
-      const result = await this.genAiCodeService.deployGeneratedCodeToSandbox(body.project);
+      const deployment = await this.genAiCodeService.deployGeneratedCodeToSandbox(body.project, {
+        blockOnTypeErrors: body.blockOnTypeErrors
+      });
       
       return {
         success: true,
         message: 'Project deployed successfully',
-        deployment: result,
+        deployment: {
+          frontendUrl: deployment.frontendUrl,
+          backendUrl: deployment.backendUrl,
+          status: deployment.status,
+          logs: deployment.logs,
+          repairs: deployment.repairs,
+          typeCheck: deployment.typeCheck
+        },
         deployedAt: new Date().toISOString()
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
         {
           message: 'Failed to deploy project',
@@ -239,55 +747,34 @@ export class GenAiCodeGenerationController {
   }
 
   @Post('validate-generated-code')
-  @ApiOperation({ summary: 'Validate generated code structure for debugging' })
-  @ApiResponse({ status: 200, description: 'Code validation results' })
-  async validateGeneratedCode(@Body() body: { project: FullStackProject }) {
-    try {
-      const validation = {
-        projectValid: !!body.project?.projectName,
-        frontendValid: !!body.project?.code?.frontend,
-        backendValid: !!body.project?.code?.backend,
-        packageJsonValid: false,
-        requirementsValid: false,
-        issues: [] as string[]
-      };
-
-      // Validate package.json
-      if (body.project?.code?.frontend?.dependencies?.['package.json']) {
-        try {
-          const packageContent = body.project.code.frontend.dependencies['package.json'].code;
-          JSON.parse(packageContent);
-          validation.packageJsonValid = true;
-        } catch (error) {
-          validation.issues.push(`Invalid package.json: ${error.message}`);
-          validation.packageJsonValid = false;
-        }
-      }
-
-      // Validate requirements.txt
-      if (body.project?.code?.backend?.dependencies?.['requirements.txt']) {
-        const reqContent = body.project.code.backend.dependencies['requirements.txt'].code;
-        validation.requirementsValid = reqContent.length > 0;
-        if (!validation.requirementsValid) {
-          validation.issues.push('Empty requirements.txt');
+  @ApiOperation({ summary: 'Validate the structure of a generated project' })
+  @ApiResponse({
+    status: 200,
+    description: 'Diagnostics with severity, JSON path and, where they point into a file, file and line; "valid" is false when any is an error'
+  })
+  @ApiResponse({ status: 400, description: 'No project in the request body' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        project: { type: 'object', description: 'FullStackProject to check' },
+        typeCheck: {
+          type: 'boolean',
+          default: true,
+          description: 'Compile the frontend files with TypeScript against stub React/Next.js types and report per-file errors'
         }
-      }
-
-      return {
-        success: true,
-        validation,
-        suggestions: validation.issues.length > 0 ? [
-          'Consider using the fallback package.json generation',
-          'Ensure proper JSON escaping in AI responses',
-          'Test with simpler prompts first'
-        ] : ['Code structure looks valid!']
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error.message
-      };
+      },
+      required: ['project']
+    }
+  })
+  validateGeneratedCode(@Body() body: { project: FullStackProject; typeCheck?: boolean }) {
+    if (!body?.project || typeof body.project !== 'object') {
+      throw new HttpException({ message: 'project is required' }, HttpStatus.BAD_REQUEST);
     }
+    return {
+      success: true,
+      validation: validateProjectStructure(body.project, { typeCheck: body.typeCheck !== false })
+    };
   }
 
   @Post('debug-generation')
@@ -320,23 +807,26 @@ export class GenAiCodeGenerationController {
   @Post('chat')
   @ApiOperation({ summary: 'Chat with AI for general queries' })
   @ApiResponse({ status: 200, description: 'AI response received' })
+  @ApiResponse({ status: 400, description: 'Prompt rejected by screening; "reasons" lists the rules it broke' })
   @ApiBody({
     schema: {
       type: 'object',
       properties: {
         prompt: { type: 'string', description: 'Question or message for the AI' },
-        modelIdentifier: { type: 'string', description: 'AI model to use' }
+        modelIdentifier: { type: 'string', description: 'AI model to use' },
+        ...GENERATION_PARAMETER_PROPERTIES
       },
       required: ['prompt', 'modelIdentifier']
     }
   })
   async chatWithAI(
-    @Body() body: { prompt: string; modelIdentifier: string }
+    @Body() body: { prompt: string; modelIdentifier: string } & GenerationParameters
   ) {
     try {
       const result = await this.genAiCodeService.chatWithAI(
         body.prompt, 
-        body.modelIdentifier
+        body.modelIdentifier,
+        body
       );
       
       return {
@@ -345,6 +835,9 @@ export class GenAiCodeGenerationController {
         timestamp: new Date().toISOString()
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(
         {
           message: 'Chat session failed',
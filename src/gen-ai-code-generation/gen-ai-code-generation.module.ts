@@ -1,12 +1,18 @@
 import { Module } from '@nestjs/common';
 import { GenAiCodeGenerationController } from './gen-ai-code-generation.controller';
 import { GenAiCodeGenerationService } from './gen-ai-code-generation.service';
+import { ProjectStoreService } from './project-store.service';
+import { ResponseCacheService } from './response-cache.service';
 import { SandboxModule } from '../sandbox/sandbox.module';
 
 @Module({
   imports: [SandboxModule],
   controllers: [GenAiCodeGenerationController],
-  providers: [GenAiCodeGenerationService],
+  providers: [
+    GenAiCodeGenerationService,
+    ProjectStoreService,
+    ResponseCacheService,
+  ],
   exports: [GenAiCodeGenerationService],
 })
 export class GenAiCodeGenerationModule {}
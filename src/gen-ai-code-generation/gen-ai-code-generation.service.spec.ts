@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { lastValueFrom, toArray } from 'rxjs';
+import { GenAiCodeGenerationService } from './gen-ai-code-generation.service';
+import {
+  AgentStreamEvent,
+  CodeGenerationRequest,
+  CodeGenerationResponse,
+  FullStackProject,
+} from './interfaces/project.interface';
+import { ProjectStoreService } from './project-store.service';
+import { CachedResponse, ResponseCacheService } from './response-cache.service';
+import { SandboxService, ServiceStartError } from '../sandbox/sandbox.service';
+import * as modelRouter from './utils/model-router';
+import { ProjectPlan } from './utils/project-plan';
+import { ProviderError } from './utils/provider-errors';
+
+/** Private methods exercised directly, without calling a model */
+interface ServiceInternals {
+  generateMultiPassApplication(
+    request: CodeGenerationRequest,
+  ): Promise<CodeGenerationResponse>;
+  fromCache(key: string, cached: CachedResponse): CodeGenerationResponse;
+  finalizeGeneratedProject(
+    request: CodeGenerationRequest,
+    candidate: unknown,
+    rawText: string,
+    usage: undefined,
+  ): CodeGenerationResponse;
+}
+
+function recordedProject(): FullStackProject {
+  const { rawResponse } = JSON.parse(
+    fs.readFileSync(
+      path.join(
+        __dirname,
+        '../../test/fixtures/mock-responses/2025-08-21T06-31-53-385Z-ai-raw-response.json',
+      ),
+      'utf8',
+    ),
+  ) as { rawResponse: string };
+  return JSON.parse(rawResponse) as FullStackProject;
+}
+
+describe('GenAiCodeGenerationService', () => {
+  let service: ServiceInternals;
+
+  beforeEach(() => {
+    jest
+      .spyOn(
+        GenAiCodeGenerationService.prototype as unknown as {
+          saveJsonForDebug: () => void;
+        },
+        'saveJsonForDebug',
+      )
+      .mockImplementation(() => undefined);
+    service = new GenAiCodeGenerationService(
+      {} as SandboxService,
+      new ProjectStoreService(),
+      new ResponseCacheService(),
+    ) as unknown as ServiceInternals;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps file code ending in a comma or bracket as generated', () => {
+    const project = recordedProject();
+    project.code.backend.files['/settings.py'] = {
+      purpose: 'Settings',
+      code: 'ORIGINS = "http://localhost:3000",',
+    };
+    project.code.frontend.files['/lib/routes.js'] = {
+      purpose: 'Routes',
+      code: 'export const routes = [\n  { path: "/" },\n];\nexport default {\n  routes,\n}',
+    };
+    const request: CodeGenerationRequest = {
+      prompt: 'Create a todo app with crud ops',
+      modelIdentifier: 'mock:auto',
+      template: 'next+fastapi+mongodb',
+    };
+
+    const response = service.finalizeGeneratedProject(
+      request,
+      undefined,
+      JSON.stringify(project, null, 2),
+      undefined,
+    );
+
+    expect(response.success).toBe(true);
+    expect(response.data).toEqual(project);
+  });
+
+  it('sends the versioned prompt and resolved parameters to every multi-pass call', async () => {
+    const project = recordedProject();
+    const plan: ProjectPlan = {
+      projectName: project.projectName,
+      projectDescription: project.projectDescription,
+      template: 'next+fastapi+mongodb',
+      frontendFramework: 'next',
+      files: Object.entries(project.code.backend.files).map(([path, file]) => ({
+        section: 'backend',
+        location: 'files',
+        path,
+        purpose: file.purpose,
+        dependsOn: [],
+      })),
+      apiEndpoints: project.apiEndpoints,
+      databaseSchema: project.databaseSchema,
+      projectStructure: project.projectStructure,
+    };
+    const usage = { promptTokens: 1, completionTokens: 1, totalTokens: 2 };
+    const planCall = jest
+      .spyOn(modelRouter, 'generateProjectPlan')
+      .mockResolvedValue({ object: plan, usage } as Awaited<
+        ReturnType<typeof modelRouter.generateProjectPlan>
+      >);
+    const fileCall = jest
+      .spyOn(modelRouter, 'generateProjectFile')
+      .mockResolvedValue({ text: 'print("ok")', usage, finishReason: 'stop' });
+
+    const response = await service.generateMultiPassApplication({
+      prompt: 'Create a todo app with crud ops',
+      modelIdentifier: 'openai:gpt-4o',
+      template: 'next+fastapi+mongodb',
+      generationMode: 'multi-pass',
+      promptVersion: 'v1',
+      temperature: 5,
+      seed: 7,
+    });
+
+    const parameters = { temperature: 2, maxTokens: 8192, seed: 7 };
+    const systemPrompt = expect.objectContaining({
+      template: 'next+fastapi+mongodb',
+      version: 'v1',
+    }) as unknown;
+    expect(planCall).toHaveBeenCalledWith(
+      expect.objectContaining({ systemPrompt, parameters }),
+    );
+    expect(fileCall).toHaveBeenCalledTimes(plan.files.length);
+    for (const [call] of fileCall.mock.calls) {
+      expect(call).toMatchObject({ systemPrompt, parameters });
+    }
+    expect(response).toMatchObject({
+      systemPrompt: { template: 'next+fastapi+mongodb', version: 'v1' },
+      parameters,
+    });
+  });
+
+  it('reports cache hits without the original usage and attempts', () => {
+    const usage = {
+      promptTokens: 3947,
+      completionTokens: 2300,
+      totalTokens: 6247,
+      costUsd: 0.033,
+      priced: true,
+    };
+    const response = service.fromCache('key', {
+      response: {
+        success: true,
+        data: recordedProject(),
+        usage,
+        attempts: [
+          {
+            modelIdentifier: 'openai:gpt-4o',
+            durationMs: 900,
+            usage,
+            success: true,
+          },
+        ],
+      },
+      storedAt: '2026-10-19T10:00:00.000Z',
+    });
+
+    expect(response).toMatchObject({
+      success: true,
+      cached: true,
+      attempts: [],
+      usage: {
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        costUsd: 0,
+      },
+      cache: { hit: true, key: 'key', storedAt: '2026-10-19T10:00:00.000Z' },
+    });
+    expect(response.projectId).toEqual(expect.any(String));
+  });
+
+  it('caps agent steps at AGENT_MAX_STEPS and records every tool call', async () => {
+    const maxStepsLimit = process.env.AGENT_MAX_STEPS;
+    process.env.AGENT_MAX_STEPS = '5';
+    const sandbox = {
+      writeFile: jest.fn(),
+      runCommand: jest.fn().mockResolvedValue({
+        exitCode: 0,
+        stdout: '{"status": "ok"}\n200',
+        stderr: '',
+      }),
+    };
+    const agent = new GenAiCodeGenerationService(
+      sandbox as unknown as SandboxService,
+      new ProjectStoreService(),
+      new ResponseCacheService(),
+    );
+    function* fullStream() {
+      yield {
+        type: 'tool-call',
+        toolCallId: 'call-1',
+        toolName: 'writeFile',
+        args: { path: '/home/backend/main.py', content: 'app = 1' },
+      };
+      yield {
+        type: 'tool-result',
+        toolCallId: 'call-1',
+        toolName: 'writeFile',
+        result: { path: '/home/backend/main.py', bytes: 7 },
+      };
+      yield { type: 'step-finish', finishReason: 'tool-calls' };
+      yield { type: 'text-delta', textDelta: 'The API is running.' };
+      yield { type: 'step-finish', finishReason: 'stop' };
+    }
+    const agentCall = jest
+      .spyOn(modelRouter, 'streamSandboxAgent')
+      .mockImplementation(
+        () =>
+          ({
+            fullStream: fullStream(),
+            usage: Promise.resolve({
+              promptTokens: 10,
+              completionTokens: 5,
+              totalTokens: 15,
+            }),
+          }) as unknown as ReturnType<typeof modelRouter.streamSandboxAgent>,
+      );
+    const run = (maxSteps: number) =>
+      lastValueFrom(
+        agent
+          .runAgent({
+            prompt: 'Create a todo API',
+            modelIdentifier: 'mock:auto',
+            maxSteps,
+          })
+          .pipe(toArray()),
+      );
+
+    try {
+      const events: AgentStreamEvent[] = await run(50);
+      await run(2.7);
+
+      expect(agentCall.mock.calls.map(([call]) => call.maxSteps)).toEqual([
+        5, 2,
+      ]);
+      expect(events[0]).toMatchObject({ type: 'started', maxSteps: 5 });
+      const complete = events.at(-1);
+      expect(complete).toMatchObject({
+        type: 'complete',
+        steps: 2,
+        healthy: true,
+        summary: 'The API is running.',
+      });
+      const record = agent.getAgentRun((complete as { runId: string }).runId);
+      expect(record).toMatchObject({
+        status: 'completed',
+        maxSteps: 5,
+        steps: 2,
+        healthy: true,
+        summary: 'The API is running.',
+      });
+      expect(record.toolCalls).toHaveLength(1);
+      expect(record.toolCalls[0]).toMatchObject({
+        step: 1,
+        toolCallId: 'call-1',
+        toolName: 'writeFile',
+        result: { path: '/home/backend/main.py', bytes: 7 },
+      });
+      expect(record.toolCalls[0].durationMs).toBeGreaterThanOrEqual(0);
+    } finally {
+      if (maxStepsLimit === undefined) {
+        delete process.env.AGENT_MAX_STEPS;
+      } else {
+        process.env.AGENT_MAX_STEPS = maxStepsLimit;
+      }
+    }
+  });
+
+  it('keeps the project id and provider error code when deployment fails', async () => {
+    const deployer = new GenAiCodeGenerationService(
+      { startMongoDB: jest.fn() } as unknown as SandboxService,
+      new ProjectStoreService(),
+      new ResponseCacheService(),
+    );
+    jest.spyOn(deployer, 'generateFullStackApplication').mockResolvedValue({
+      success: true,
+      data: recordedProject(),
+      projectId: 'project-1',
+    });
+    jest
+      .spyOn(
+        GenAiCodeGenerationService.prototype as unknown as {
+          deployBackend: () => Promise<string>;
+        },
+        'deployBackend',
+      )
+      .mockRejectedValue(
+        new ServiceStartError('Backend did not start', 'ImportError: fastapi'),
+      );
+    jest
+      .spyOn(modelRouter, 'generateDeploymentFix')
+      .mockRejectedValue(
+        new ProviderError('rate_limit', 'Rate limited', 'openai:gpt-4o', 3),
+      );
+
+    const response = await deployer.generateAndDeployFullStack({
+      prompt: 'Create a todo app with crud ops',
+      modelIdentifier: 'openai:gpt-4o',
+      autoFix: true,
+      maxRepairRounds: 1,
+    });
+
+    expect(response).toMatchObject({
+      success: false,
+      projectId: 'project-1',
+      errorCode: 'rate_limit',
+      deployment: {
+        status: 'failed',
+        repairs: [{ round: 1, step: 'backend-start', errorCode: 'rate_limit' }],
+      },
+    });
+  });
+});
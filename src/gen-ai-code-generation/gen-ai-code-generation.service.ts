@@ -1,19 +1,145 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { generateFullStackCode, GenAiCode, chatSession } from './utils/model-router';
-import { SandboxService } from '../sandbox/sandbox.service';
+import { BadRequestException, HttpException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { LanguageModelUsage, NoObjectGeneratedError } from 'ai';
+import { Observable } from 'rxjs';
+import {
+  generateFullStackCode,
+  generateFullStackText,
+  generateProjectFile,
+  generateProjectModification,
+  generateProjectPlan,
+  streamFullStackCode,
+  GenAiCode,
+  chatSession,
+  continueFullStackText,
+  generateDeploymentFix,
+  generateClarifyingQuestions,
+  generateProjectRequirements,
+  streamSandboxAgent,
+  FULL_STACK_SAMPLING_DEFAULTS,
+  MODIFICATION_SAMPLING_DEFAULTS,
+  MULTI_PASS_SAMPLING_DEFAULTS
+} from './utils/model-router';
+import { resolveGenerationParameters } from './utils/generation-params';
+import { createSandboxTools, fetchInSandbox } from './utils/agent-tools';
+import { answerQuestions, appendRequirements } from './utils/requirements';
+import { PromptRejectedException, screenPrompt } from './utils/prompt-screening';
+import { ProviderError } from './utils/provider-errors';
+import { appendApiContract, checkConformance, parseOpenApiDocument } from './utils/openapi-contract';
+import { AgentRun, AgentToolCallRecord, createAgentRun, getAgentRun, listAgentRuns } from './utils/agent-audit';
+import { isTruncatedOutput, stitchContinuation } from './utils/json-structure';
+import { parseTolerantJson, summarizeRepairs } from './utils/tolerant-json';
+import { findCompletedFiles } from './utils/partial-project';
+import { applyProjectPatch, countPatchedFiles, describePatchDiffs } from './utils/project-patch';
+import { listPromptVersions, PromptVersions, ResolvedPrompt, resolveSystemPrompt } from './utils/prompt-registry';
+import { assertModelAvailable, listModels, ModelCapability, ModelListing } from './utils/model-catalog';
+import { addUsage, priceUsage, sumUsage } from './utils/model-pricing';
+import { queryUsage, UsageReport } from './utils/usage-ledger';
+import { assembleProject, mapWithConcurrency, PlannedFile, plannedFileKey, ProjectPlan, scheduleFileWaves } from './utils/project-plan';
+import { salvageProject } from './utils/project-salvage';
+import { isMockModel } from './utils/provider-registry';
+import { typeCheckFrontend } from './utils/frontend-typecheck';
+import { BACKEND_CHECK_SCRIPT, BackendCheckReport, checkBackendFiles, parseBackendCheckOutput } from './utils/python-check';
+import { SandboxService, ServiceStartError } from '../sandbox/sandbox.service';
+import { ProjectStoreService } from './project-store.service';
+import { CachedResponse, ResponseCacheService, resolveCacheMode, responseCacheKey } from './response-cache.service';
 import { 
+  AgentRequest,
+  AgentStreamEvent,
+  ClarificationRequest,
+  ClarifyingQuestion,
   CodeGenerationRequest, 
+  CacheStatus,
   CodeGenerationResponse, 
-  FullStackProject 
+  ConformanceReport,
+  DeploymentRepair,
+  DeploymentResult,
+  DeploymentStep,
+  EffectiveGenerationParameters,
+  FullStackProject,
+  FullStackStreamEvent,
+  GenerationAttempt,
+  GenerationParameters,
+  GenerationUsage,
+  ProjectDiagnostic,
+  ProjectModificationRequest,
+  ProjectModificationResponse,
+  ProjectSection,
+  ProviderErrorCode,
+  SalvageReport
 } from './interfaces/project.interface';
+import { describeSchemaIssues, validateFullStackProject } from './interfaces/project.schema';
 import * as fs from 'fs';
 import * as path from 'path';
 
+interface GenerationAttemptOutcome {
+  response: CodeGenerationResponse;
+  usage?: LanguageModelUsage;
+  /** The model call itself failed, so retrying the same model with feedback is pointless */
+  providerError?: boolean;
+  /** The output could not be parsed as JSON at all */
+  parseError?: boolean;
+}
+
+/**
+ * An install or start step that failed with output the model can act on
+ */
+class DeploymentStepError extends Error {
+  constructor(readonly step: DeploymentStep, message: string, readonly output: string) {
+    super(message);
+  }
+}
+
+/**
+ * A failed deployment, keeping the logs and any repairs made before it gave up
+ */
+class DeploymentFailedError extends Error {
+  constructor(
+    message: string,
+    readonly logs: any[],
+    readonly repairs: DeploymentRepair[],
+    readonly project: FullStackProject,
+    readonly typeCheck?: ProjectDiagnostic[],
+    /** Set when the last model call (an auto-fix round) failed at the provider */
+    readonly errorCode?: ProviderErrorCode
+  ) {
+    super(message);
+  }
+}
+
+interface DeploymentOptions {
+  /** Do not deploy when the TypeScript check of the frontend finds errors */
+  blockOnTypeErrors?: boolean;
+  /** Ask the model to patch the project when an install or start step fails */
+  autoFix?: boolean;
+  maxRepairRounds?: number;
+  /** Model used for repair patches */
+  modelIdentifier?: string;
+  /** Sampling parameters for repair patches */
+  parameters?: GenerationParameters;
+}
+
+interface DeploymentRepairState {
+  project: FullStackProject;
+  autoFix: boolean;
+  maxRounds: number;
+  modelIdentifier?: string;
+  parameters?: GenerationParameters;
+  repairs: DeploymentRepair[];
+  /** Repair applied to the project but not retried yet */
+  pending?: DeploymentRepair;
+}
+
+const MAX_REPAIR_OUTPUT_CHARS = 6000;
+
 @Injectable()
 export class GenAiCodeGenerationService {
   private readonly logger = new Logger(GenAiCodeGenerationService.name);
 
-  constructor(private readonly sandboxService: SandboxService) {}
+  constructor(
+    private readonly sandboxService: SandboxService,
+    private readonly projectStore: ProjectStoreService,
+    private readonly responseCache: ResponseCacheService
+  ) {}
 
   /**
    * Save JSON response for debugging
@@ -37,306 +163,960 @@ export class GenAiCodeGenerationService {
   }
 
   /**
-   * Aggressively remove trailing commas from AI-generated content
+   * Screen user text before it reaches a model, rejecting blocked prompts with the rules they broke
    */
-  private removeTrailingCommas(jsonString: string): string {
-    // Remove trailing commas in JSON object properties
-    jsonString = jsonString.replace(/,(\s*[}\]])/g, '$1');
-    
-    // Fix trailing commas at the end of code strings - this is the main issue
-    jsonString = jsonString.replace(/"code":\s*"([^"]*)},"(\s*)/g, '"code": "$1}"$2');
-    jsonString = jsonString.replace(/"code":\s*"([^"]*)],"(\s*)/g, '"code": "$1]"$2');
-    jsonString = jsonString.replace(/"code":\s*"([^"]*);,"(\s*)/g, '"code": "$1;"$2');
-    
-    // Fix trailing commas in API paths
-    jsonString = jsonString.replace(/"path":\s*"([^"]*),"/g, '"path": "$1"');
-    
-    // Fix trailing commas in purpose fields
-    jsonString = jsonString.replace(/"purpose":\s*"([^"]*),"/g, '"purpose": "$1"');
-    
-    // Fix specific patterns we saw in the debug file
-    jsonString = jsonString.replace(/},"/g, '}"');
-    jsonString = jsonString.replace(/];,"/g, '];"');
-    jsonString = jsonString.replace(/;,"/g, ';"');
-    
-    // More aggressive trailing comma removal in nested objects
-    jsonString = jsonString.replace(/,(\s*\n\s*})/g, '$1');
-    jsonString = jsonString.replace(/,(\s*\n\s*])/g, '$1');
-    
-    return jsonString;
+  private assertPromptAllowed(operation: string, prompt: string, extraText: string[] = []): void {
+    const result = screenPrompt(prompt, extraText);
+    if (result.violations.length === 0) {
+      this.logger.debug(`Prompt screening passed (${operation})`);
+      return;
+    }
+    const summary = result.violations
+      .map(violation => `${violation.rule}${violation.excerpt ? ` "${violation.excerpt}"` : ''}`)
+      .join('; ');
+    if (result.allowed) {
+      this.logger.warn(`Prompt screening would block ${operation} (monitor mode): ${summary}`);
+      return;
+    }
+    this.logger.warn(`Prompt screening blocked ${operation}: ${summary}`);
+    throw new PromptRejectedException(result.violations);
+  }
+
+  /** Clarification answers are user text that ends up in the prompt too */
+  private screenGenerationRequest(operation: string, request: CodeGenerationRequest): void {
+    this.assertPromptAllowed(operation, request.prompt, Object.values(request.clarification?.answers ?? {}));
+  }
+
+  /**
+   * Ask the model which questions to settle before generating, each with a suggested default
+   */
+  async clarifyRequirements(request: ClarificationRequest): Promise<{ questions: ClarifyingQuestion[]; usage: GenerationUsage }> {
+    this.assertPromptAllowed('clarify', request.prompt);
+    this.logger.log(`Clarifying requirements: ${request.prompt}`);
+    const result = await generateClarifyingQuestions({
+      prompt: request.prompt,
+      modelIdentifier: request.modelIdentifier,
+      template: request.template,
+      parameters: request
+    });
+    return {
+      questions: result.object.questions,
+      usage: priceUsage(request.modelIdentifier, result.usage)
+    };
+  }
+
+  /**
+   * Turn clarification answers into requirements and fold them into the prompt
+   */
+  private async applyRequirements(request: CodeGenerationRequest): Promise<CodeGenerationRequest> {
+    let requirements = request.requirements;
+    if (!requirements && request.clarification) {
+      const answers = answerQuestions(request.clarification);
+      this.logger.log(`Deriving requirements from ${answers.length} answer(s), ${answers.filter(answer => answer.defaulted).length} defaulted`);
+      requirements = (await generateProjectRequirements({
+        prompt: request.prompt,
+        modelIdentifier: request.modelIdentifier,
+        template: request.template,
+        answers,
+        parameters: request
+      })).object;
+    }
+    if (!requirements) {
+      return request;
+    }
+    return { ...request, requirements, prompt: appendRequirements(request.prompt, requirements) };
+  }
+
+  /**
+   * Fold the OpenAPI contract into the prompt, keeping the parsed document for the conformance check
+   */
+  private applyApiContract(request: CodeGenerationRequest): CodeGenerationRequest {
+    if (!request.openApiSpec) {
+      return request;
+    }
+    const openApiSpec = parseOpenApiDocument(request.openApiSpec);
+    return { ...request, openApiSpec, prompt: appendApiContract(request.prompt, openApiSpec) };
+  }
+
+  private checkApiConformance(request: CodeGenerationRequest, project?: FullStackProject): ConformanceReport | undefined {
+    if (!request.openApiSpec || !project) {
+      return undefined;
+    }
+    const report = checkConformance(parseOpenApiDocument(request.openApiSpec), project);
+    if (!report.conforms) {
+      this.logger.warn(`Generated API deviates from the OpenAPI contract in ${report.issues.length} place(s): ${report.issues.map(issue => `${issue.kind} ${issue.operation}`).join('; ')}`);
+    }
+    return report;
   }
 
   /**
    * Generate full-stack code with frontend, backend, and database structure
    */
   async generateFullStackApplication(request: CodeGenerationRequest): Promise<CodeGenerationResponse> {
+    this.screenGenerationRequest('generate-fullstack', request);
+    const cacheMode = resolveCacheMode(request.cache);
+    const systemPrompt = resolveSystemPrompt({ template: request.template, version: request.promptVersion });
+    const cacheKey = responseCacheKey(request, { template: systemPrompt.template, version: systemPrompt.version });
+
+    if (cacheMode !== 'bypass') {
+      const cached = await this.responseCache.get(cacheKey);
+      if (cached) {
+        return this.fromCache(cacheKey, cached);
+      }
+      if (cacheMode === 'only') {
+        throw new NotFoundException(`No cached response for this request (cache key ${cacheKey})`);
+      }
+    }
+
+    const prepared = this.applyApiContract(await this.applyRequirements(request));
+    const generated = await this.generateFromPreparedRequest(prepared);
+    const conformance = this.checkApiConformance(prepared, generated.data);
+    const response: CodeGenerationResponse = {
+      ...generated,
+      ...(prepared.requirements && { requirements: prepared.requirements }),
+      ...(conformance && { conformance })
+    };
+    // Failures and salvaged projects are not cached, so retrying the same request generates again
+    if (response.success && !response.partial) {
+      await this.responseCache.set(cacheKey, { ...response, projectId: undefined });
+    }
+    return { ...response, cache: { hit: false, key: cacheKey } };
+  }
+
+  /**
+   * Serve a cached response, storing its project under a new id so it can be modified.
+   * No model is called, so the response reports no attempts and zero usage.
+   */
+  private fromCache(key: string, { response, storedAt }: CachedResponse): CodeGenerationResponse {
+    this.logger.log(`Response cache hit ${key} (generated ${storedAt})`);
+    const stored = response.data ? this.projectStore.save(response.data, undefined, response.requirements) : undefined;
+    return {
+      ...response,
+      projectId: stored?.id,
+      attempts: [],
+      usage: sumUsage([]),
+      cached: true,
+      cache: { hit: true, key, storedAt }
+    };
+  }
+
+  private async generateFromPreparedRequest(request: CodeGenerationRequest): Promise<CodeGenerationResponse> {
+    if (request.generationMode === 'multi-pass') {
+      return this.generateMultiPassApplication(request);
+    }
+
+    const systemPrompt = resolveSystemPrompt({
+      template: request.template,
+      version: request.promptVersion,
+      variables: request.promptVariables
+    });
+    const systemPromptInfo = { template: systemPrompt.template, version: systemPrompt.version };
+    this.logger.log(`Using system prompt ${systemPrompt.template}/${systemPrompt.version}`);
+
+    const models = this.getModelChain(request);
+    // Validate and clamp the sampling parameters for every model before any call is made
+    const parametersByModel = new Map(models.map(modelIdentifier => [
+      modelIdentifier,
+      this.resolveParameters(modelIdentifier, request, FULL_STACK_SAMPLING_DEFAULTS)
+    ]));
+    const retriesPerModel = Number(process.env.PARSE_RETRIES ?? 1);
+    const attempts: GenerationAttempt[] = [];
+    let lastFailure: GenerationAttemptOutcome | undefined;
+
+    for (const modelIdentifier of models) {
+      let feedback: string | undefined;
+
+      for (let retry = 0; retry <= retriesPerModel; retry++) {
+        const startedAt = Date.now();
+        const parameters = parametersByModel.get(modelIdentifier) as EffectiveGenerationParameters;
+        const outcome = await this.attemptFullStackGeneration({ ...request, ...parameters, modelIdentifier }, systemPrompt, feedback);
+        attempts.push({
+          modelIdentifier,
+          durationMs: Date.now() - startedAt,
+          usage: outcome.usage && priceUsage(modelIdentifier, outcome.usage),
+          success: outcome.response.success,
+          failureReason: outcome.response.success ? undefined : outcome.response.error,
+          parameters
+        });
+
+        if (outcome.response.success) {
+          return {
+            ...outcome.response,
+            attempts,
+            usage: this.sumAttemptUsage(attempts),
+            systemPrompt: systemPromptInfo,
+            parameters
+          };
+        }
+
+        lastFailure = outcome;
+        // Provider errors will not go away by asking again with feedback
+        if (outcome.providerError) {
+          break;
+        }
+        feedback = outcome.response.error;
+        this.logger.warn(`Attempt with ${modelIdentifier} failed, ${retry < retriesPerModel ? 'retrying with feedback' : 'moving down the fallback chain'}: ${feedback}`);
+      }
+    }
+
+    // Every model failed on unusable output: salvage what the last one wrote
+    const rawResponse = lastFailure?.response.rawResponse;
+    if (rawResponse && (lastFailure?.parseError || lastFailure?.response.schemaErrors)) {
+      const lastModel = attempts[attempts.length - 1]?.modelIdentifier ?? request.modelIdentifier;
+      const salvaged = await this.salvageGeneratedProject({ ...request, modelIdentifier: lastModel }, rawResponse);
+      if (salvaged) {
+        return {
+          ...salvaged,
+          attempts,
+          usage: sumUsage([this.sumAttemptUsage(attempts), ...(salvaged.usage ? [salvaged.usage] : [])]),
+          systemPrompt: systemPromptInfo,
+          parameters: attempts[attempts.length - 1]?.parameters
+        };
+      }
+    }
+
+    return {
+      ...(lastFailure?.response ?? { success: false, error: 'Generation failed' }),
+      attempts,
+      usage: this.sumAttemptUsage(attempts),
+      systemPrompt: systemPromptInfo,
+      parameters: attempts[attempts.length - 1]?.parameters
+    };
+  }
+
+  /**
+   * Validate and clamp the requested sampling parameters for a model, logging every adjustment
+   */
+  private resolveParameters(
+    modelIdentifier: string,
+    requested: GenerationParameters,
+    defaults: { temperature: number; maxTokens: number }
+  ): EffectiveGenerationParameters {
+    const { parameters, adjustments } = resolveGenerationParameters(modelIdentifier, requested, defaults);
+    if (adjustments.length > 0) {
+      this.logger.warn(`Adjusted generation parameters for ${modelIdentifier}: ${adjustments.join('; ')}`);
+    }
+    return parameters;
+  }
+
+  private sumAttemptUsage(attempts: GenerationAttempt[]): GenerationUsage {
+    return sumUsage(attempts.flatMap(attempt => (attempt.usage ? [attempt.usage] : [])));
+  }
+
+  /**
+   * Primary model followed by request.fallbackModels, or DEFAULT_FALLBACK_MODELS
+   * (comma-separated) when the request does not name any
+   */
+  private getModelChain(request: CodeGenerationRequest): string[] {
+    const fallbackModels = request.fallbackModels ??
+      (process.env.DEFAULT_FALLBACK_MODELS || '').split(',').map(model => model.trim()).filter(Boolean);
+    return [...new Set([request.modelIdentifier, ...fallbackModels])];
+  }
+
+  /**
+   * One single-pass generation with request.modelIdentifier. Unparseable or
+   * schema-invalid output is reported as a failure instead of a stub project,
+   * so the caller can retry.
+   */
+  private async attemptFullStackGeneration(
+    request: CodeGenerationRequest,
+    systemPrompt: ResolvedPrompt,
+    feedback?: string
+  ): Promise<GenerationAttemptOutcome> {
+    this.logger.log(`Generating full-stack application with ${request.modelIdentifier}: ${request.prompt}`);
+
+    let candidate: unknown;
+    let rawText: string;
+    let usage: LanguageModelUsage | undefined;
+    let finishReason: string | undefined;
     try {
-      this.logger.log(`Generating full-stack application: ${request.prompt}`);
-      
       const result = await generateFullStackCode({
         prompt: request.prompt,
         modelIdentifier: request.modelIdentifier,
-        template: request.template
+        template: request.template,
+        images: request.images,
+        systemPrompt,
+        feedback,
+        parameters: request
       });
+      candidate = result.object;
+      rawText = JSON.stringify(result.object);
+      usage = result.usage;
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error) || !error.text) {
+        this.logger.error(`Error generating full-stack application with ${request.modelIdentifier}`, error);
+        return {
+          response: {
+            success: false,
+            error: `Generation failed: ${error.message}`,
+            ...(error instanceof ProviderError && { errorCode: error.code })
+          },
+          usage: NoObjectGeneratedError.isInstance(error) ? error.usage : undefined,
+          providerError: !NoObjectGeneratedError.isInstance(error)
+        };
+      }
+      // The model answered, but its output could not be turned into a schema-valid object
+      this.logger.warn(`Structured generation failed, inspecting raw output: ${error.message}`);
+      rawText = error.text;
+      usage = error.usage;
+      finishReason = error.finishReason;
+    }
 
-      // Save raw AI response for debugging
-      this.saveJsonForDebug({
-        prompt: request.prompt,
-        modelIdentifier: request.modelIdentifier,
-        template: request.template,
-        rawResponse: result.text,
-        usage: result.usage
-      }, 'ai-raw-response');
+    let continuations = 0;
+    if (candidate === undefined && isTruncatedOutput(rawText, finishReason)) {
+      ({ rawText, usage, continuations } = await this.continueTruncatedOutput(request, systemPrompt, rawText, finishReason, usage));
+    }
 
-      // Try to parse the JSON response with enhanced error handling
-      let parsedProject: FullStackProject;
+    if (candidate === undefined) {
       try {
-        // Remove any markdown code blocks if present
-        let cleanedText = result.text.replace(/```json\n?|\n?```/g, '').trim();
-        
-        // Remove any leading/trailing non-JSON content
-        const jsonStart = cleanedText.indexOf('{');
-        const jsonEnd = cleanedText.lastIndexOf('}') + 1;
-        
-        if (jsonStart !== -1 && jsonEnd > jsonStart) {
-          cleanedText = cleanedText.substring(jsonStart, jsonEnd);
-        }
-        
-        // Pre-validation check for common trailing comma patterns
-        const trailingCommaPatterns = [
-          /},\s*"/g,           // }, followed by a property
-          /],\s*"/g,           // ], followed by a property  
-          /;,\s*"/g,           // ;, in code strings
-          /"[^"]*,"/g          // strings ending with comma
-        ];
-        
-        let hasTrailingCommas = false;
-        trailingCommaPatterns.forEach(pattern => {
-          if (pattern.test(cleanedText)) {
-            hasTrailingCommas = true;
-          }
-        });
-        
-        if (hasTrailingCommas) {
-          this.logger.warn('Detected trailing commas in AI response, applying aggressive cleaning...');
-        }
-        
-        // Try to fix common JSON issues
-        cleanedText = this.fixCommonJsonIssues(cleanedText);
-        
-        parsedProject = JSON.parse(cleanedText);
+        candidate = this.parseRawProject(rawText);
       } catch (parseError) {
         this.logger.error('Failed to parse AI response as JSON', parseError);
-        
-        // Try to extract a simpler structure
-        try {
-          const simplifiedProject = this.createFallbackProject(result.text, request);
-          return {
-            success: true,
-            data: simplifiedProject
-          };
-        } catch (fallbackError) {
-          return {
+        this.saveRawResponseForDebug(request, rawText, usage);
+        return {
+          response: {
             success: false,
             error: `Failed to parse AI response as valid JSON: ${parseError.message}`,
-            rawResponse: result.text
-          };
-        }
+            rawResponse: rawText,
+            ...(continuations > 0 && { continuations })
+          },
+          usage,
+          parseError: true
+        };
       }
+    }
 
-      // Validate the structure (basic validation)
-      if (!parsedProject.projectName || !parsedProject.code) {
-        return {
-          success: false,
-          error: 'Invalid project structure generated',
-          rawResponse: result.text
-        };
+    const response = this.finalizeGeneratedProject(request, candidate, rawText, usage);
+    return {
+      response: continuations > 0 ? { ...response, continuations } : response,
+      usage
+    };
+  }
+
+  /**
+   * Ask the model to resume output that was cut off, until the JSON is
+   * closed or MAX_CONTINUATIONS (default 3) requests have been made
+   */
+  private async continueTruncatedOutput(
+    request: CodeGenerationRequest,
+    systemPrompt: ResolvedPrompt,
+    rawText: string,
+    finishReason: string | undefined,
+    usage: LanguageModelUsage | undefined
+  ): Promise<{ rawText: string; usage: LanguageModelUsage | undefined; continuations: number }> {
+    const maxContinuations = Number(process.env.MAX_CONTINUATIONS ?? 3);
+    let continuations = 0;
+
+    while (continuations < maxContinuations && isTruncatedOutput(rawText, finishReason)) {
+      this.logger.warn(
+        `Model output truncated after ${rawText.length} characters (finish reason: ${finishReason ?? 'unknown'}), ` +
+        `requesting continuation ${continuations + 1}/${maxContinuations}`
+      );
+
+      try {
+        const result = await continueFullStackText({
+          prompt: request.prompt,
+          modelIdentifier: request.modelIdentifier,
+          template: request.template,
+          images: request.images,
+          systemPrompt,
+          parameters: request,
+          partialText: rawText
+        });
+        continuations++;
+        rawText = stitchContinuation(rawText, result.text);
+        finishReason = result.finishReason;
+        usage = addUsage(usage, result.usage);
+      } catch (error) {
+        this.logger.error('Continuation request failed, parsing the output received so far', error);
+        break;
       }
+    }
 
-      this.logger.log(`Successfully generated project: ${parsedProject.projectName}`);
-      
-      // Clean up any remaining trailing commas in the parsed project
-      parsedProject = this.cleanParsedProject(parsedProject);
-      
-      // Save parsed project for debugging
-      this.saveJsonForDebug(parsedProject, 'parsed-project');
-      
+    return { rawText, usage, continuations };
+  }
+
+  /**
+   * Generate a project in several passes: first a plan (files, endpoints,
+   * database schema), then every file in its own call. Files whose
+   * dependencies are ready are generated in parallel.
+   */
+  private async generateMultiPassApplication(request: CodeGenerationRequest): Promise<CodeGenerationResponse> {
+    const systemPrompt = resolveSystemPrompt({
+      template: request.template,
+      version: request.promptVersion,
+      variables: request.promptVariables
+    });
+    const systemPromptInfo = { template: systemPrompt.template, version: systemPrompt.version };
+    const parameters = this.resolveParameters(request.modelIdentifier, request, MULTI_PASS_SAMPLING_DEFAULTS);
+
+    try {
+      this.logger.log(`Planning full-stack application with system prompt ${systemPrompt.template}/${systemPrompt.version}: ${request.prompt}`);
+
+      const planResult = await generateProjectPlan({
+        prompt: request.prompt,
+        modelIdentifier: request.modelIdentifier,
+        template: request.template,
+        images: request.images,
+        systemPrompt,
+        parameters
+      });
+      const plan = planResult.object;
+      let usage: LanguageModelUsage = { ...planResult.usage };
+      this.saveJsonForDebug(plan, 'project-plan');
+
+      const waves = scheduleFileWaves(plan.files);
+      const concurrency = Number(process.env.MULTI_PASS_CONCURRENCY) || 4;
+      this.logger.log(`Plan has ${plan.files.length} files in ${waves.length} wave(s), concurrency ${concurrency}`);
+
+      const contents = new Map<string, string>();
+      for (const wave of waves) {
+        const results = await mapWithConcurrency(wave, concurrency, async file => {
+          const dependencies = plan.files
+            .filter(planned => file.dependsOn.includes(planned.path) && contents.has(plannedFileKey(planned)))
+            .map(planned => ({ path: planned.path, code: contents.get(plannedFileKey(planned)) as string }));
+
+          this.logger.log(`Generating ${file.section} file ${file.path}`);
+          return generateProjectFile({
+            prompt: request.prompt,
+            modelIdentifier: request.modelIdentifier,
+            plan,
+            file,
+            dependencies,
+            images: request.images,
+            systemPrompt,
+            parameters
+          });
+        });
+
+        wave.forEach((file, index) => {
+          contents.set(plannedFileKey(file), results[index].text);
+          usage = addUsage(usage, results[index].usage);
+        });
+      }
+
+      const project = assembleProject(plan, contents);
       return {
-        success: true,
-        data: parsedProject
+        ...this.finalizeGeneratedProject(request, project, JSON.stringify(project), usage),
+        usage: priceUsage(request.modelIdentifier, usage),
+        systemPrompt: systemPromptInfo,
+        parameters
       };
 
     } catch (error) {
-      this.logger.error('Error generating full-stack application', error);
+      this.logger.error('Error in multi-pass generation', error);
       return {
         success: false,
-        error: `Generation failed: ${error.message}`
+        error: `Multi-pass generation failed: ${error.message}`,
+        ...(error instanceof ProviderError && { errorCode: error.code }),
+        systemPrompt: systemPromptInfo,
+        parameters
       };
     }
   }
 
   /**
-   * Fix common syntax errors in generated code
+   * Stream full-stack generation as events: token deltas, each file as soon
+   * as the model finishes writing it, and finally the validated project
    */
-  private fixCommonJsonIssues(jsonString: string): string {
-    // First apply aggressive trailing comma removal
-    jsonString = this.removeTrailingCommas(jsonString);
-    
-    // Fix unescaped quotes in strings (basic fix)
-    jsonString = jsonString.replace(/: "([^"]*)"([^",}\]]*)"([^",}\]]*)",/g, ': "$1\\"$2\\"$3",');
-    
-    // Fix missing commas between properties (basic pattern)
-    jsonString = jsonString.replace(/}(\s*)"/g, '},$1"');
-    jsonString = jsonString.replace(/](\s*)"/g, '],$1"');
-    
-    // Final cleanup of any remaining trailing commas
-    jsonString = jsonString.replace(/,(\s*[}\]])/g, '$1');
-    
-    return jsonString;
-  }
+  streamFullStackApplication(request: CodeGenerationRequest): Observable<FullStackStreamEvent> {
+    // Screened before the stream opens, so a rejection is an ordinary 400 response
+    this.screenGenerationRequest('generate-fullstack/stream', request);
+    return new Observable<FullStackStreamEvent>(subscriber => {
+      const abortController = new AbortController();
+      const emittedFiles = new Set<string>();
 
-  /**
-   * Clean up trailing commas and syntax issues in parsed project structure
-   */
-  private cleanParsedProject(project: FullStackProject): FullStackProject {
-    try {
-      // Clean frontend files
-      if (project.code?.frontend?.files) {
-        for (const [filePath, fileData] of Object.entries(project.code.frontend.files)) {
-          if (fileData.code) {
-            // Remove trailing commas from code strings
-            fileData.code = fileData.code.replace(/},\s*$/, '}');
-            fileData.code = fileData.code.replace(/],\s*$/, ']');
-            fileData.code = fileData.code.replace(/;,\s*$/, ';');
-            fileData.code = fileData.code.replace(/,\s*$/, '');
-          }
+      const emitFile = (section: ProjectSection, path: string, file: { purpose: string; code: string }) => {
+        const key = `${section}:${path}`;
+        if (!emittedFiles.has(key)) {
+          emittedFiles.add(key);
+          subscriber.next({ type: 'file', section, path, file });
         }
-      }
+      };
+
+      const run = async () => {
+        this.logger.log(`Streaming full-stack application: ${request.prompt}`);
+        request = this.applyApiContract(await this.applyRequirements(request));
 
-      // Clean frontend dependencies  
-      if (project.code?.frontend?.dependencies) {
-        for (const [filePath, fileData] of Object.entries(project.code.frontend.dependencies)) {
-          if (fileData.code) {
-            fileData.code = fileData.code.replace(/},\s*$/, '}');
-            fileData.code = fileData.code.replace(/],\s*$/, ']');
-            fileData.code = fileData.code.replace(/;,\s*$/, ';');
-            fileData.code = fileData.code.replace(/,\s*$/, '');
+        const result = streamFullStackCode({
+          prompt: request.prompt,
+          modelIdentifier: request.modelIdentifier,
+          template: request.template,
+          images: request.images,
+          systemPrompt: resolveSystemPrompt({
+            template: request.template,
+            version: request.promptVersion,
+            variables: request.promptVariables
+          }),
+          parameters: request,
+          abortSignal: abortController.signal
+        });
+
+        let rawText = '';
+        for await (const part of result.fullStream) {
+          if (part.type === 'text-delta') {
+            rawText += part.textDelta;
+            subscriber.next({ type: 'token', delta: part.textDelta });
+          } else if (part.type === 'object') {
+            for (const completed of findCompletedFiles(part.object)) {
+              emitFile(completed.section, completed.path, completed.file);
+            }
+          } else if (part.type === 'error') {
+            throw part.error;
           }
         }
-      }
 
-      // Clean backend files
-      if (project.code?.backend?.files) {
-        for (const [filePath, fileData] of Object.entries(project.code.backend.files)) {
-          if (fileData.code) {
-            fileData.code = fileData.code.replace(/},\s*$/, '}');
-            fileData.code = fileData.code.replace(/],\s*$/, ']');
-            fileData.code = fileData.code.replace(/;,\s*$/, ';');
-            fileData.code = fileData.code.replace(/,\s*$/, '');
+        let candidate: unknown;
+        let usage: LanguageModelUsage | undefined;
+        try {
+          candidate = await result.object;
+          usage = await result.usage;
+        } catch (error) {
+          if (!NoObjectGeneratedError.isInstance(error)) {
+            throw error;
           }
+          this.logger.warn(`Structured streaming failed, inspecting raw output: ${error.message}`);
+          usage = error.usage;
         }
-      }
 
-      // Clean backend dependencies
-      if (project.code?.backend?.dependencies) {
-        for (const [filePath, fileData] of Object.entries(project.code.backend.dependencies)) {
-          if (fileData.code) {
-            fileData.code = fileData.code.replace(/},\s*$/, '}');
-            fileData.code = fileData.code.replace(/],\s*$/, ']');
-            fileData.code = fileData.code.replace(/;,\s*$/, ';');
-            fileData.code = fileData.code.replace(/,\s*$/, '');
-          }
+        let response = this.finalizeGeneratedProject(request, candidate, rawText, usage);
+        if (!response.success && response.rawResponse) {
+          response = (await this.salvageGeneratedProject(request, response.rawResponse)) ?? response;
+        }
+        if (!response.success || !response.data) {
+          subscriber.next({ type: 'error', message: response.error || 'Failed to generate project', schemaErrors: response.schemaErrors });
+          return;
         }
-      }
 
-      // Clean API endpoints - remove trailing commas from paths
-      if (project.apiEndpoints) {
-        project.apiEndpoints.forEach(endpoint => {
-          if (endpoint.path) {
-            endpoint.path = endpoint.path.replace(/,\s*$/, '');
+        // Files that were still open when the stream ended are complete now
+        for (const section of ['frontend', 'backend'] as ProjectSection[]) {
+          for (const [filePath, fileData] of Object.entries(response.data.code[section].files)) {
+            emitFile(section, filePath, fileData);
           }
+        }
+        subscriber.next({
+          type: 'complete',
+          project: response.data,
+          projectId: response.projectId,
+          conformance: this.checkApiConformance(request, response.data),
+          ...(response.partial && { partial: true, salvage: response.salvage })
         });
-      }
+      };
 
-      return project;
-    } catch (error) {
-      this.logger.warn(`Failed to clean parsed project: ${error.message}`);
-      return project;
-    }
+      run()
+        .catch(error => {
+          if (abortController.signal.aborted) {
+            return;
+          }
+          this.logger.error('Error streaming full-stack application', error);
+          subscriber.next({
+            type: 'error',
+            message: `Generation failed: ${error.message}`,
+            ...(error instanceof ProviderError && { code: error.code })
+          });
+        })
+        .finally(() => subscriber.complete());
+
+      // Stop the model call when the client disconnects
+      return () => abortController.abort();
+    });
   }
 
   /**
-   * Create a fallback project structure when JSON parsing fails
+   * Let the model build the app directly in the sandbox through tools, streaming
+   * every tool call and recording it in the agent audit log
    */
-  private createFallbackProject(rawText: string, request: CodeGenerationRequest): FullStackProject {
-    return {
-      projectName: "Generated Project",
-      projectDescription: "A full-stack application generated by AI",
-      template: request.template || "react+fastapi+mongodb",
-      code: {
-        frontend: {
-          framework: request.template?.includes('next') ? 'next' : 'react',
-          files: {
-            "/App.js": {
-              purpose: "Main application component",
-              code: "// Generated application code\n// Original response had parsing errors\n// Raw content available in logs"
-            }
-          },
-          dependencies: {
-            "package.json": {
-              purpose: "Package configuration",
-              code: JSON.stringify({
-                name: "generated-app",
-                version: "1.0.0",
-                dependencies: {
-                  "react": "^18.0.0",
-                  "@tailwindcss/base": "^3.0.0"
-                }
-              }, null, 2)
-            }
-          }
-        },
-        backend: {
-          framework: "fastapi",
-          files: {
-            "/main.py": {
-              purpose: "FastAPI main application",
-              code: "# Generated FastAPI application\n# Original response had parsing errors\n# Raw content available in logs"
+  runAgent(request: AgentRequest): Observable<AgentStreamEvent> {
+    this.assertPromptAllowed('agent', request.prompt);
+    return new Observable<AgentStreamEvent>(subscriber => {
+      const abortController = new AbortController();
+      const stepLimit = Number(process.env.AGENT_MAX_STEPS) || 25;
+      const maxSteps = Math.min(Math.max(Math.floor(Number(request.maxSteps) || stepLimit), 1), stepLimit);
+      const run = createAgentRun({ prompt: request.prompt, modelIdentifier: request.modelIdentifier, maxSteps });
+      const pendingCalls = new Map<string, AgentToolCallRecord>();
+
+      const execute = async () => {
+        this.logger.log(`Agent run ${run.runId} started: ${request.prompt}`);
+        subscriber.next({ type: 'started', runId: run.runId, maxSteps });
+
+        const result = streamSandboxAgent({
+          prompt: request.prompt,
+          modelIdentifier: request.modelIdentifier,
+          template: request.template,
+          tools: createSandboxTools(this.sandboxService),
+          maxSteps,
+          parameters: request,
+          abortSignal: abortController.signal
+        });
+
+        let step = 1;
+        let stepText = '';
+        for await (const part of result.fullStream) {
+          if (part.type === 'text-delta') {
+            stepText += part.textDelta;
+            subscriber.next({ type: 'text', delta: part.textDelta });
+          } else if (part.type === 'tool-call') {
+            const record: AgentToolCallRecord = {
+              step,
+              toolCallId: part.toolCallId,
+              toolName: part.toolName,
+              args: part.args,
+              startedAt: new Date()
+            };
+            run.toolCalls.push(record);
+            pendingCalls.set(part.toolCallId, record);
+            subscriber.next({ type: 'tool-call', step, toolCallId: part.toolCallId, toolName: part.toolName, args: part.args });
+          } else if (part.type === 'tool-result') {
+            const record = pendingCalls.get(part.toolCallId);
+            const durationMs = record ? Date.now() - record.startedAt.getTime() : 0;
+            if (record) {
+              record.result = part.result;
+              record.durationMs = durationMs;
+              pendingCalls.delete(part.toolCallId);
             }
-          },
-          dependencies: {
-            "requirements.txt": {
-              purpose: "Python dependencies",
-              code: "fastapi==0.104.1\nuvicorn==0.24.0\npymongo==4.6.0"
+            subscriber.next({ type: 'tool-result', step, toolCallId: part.toolCallId, toolName: part.toolName, result: part.result, durationMs });
+          } else if (part.type === 'step-finish') {
+            run.steps = step;
+            if (stepText.trim()) {
+              run.summary = stepText.trim();
             }
+            subscriber.next({ type: 'step', step, finishReason: part.finishReason });
+            step++;
+            stepText = '';
+          } else if (part.type === 'error') {
+            throw part.error;
           }
         }
-      },
-      projectStructure: {
-        frontend: "frontend/\n├── src/\n│   └── App.js\n└── package.json",
-        backend: "backend/\n├── main.py\n└── requirements.txt"
-      },
-      databaseSchema: {
-        collections: []
-      },
-      apiEndpoints: []
+
+        run.usage = priceUsage(request.modelIdentifier, await result.usage);
+        run.healthy = await this.checkAgentHealth(request.healthCheck);
+        run.status = 'completed';
+        run.finishedAt = new Date();
+        this.logger.log(`Agent run ${run.runId} finished after ${run.steps} step(s), healthy: ${run.healthy}`);
+        subscriber.next({
+          type: 'complete',
+          runId: run.runId,
+          steps: run.steps,
+          healthy: run.healthy,
+          summary: run.summary ?? '',
+          usage: run.usage
+        });
+      };
+
+      execute()
+        .catch(error => {
+          run.finishedAt = new Date();
+          if (abortController.signal.aborted) {
+            run.status = 'aborted';
+            return;
+          }
+          run.status = 'failed';
+          run.error = error.message;
+          this.logger.error(`Agent run ${run.runId} failed`, error);
+          subscriber.next({
+            type: 'error',
+            runId: run.runId,
+            message: `Agent run failed: ${error.message}`,
+            ...(error instanceof ProviderError && { code: error.code })
+          });
+        })
+        .finally(() => subscriber.complete());
+
+      // Stop the model call (and further tool calls) when the client disconnects
+      return () => abortController.abort();
+    });
+  }
+
+  private async checkAgentHealth(healthCheck: AgentRequest['healthCheck']): Promise<boolean> {
+    try {
+      const response = await fetchInSandbox(this.sandboxService, {
+        port: healthCheck?.port ?? 8000,
+        path: healthCheck?.path ?? '/health'
+      });
+      return response.status >= 200 && response.status < 400;
+    } catch (error) {
+      this.logger.warn(`Agent health check failed: ${error.message}`);
+      return false;
+    }
+  }
+
+  getAgentRun(runId: string): AgentRun {
+    const run = getAgentRun(runId);
+    if (!run) {
+      throw new NotFoundException(`Agent run ${runId} not found`);
+    }
+    return run;
+  }
+
+  listAgentRuns() {
+    return listAgentRuns();
+  }
+
+  /**
+   * Turn model output into a validated project, repairing raw text when the
+   * structured output could not be used
+   */
+  private finalizeGeneratedProject(
+    request: CodeGenerationRequest,
+    candidate: unknown,
+    rawText: string,
+    usage: LanguageModelUsage | undefined
+  ): CodeGenerationResponse {
+    this.saveRawResponseForDebug(request, rawText, usage);
+
+    if (candidate === undefined) {
+      try {
+        candidate = this.parseRawProject(rawText);
+      } catch (parseError) {
+        this.logger.error('Failed to parse AI response as JSON', parseError);
+        return {
+          success: false,
+          error: `Failed to parse AI response as valid JSON: ${parseError.message}`,
+          rawResponse: rawText
+        };
+      }
+    }
+
+    const validation = validateFullStackProject(candidate);
+    if (!validation.success) {
+      this.logger.warn(`Generated project failed schema validation: ${describeSchemaIssues(validation.issues)}`);
+      return {
+        success: false,
+        error: `Generated project does not match the FullStackProject schema at ${describeSchemaIssues(validation.issues)}`,
+        schemaErrors: validation.issues,
+        rawResponse: rawText
+      };
+    }
+
+    const parsedProject = validation.data;
+    this.logger.log(`Successfully generated project: ${parsedProject.projectName}`);
+    
+    // Save parsed project for debugging
+    this.saveJsonForDebug(parsedProject, 'parsed-project');
+    
+    const stored = this.projectStore.save(parsedProject, undefined, request.requirements);
+    return {
+      success: true,
+      data: parsedProject,
+      projectId: stored.id
+    };
+  }
+
+  /**
+   * Save raw AI response for debugging (copy it to test/fixtures/mock-responses/ to replay it with the mock provider)
+   */
+  private saveRawResponseForDebug(
+    request: CodeGenerationRequest,
+    rawText: string,
+    usage: LanguageModelUsage | undefined
+  ): void {
+    // Replayed output would otherwise become a fixture of its own
+    if (isMockModel(request.modelIdentifier)) {
+      return;
+    }
+    this.saveJsonForDebug({
+      prompt: request.prompt,
+      modelIdentifier: request.modelIdentifier,
+      template: request.template,
+      rawResponse: rawText,
+      usage
+    }, 'ai-raw-response');
+  }
+
+  /**
+   * Parse raw model text into a JSON value, repairing common formatting issues
+   */
+  private parseRawProject(rawText: string): unknown {
+    const { value, repairs } = parseTolerantJson(rawText);
+    for (const repair of repairs) {
+      this.logger.debug(`${repair.kind} at offset ${repair.offset}: ${repair.message}`);
+    }
+    // Code fences and prose around the JSON are expected, broken JSON is not
+    const fixes = repairs.filter((repair) => repair.kind !== 'stripped-text');
+    if (fixes.length > 0) {
+      this.logger.warn(`Repaired AI response JSON: ${summarizeRepairs(fixes)}`);
+    }
+    return value;
+  }
+
+  /**
+   * Salvage what the model wrote when its output could not be used as a whole,
+   * optionally regenerating the files it is missing. Undefined when not a
+   * single file could be recovered.
+   */
+  private async salvageGeneratedProject(
+    request: CodeGenerationRequest,
+    rawText: string
+  ): Promise<CodeGenerationResponse | undefined> {
+    const { project, report } = salvageProject(rawText, request.template);
+    if (report.recovered.files === 0) {
+      this.logger.warn('No file could be salvaged from the model output');
+      return undefined;
+    }
+    this.logger.warn(
+      `Salvaged ${report.recovered.files} files, ${report.recovered.apiEndpoints} API endpoints and ${report.recovered.collections} collections; ` +
+      `unrecoverable: ${report.unrecoverable.join(', ') || 'none'}`
+    );
+
+    let usage: GenerationUsage | undefined;
+    if (request.regenerateMissingFiles && report.missingFiles.length > 0) {
+      usage = await this.regenerateMissingFiles(request, project, report);
+    }
+
+    const stored = this.projectStore.save(project, undefined, request.requirements);
+    return {
+      success: true,
+      data: project,
+      projectId: stored.id,
+      partial: true,
+      salvage: report,
+      ...(usage && { usage })
+    };
+  }
+
+  /**
+   * Write the files missing from a salvaged project one call per file, as
+   * multi-pass generation does, with the salvaged project as the plan
+   */
+  private async regenerateMissingFiles(
+    request: CodeGenerationRequest,
+    project: FullStackProject,
+    report: SalvageReport
+  ): Promise<GenerationUsage> {
+    const sections: ProjectSection[] = ['frontend', 'backend'];
+    const locations: PlannedFile['location'][] = ['files', 'dependencies'];
+    const missing: PlannedFile[] = report.missingFiles.map(file => ({ ...file, dependsOn: [] }));
+    const plan: ProjectPlan = {
+      projectName: project.projectName,
+      projectDescription: project.projectDescription,
+      template: project.template,
+      frontendFramework: project.code.frontend.framework,
+      files: [
+        ...sections.flatMap(section => locations.flatMap(location =>
+          Object.entries(project.code[section][location]).map(([path, file]) => ({
+            section, location, path, purpose: file.purpose, dependsOn: []
+          }))
+        )),
+        ...missing
+      ],
+      apiEndpoints: project.apiEndpoints,
+      databaseSchema: project.databaseSchema,
+      projectStructure: project.projectStructure
     };
+
+    const systemPrompt = resolveSystemPrompt({
+      template: request.template,
+      version: request.promptVersion,
+      variables: request.promptVariables
+    });
+    const concurrency = Number(process.env.MULTI_PASS_CONCURRENCY) || 4;
+    const results = await mapWithConcurrency(missing, concurrency, async file => {
+      this.logger.log(`Regenerating missing ${file.section} file ${file.path}`);
+      try {
+        return await generateProjectFile({
+          prompt: request.prompt,
+          modelIdentifier: request.modelIdentifier,
+          plan,
+          file,
+          dependencies: [],
+          images: request.images,
+          systemPrompt,
+          parameters: request
+        });
+      } catch (error) {
+        this.logger.error(`Regenerating ${file.section} file ${file.path} failed`, error);
+        return undefined;
+      }
+    });
+
+    const usages: GenerationUsage[] = [];
+    report.regeneratedFiles = [];
+    missing.forEach((file, index) => {
+      const result = results[index];
+      if (result) {
+        project.code[file.section][file.location][file.path] = { purpose: file.purpose, code: result.text };
+        report.regeneratedFiles?.push(`code.${file.section}.${file.location}.${file.path}`);
+        usages.push(priceUsage(request.modelIdentifier, result.usage));
+      }
+    });
+    report.missingFiles = report.missingFiles.filter((_, index) => !results[index]);
+    return sumUsage(usages);
+  }
+
+
+  /**
+   * Apply a natural-language change to an existing project and return a
+   * file-level patch together with the merged project
+   */
+  async modifyProject(projectId: string, request: ProjectModificationRequest): Promise<ProjectModificationResponse> {
+    this.assertPromptAllowed('modify', request.change);
+    const stored = this.projectStore.get(projectId);
+    const project = request.project ?? stored?.project;
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found. Include the project in the request body.`);
+    }
+
+    const validation = validateFullStackProject(project);
+    if (!validation.success) {
+      throw new BadRequestException({
+        message: `Project does not match the FullStackProject schema at ${describeSchemaIssues(validation.issues)}`,
+        schemaErrors: validation.issues
+      });
+    }
+
+    const parameters = this.resolveParameters(request.modelIdentifier, request, MODIFICATION_SAMPLING_DEFAULTS);
+
+    try {
+      this.logger.log(`Modifying project ${projectId}: ${request.change}`);
+
+      const result = await generateProjectModification({
+        project,
+        change: request.change,
+        modelIdentifier: request.modelIdentifier,
+        requirements: stored?.requirements,
+        parameters
+      });
+
+      const { project: mergedProject, patch } = applyProjectPatch(project, result.object);
+      const revision = this.projectStore.save(mergedProject, projectId);
+      this.logger.log(`Applied ${countPatchedFiles(patch)} file change(s) to project ${projectId}`);
+
+      return {
+        success: true,
+        projectId,
+        revision: revision.revision,
+        summary: result.object.summary,
+        patch,
+        project: mergedProject,
+        parameters
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`Error modifying project ${projectId}`, error);
+      return {
+        success: false,
+        projectId,
+        error: `Modification failed: ${error.message}`
+      };
+    }
   }
 
   /**
    * Generate frontend-only code (legacy support)
    */
-  async generateFrontendCode(prompt: string, modelIdentifier: string): Promise<any> {
+  async generateFrontendCode(prompt: string, modelIdentifier: string, parameters?: GenerationParameters): Promise<any> {
+    this.assertPromptAllowed('generate-frontend', prompt);
     try {
       this.logger.log(`Generating frontend code: ${prompt}`);
       
-      const result = await GenAiCode({ prompt, modelIdentifier });
+      const result = await GenAiCode({ prompt, modelIdentifier, parameters });
       
       // Try to parse JSON
       try {
-        const cleanedText = result.text.replace(/```json\n?|\n?```/g, '').trim();
-        return JSON.parse(cleanedText);
-      } catch (parseError) {
+        return this.parseRawProject(result.text);
+      } catch {
         return { error: 'Failed to parse response', rawResponse: result.text };
       }
     } catch (error) {
@@ -348,11 +1128,12 @@ export class GenAiCodeGenerationService {
   /**
    * Chat with AI for general queries
    */
-  async chatWithAI(prompt: string, modelIdentifier: string): Promise<any> {
+  async chatWithAI(prompt: string, modelIdentifier: string, parameters?: GenerationParameters): Promise<any> {
+    this.assertPromptAllowed('chat', prompt);
     try {
       this.logger.log(`Chat session: ${prompt.substring(0, 50)}...`);
       
-      const result = await chatSession({ prompt, modelIdentifier });
+      const result = await chatSession({ prompt, modelIdentifier, parameters });
       
       return {
         response: result.text,
@@ -364,6 +1145,54 @@ export class GenAiCodeGenerationService {
     }
   }
 
+  /**
+   * Token usage and cost recorded for every model call, aggregated by model,
+   * template and operation
+   */
+  getUsageReport(query: { model?: string; template?: string; promptVersion?: string; from?: string; to?: string }): UsageReport {
+    const parseDate = (value: string | undefined, name: string) => {
+      if (!value) {
+        return undefined;
+      }
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new BadRequestException(`Invalid "${name}" date: ${value}`);
+      }
+      return date;
+    };
+
+    return queryUsage({
+      model: query.model,
+      template: query.template,
+      promptVersion: query.promptVersion,
+      from: parseDate(query.from, 'from'),
+      to: parseDate(query.to, 'to')
+    });
+  }
+
+  /**
+   * Models in the catalog with their capabilities, prices and whether their provider is configured
+   */
+  listModels(): ModelListing[] {
+    return listModels();
+  }
+
+  /**
+   * Reject a request naming a model that cannot serve it before any work starts
+   */
+  assertModelsAvailable(modelIdentifiers: (string | undefined)[], capabilities: ModelCapability[] = []): void {
+    for (const modelIdentifier of modelIdentifiers) {
+      assertModelAvailable(modelIdentifier as string, capabilities);
+    }
+  }
+
+  /**
+   * System prompt versions available per template
+   */
+  listPromptVersions(): PromptVersions[] {
+    return listPromptVersions();
+  }
+
   /**
    * Get supported templates
    */
@@ -377,14 +1206,16 @@ export class GenAiCodeGenerationService {
   async generateAndDeployFullStack(request: CodeGenerationRequest): Promise<{
     success: boolean;
     project?: FullStackProject;
-    deployment?: {
-      frontendUrl: string;
-      backendUrl: string;
-      status: string;
-      logs: any[];
-    };
+    projectId?: string;
+    conformance?: ConformanceReport;
+    cache?: CacheStatus;
+    partial?: boolean;
+    salvage?: SalvageReport;
+    deployment?: DeploymentResult;
     error?: string;
+    errorCode?: ProviderErrorCode;
   }> {
+    let projectId: string | undefined;
     try {
       console.log("Inside generateAndDeployFullStack");
       this.logger.log(`Generating and deploying full-stack application: ${request.prompt}`);
@@ -395,20 +1226,65 @@ export class GenAiCodeGenerationService {
       if (!codeResult.success || !codeResult.data) {
         return {
           success: false,
-          error: codeResult.error || 'Failed to generate code'
+          error: codeResult.error || 'Failed to generate code',
+          errorCode: codeResult.errorCode
         };
       }
+      projectId = codeResult.projectId;
 
       // Step 2: Deploy the generated code to sandbox
-      const deploymentResult = await this.deployGeneratedCodeToSandbox(codeResult.data);
+      const deploymentResult = await this.deployGeneratedCodeToSandbox(codeResult.data, {
+        blockOnTypeErrors: request.blockOnTypeErrors,
+        autoFix: request.autoFix,
+        maxRepairRounds: request.maxRepairRounds,
+        modelIdentifier: request.modelIdentifier,
+        parameters: request
+      });
+      const project = deploymentResult.project;
+      if (codeResult.projectId && project !== codeResult.data) {
+        this.projectStore.save(project, codeResult.projectId);
+      }
       
       return {
         success: true,
-        project: codeResult.data,
-        deployment: deploymentResult
+        project,
+        projectId: codeResult.projectId,
+        conformance: codeResult.conformance,
+        cache: codeResult.cache,
+        partial: codeResult.partial,
+        salvage: codeResult.salvage,
+        deployment: {
+          frontendUrl: deploymentResult.frontendUrl,
+          backendUrl: deploymentResult.backendUrl,
+          status: deploymentResult.status,
+          logs: deploymentResult.logs,
+          repairs: deploymentResult.repairs,
+          typeCheck: deploymentResult.typeCheck
+        }
       };
 
     } catch (error) {
+      // Rejected requests and cache misses with cache "only" keep their status code
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error instanceof DeploymentFailedError) {
+        return {
+          success: false,
+          project: error.project,
+          projectId,
+          deployment: {
+            frontendUrl: '',
+            backendUrl: '',
+            status: 'failed',
+            logs: error.logs,
+            repairs: error.repairs,
+            typeCheck: error.typeCheck
+          },
+          error: `Generation and deployment failed: ${error.message}`,
+          errorCode: error.errorCode
+        };
+      }
       this.logger.error('Error in generate and deploy process', error);
       return {
         success: false,
@@ -419,19 +1295,40 @@ export class GenAiCodeGenerationService {
 
   /**
    * Deploy generated code to E2B sandbox
+   * With autoFix, failed install and start steps are repaired by the model, so
+   * the returned project may differ from the one passed in.
    */
-  async deployGeneratedCodeToSandbox(project: FullStackProject): Promise<{
-    frontendUrl: string;
-    backendUrl: string;
-    status: string;
-    logs: any[];
+  async deployGeneratedCodeToSandbox(project: FullStackProject, options: DeploymentOptions = {}): Promise<DeploymentResult & {
+    project: FullStackProject;
   }> {
     const logs: any[] = [];
+    const state: DeploymentRepairState = {
+      project,
+      autoFix: !!options.autoFix && !!options.modelIdentifier,
+      maxRounds: Math.max(0, Math.floor(options.maxRepairRounds ?? (Number(process.env.AUTO_FIX_MAX_ROUNDS) || 2))),
+      modelIdentifier: options.modelIdentifier,
+      parameters: options.parameters,
+      repairs: []
+    };
+    let typeCheck: ProjectDiagnostic[] | undefined;
     
     try {
       this.logger.log(`Deploying project: ${project.projectName}`);
       logs.push({ type: 'info', message: `Starting deployment of ${project.projectName}` });
 
+      // Compile errors would otherwise only show once next dev serves the page
+      typeCheck = typeCheckFrontend(project);
+      const typeErrors = typeCheck.filter(diagnostic => diagnostic.severity === 'error');
+      for (const diagnostic of typeCheck) {
+        logs.push({
+          type: diagnostic.severity,
+          message: `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`
+        });
+      }
+      if (typeErrors.length > 0 && options.blockOnTypeErrors) {
+        throw new Error(`Frontend type check found ${typeErrors.length} error(s), first in ${typeErrors[0].file}:${typeErrors[0].line}`);
+      }
+
       // Step 1: Setup MongoDB if template includes it
       if (project.template.includes('mongodb')) {
         this.logger.log('Setting up MongoDB...');
@@ -448,11 +1345,11 @@ export class GenAiCodeGenerationService {
 
       // Step 2: Deploy Backend
       this.logger.log('Deploying backend...');
-      const backendUrl = await this.deployBackend(project, logs);
+      const backendUrl = await this.deployWithRepairs('backend', state, logs, current => this.deployBackend(current, logs));
 
       // Step 3: Deploy Frontend
       this.logger.log('Deploying frontend...');
-      const frontendUrl = await this.deployFrontend(project, backendUrl, logs);
+      const frontendUrl = await this.deployWithRepairs('frontend', state, logs, current => this.deployFrontend(current, backendUrl, logs));
 
       logs.push({ type: 'success', message: 'Full-stack deployment completed successfully!' });
 
@@ -460,13 +1357,136 @@ export class GenAiCodeGenerationService {
         frontendUrl,
         backendUrl,
         status: 'success',
-        logs
+        logs,
+        ...(state.autoFix && { repairs: state.repairs }),
+        typeCheck,
+        project: state.project
       };
 
     } catch (error) {
       this.logger.error(`Deployment failed: ${error.message}`);
       logs.push({ type: 'error', message: `Deployment failed: ${error.message}` });
-      throw error;
+      throw new DeploymentFailedError(
+        error.message,
+        logs,
+        state.repairs,
+        state.project,
+        typeCheck,
+        error instanceof ProviderError ? error.code : state.repairs.at(-1)?.errorCode
+      );
+    }
+  }
+
+  /**
+   * Run a deployment stage; with autoFix, each failed install or start step
+   * is patched by the model and the stage is run again, up to maxRounds in total
+   */
+  private async deployWithRepairs<T>(
+    section: ProjectSection,
+    state: DeploymentRepairState,
+    logs: any[],
+    deploy: (project: FullStackProject) => Promise<T>
+  ): Promise<T> {
+    while (true) {
+      try {
+        const result = await deploy(state.project);
+        if (state.pending) {
+          state.pending.fixed = true;
+          logs.push({ type: 'success', message: `Auto-fix round ${state.pending.round} fixed ${state.pending.step}` });
+          state.pending = undefined;
+        }
+        return result;
+      } catch (error) {
+        const failure = this.toDeploymentFailure(section, error);
+        if (state.pending) {
+          state.pending.failureReason = `Retry still failed: ${error.message}`;
+          state.pending = undefined;
+        }
+        if (!failure || !state.autoFix) {
+          throw error;
+        }
+
+        let patched = false;
+        while (!patched && state.repairs.length < state.maxRounds) {
+          patched = await this.repairDeploymentStep(failure, state, logs);
+        }
+        if (!patched) {
+          logs.push({ type: 'error', message: `Auto-fix gave up on ${failure.step} after ${state.repairs.length} repair round(s)` });
+          throw error;
+        }
+        logs.push({ type: 'info', message: `Retrying ${section} deployment with auto-fix round ${state.repairs.length} applied` });
+      }
+    }
+  }
+
+  private toDeploymentFailure(section: ProjectSection, error: unknown): { step: DeploymentStep; output: string } | undefined {
+    if (error instanceof DeploymentStepError) {
+      return { step: error.step, output: error.output || error.message };
+    }
+    if (error instanceof ServiceStartError) {
+      return { step: `${section}-start`, output: error.output || error.message };
+    }
+    return undefined;
+  }
+
+  /**
+   * Ask the model for a patch to the failed step and apply it to state.project.
+   * Returns false when the round produced nothing worth retrying.
+   */
+  private async repairDeploymentStep(
+    failure: { step: DeploymentStep; output: string },
+    state: DeploymentRepairState,
+    logs: any[]
+  ): Promise<boolean> {
+    const round = state.repairs.length + 1;
+    const errorOutput = failure.output.slice(-MAX_REPAIR_OUTPUT_CHARS);
+    const repair: DeploymentRepair = { round, step: failure.step, errorOutput, files: [], fixed: false };
+    const previousAttempts = state.repairs
+      .filter(previous => previous.step === failure.step && previous.summary)
+      .map(previous => previous.summary as string);
+    state.repairs.push(repair);
+
+    logs.push({
+      type: 'warning',
+      message: `Auto-fix round ${round}/${state.maxRounds}: ${failure.step} failed, requesting a patch from ${state.modelIdentifier}`,
+      output: errorOutput
+    });
+
+    try {
+      const { object: modification } = await generateDeploymentFix({
+        project: state.project,
+        step: failure.step,
+        errorOutput,
+        previousAttempts,
+        modelIdentifier: state.modelIdentifier as string,
+        parameters: state.parameters
+      });
+      const { project: patched, patch } = applyProjectPatch(state.project, modification);
+      const diffs = describePatchDiffs(state.project, patch);
+
+      repair.summary = modification.summary;
+      repair.files = diffs.map(diff => diff.file);
+      if (diffs.length === 0) {
+        repair.failureReason = 'The model returned no file changes';
+        logs.push({ type: 'warning', message: `Auto-fix round ${round}: no file changes (${modification.summary})` });
+        return false;
+      }
+
+      logs.push({ type: 'info', message: `Auto-fix round ${round}: ${modification.summary}` });
+      for (const diff of diffs) {
+        logs.push({ type: 'info', message: `Auto-fix round ${round}: ${diff.action} ${diff.file}`, diff: diff.diff });
+      }
+      state.project = patched;
+      state.pending = repair;
+      return true;
+    } catch (error) {
+      this.logger.warn(`Auto-fix round ${round} failed: ${error.message}`);
+      repair.failureReason = `Repair request failed: ${error.message}`;
+      if (error instanceof ProviderError) {
+        repair.errorCode = error.code;
+      }
+      logs.push({ type: 'error', message: `Auto-fix round ${round}: repair request failed: ${error.message}` });
+      return false;
     }
   }
 
@@ -537,6 +1557,8 @@ def health_check():
         logs.push({ type: 'info', message: `Created dependency file: ${filePath}` });
       }
 
+      await this.verifyBackend(project, backendDir, logs);
+
       // Install Python dependencies
       logs.push({ type: 'info', message: 'Installing Python dependencies...' });
       const pipInstall = await this.sandboxService.runCommand(
@@ -546,7 +1568,7 @@ def health_check():
       );
 
       if (pipInstall.exitCode !== 0) {
-        throw new Error(`Failed to install Python dependencies: ${pipInstall.stderr}`);
+        throw new DeploymentStepError('backend-install', `Failed to install Python dependencies: ${pipInstall.stderr}`, pipInstall.stderr);
       }
       logs.push({ type: 'success', message: 'Python dependencies installed successfully' });
 
@@ -587,6 +1609,46 @@ def health_check():
     }
   }
 
+  /**
+   * Compile every backend file and check its imports before anything is
+   * installed or started; otherwise a syntax error only shows up as uvicorn
+   * never becoming ready. A check that cannot run is logged and skipped.
+   */
+  private async verifyBackend(project: FullStackProject, backendDir: string, logs: any[]): Promise<void> {
+    const files = Object.keys(project.code.backend.files).filter(file => file.endsWith('.py'));
+    if (files.length === 0) {
+      return;
+    }
+    logs.push({ type: 'info', message: `Checking syntax and imports of ${files.length} Python file(s)...` });
+
+    const scriptPath = '/tmp/check_backend.py';
+    const args = files.map(file => `'${file.replace(/^\//, '').replace(/'/g, `'\\''`)}'`).join(' ');
+    let report: BackendCheckReport | undefined;
+    try {
+      await this.sandboxService.writeFile(scriptPath, BACKEND_CHECK_SCRIPT);
+      const result = await this.sandboxService.runCommand(`python3 ${scriptPath} ${args}`, backendDir, 60000);
+      report = parseBackendCheckOutput(result.stdout);
+      if (!report) {
+        throw new Error(result.stderr || result.stdout);
+      }
+    } catch (error) {
+      logs.push({ type: 'warning', message: `Backend check could not run: ${error.message}` });
+      return;
+    }
+
+    const diagnostics = checkBackendFiles(project, report);
+    const describe = (diagnostic: ProjectDiagnostic) =>
+      `${diagnostic.file}${diagnostic.line ? `:${diagnostic.line}` : ''}: ${diagnostic.message}`;
+    for (const diagnostic of diagnostics) {
+      logs.push({ type: diagnostic.severity, message: describe(diagnostic), file: diagnostic.file, line: diagnostic.line });
+    }
+    if (diagnostics.length > 0) {
+      const output = diagnostics.map(describe).join('\n');
+      throw new DeploymentStepError('backend-verify', `Backend check found ${diagnostics.length} problem(s):\n${output}`, output);
+    }
+    logs.push({ type: 'success', message: 'Python files compile and their imports are available' });
+  }
+
   /**
    * Clean common syntax errors in generated code
    */
@@ -856,7 +1918,7 @@ module.exports = nextConfig;`;
           );
           
           if (npmInstallAlt.exitCode !== 0) {
-            throw new Error(`Failed to install Node.js dependencies: ${npmInstallAlt.stderr}`);
+            throw new DeploymentStepError('frontend-install', `Failed to install Node.js dependencies: ${npmInstallAlt.stderr}`, npmInstallAlt.stderr);
           }
         }
         
@@ -955,7 +2017,7 @@ module.exports = nextConfig;`;
     try {
       this.logger.log(`Debug generation: ${prompt.substring(0, 50)}...`);
       
-      const result = await generateFullStackCode({
+      const result = await generateFullStackText({
         prompt,
         modelIdentifier,
         template
@@ -53,15 +53,437 @@ export interface FullStackProject {
   apiEndpoints: ApiEndpoint[];
 }
 
-export interface CodeGenerationRequest {
+/**
+ * Sampling parameters a request may set; clamped to the model's limits
+ */
+export interface GenerationParameters {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /** Same model, prompt version and seed reproduce a generation where the provider supports seeding */
+  seed?: number;
+  stopSequences?: string[];
+}
+
+/**
+ * Parameters actually sent to the model, after defaults and per-model limits
+ */
+export interface EffectiveGenerationParameters {
+  temperature: number;
+  topP?: number;
+  maxTokens: number;
+  seed?: number;
+  stopSequences?: string[];
+}
+
+export interface CodeGenerationRequest extends GenerationParameters {
   prompt: string;
   modelIdentifier: string;
   template?: 'next+fastapi+mongodb' | 'react+fastapi+mongodb';
+  /** "multi-pass" plans the project first and then generates each file in its own call */
+  generationMode?: 'single' | 'multi-pass';
+  /** Models tried in order when modelIdentifier keeps producing unusable output (single-pass only) */
+  fallbackModels?: string[];
+  /** System prompt version, e.g. "v2" (see prompts/README.md); defaults to PROMPT_VERSION or the latest */
+  promptVersion?: string;
+  /** Overrides for prompt variables such as framework, styling and database */
+  promptVariables?: Record<string, string>;
+  /** generate-and-deploy only: when an install or start step fails, ask the model for a patch and retry */
+  autoFix?: boolean;
+  /** Repair rounds allowed per deployment (defaults to AUTO_FIX_MAX_ROUNDS, 2) */
+  maxRepairRounds?: number;
+  /** generate-and-deploy only: do not deploy when the TypeScript check of the frontend finds errors */
+  blockOnTypeErrors?: boolean;
+  /** Questions from POST /gen-ai-code/clarify and the user's answers, turned into requirements before generating */
+  clarification?: ClarificationAnswers;
+  /** Structured requirements; derived from clarification when omitted */
+  requirements?: ProjectRequirements;
+  /** Wireframes, screenshots or sketches guiding the UI; needs a model with vision */
+  images?: ImageAttachment[];
+  /** OpenAPI 3 document (object or JSON string) the generated API and frontend calls must implement */
+  openApiSpec?: OpenApiDocument | string;
+  /** "prefer" reuses a cached response, "only" never calls the model, "bypass" always generates (default RESPONSE_CACHE_MODE) */
+  cache?: CacheMode;
+  /** When the model output has to be salvaged, write the files it is missing in follow-up calls */
+  regenerateMissingFiles?: boolean;
+}
+
+export type CacheMode = 'bypass' | 'prefer' | 'only';
+
+/**
+ * Whether a generation response came from the response cache
+ */
+export interface CacheStatus {
+  hit: boolean;
+  /** Content address of the request */
+  key: string;
+  /** When the cached response was generated */
+  storedAt?: string;
+}
+
+export interface ImageAttachment {
+  /** Base64 image data, or a data URL */
+  data: string;
+  /** Detected from the data when omitted */
+  mimeType?: string;
+  name?: string;
+}
+
+/**
+ * An OpenAPI 3.x document; only the parts the contract check reads are typed
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  /** Path items: operations keyed by lower-case HTTP method, plus shared parameters */
+  paths: Record<string, Record<string, unknown>>;
+  components?: { schemas?: Record<string, unknown> };
+  [key: string]: unknown;
+}
+
+/**
+ * The fields of an OpenAPI operation object the contract check reads
+ */
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  responses?: Record<string, unknown>;
+}
+
+/**
+ * One operation of the contract, e.g. GET /todos/{id}
+ */
+export interface ContractOperation {
+  method: string;
+  path: string;
+  operationId?: string;
+  summary?: string;
+  /** Response codes declared in the spec, e.g. ["200", "404"] */
+  statusCodes: string[];
+}
+
+export interface ConformanceIssue {
+  /** "METHOD /path" as declared in the spec */
+  operation: string;
+  kind: 'missing' | 'method' | 'path' | 'status';
+  message: string;
+}
+
+/**
+ * Spec operations the generated FastAPI routes do not implement as declared
+ */
+export interface ConformanceReport {
+  conforms: boolean;
+  checkedOperations: number;
+  issues: ConformanceIssue[];
+}
+
+export type ClarifyingTopic =
+  | 'entities'
+  | 'auth'
+  | 'pages'
+  | 'integrations'
+  | 'other';
+
+export interface ClarifyingQuestion {
+  id: string;
+  topic: ClarifyingTopic;
+  question: string;
+  /** Choices to offer when the question has a small set of sensible answers */
+  options?: string[];
+  /** Answer used when the user leaves the question unanswered */
+  suggestedDefault: string;
+}
+
+export interface ClarificationRequest extends GenerationParameters {
+  prompt: string;
+  modelIdentifier: string;
+  template?: 'next+fastapi+mongodb' | 'react+fastapi+mongodb';
+}
+
+export interface ClarificationAnswers {
+  questions: ClarifyingQuestion[];
+  /** Answers keyed by question id; missing answers fall back to suggestedDefault */
+  answers?: Record<string, string>;
+}
+
+/**
+ * What the user wants built, used to steer generation and stored with the project
+ */
+export interface ProjectRequirements {
+  summary: string;
+  entities: { name: string; fields: string[] }[];
+  auth: { required: boolean; method?: string; roles: string[] };
+  pages: { name: string; path: string; purpose: string }[];
+  integrations: { name: string; purpose: string }[];
+  notes: string[];
+}
+
+/**
+ * Why a model provider call failed; rate_limit maps to 429, timeout to 504, the rest to 502
+ */
+export type ProviderErrorCode =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'auth'
+  | 'bad_request'
+  | 'timeout';
+
+export interface GenerationUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Cost in USD from the per-model price table */
+  costUsd: number;
+  /** False when a model without a known price was involved, so costUsd is incomplete */
+  priced: boolean;
+}
+
+export interface GenerationAttempt {
+  modelIdentifier: string;
+  durationMs: number;
+  usage?: GenerationUsage;
+  success: boolean;
+  failureReason?: string;
+  /** Parameters sent to this model after clamping */
+  parameters?: EffectiveGenerationParameters;
 }
 
 export interface CodeGenerationResponse {
   success: boolean;
   data?: FullStackProject;
+  /** Requirements the project was generated from, when clarification answers were given */
+  requirements?: ProjectRequirements;
+  /** Result of checking the generated routes against openApiSpec */
+  conformance?: ConformanceReport;
+  cache?: CacheStatus;
+  /** Served from the response cache without calling a model, so usage is zero */
+  cached?: boolean;
+  /** Id under which the generated project is stored, used for follow-up modifications */
+  projectId?: string;
   error?: string;
+  /** Set when the generation failed because of the model provider */
+  errorCode?: ProviderErrorCode;
+  /** Schema violations, one per offending path, when the output did not match FullStackProject */
+  schemaErrors?: { path: string; message: string }[];
+  /** Follow-up requests made because the model output was cut off */
+  continuations?: number;
+  /** Every model call made for this generation, including retries and fallbacks */
+  attempts?: GenerationAttempt[];
+  /** Tokens and cost of every model call made for this generation */
+  usage?: GenerationUsage;
+  /** System prompt the generation used */
+  systemPrompt?: { template: string; version: string };
+  /** Effective parameters of the successful (or last) model call */
+  parameters?: EffectiveGenerationParameters;
+  /** The project was salvaged from malformed model output and is incomplete */
+  partial?: boolean;
+  salvage?: SalvageReport;
   rawResponse?: string;
 }
+
+export type ProjectSection = 'frontend' | 'backend';
+
+/**
+ * A file that salvaged output started but cut off or garbled, or that the
+ * project needs and the output never reached
+ */
+export interface MissingProjectFile {
+  section: ProjectSection;
+  location: 'files' | 'dependencies';
+  path: string;
+  purpose: string;
+}
+
+/**
+ * What was recovered from model output that could not be used as a whole
+ */
+export interface SalvageReport {
+  recovered: { files: number; apiEndpoints: number; collections: number };
+  /** Dotted paths of what could not be recovered, e.g. "apiEndpoints" or "code.backend.files./main.py" */
+  unrecoverable: string[];
+  missingFiles: MissingProjectFile[];
+  /** Missing files written afterwards because regenerateMissingFiles was set */
+  regeneratedFiles?: string[];
+}
+
+export type ProjectDiagnosticCode =
+  | 'schema'
+  | 'template-mismatch'
+  | 'missing-entry-file'
+  | 'invalid-package-json'
+  | 'empty-requirements'
+  | 'duplicate-path'
+  | 'path-escapes-root'
+  | 'endpoint-missing'
+  | 'endpoint-mismatch'
+  | 'typescript'
+  | 'python-syntax'
+  | 'python-import';
+
+/**
+ * One problem found in a project, located by the dotted path of the offending
+ * value and, where it points into a file, the file and 1-based line
+ */
+export interface ProjectDiagnostic {
+  severity: 'error' | 'warning';
+  code: ProjectDiagnosticCode;
+  message: string;
+  /** Dotted path as in SchemaIssue, e.g. "code.frontend.files./app/page.tsx" */
+  path: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ProjectValidationReport {
+  /** No error diagnostics; warnings do not make a project invalid */
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  diagnostics: ProjectDiagnostic[];
+}
+
+/**
+ * Server-sent events emitted while a project is streamed
+ */
+export type FullStackStreamEvent =
+  | { type: 'token'; delta: string }
+  | { type: 'file'; section: ProjectSection; path: string; file: ProjectFile }
+  | {
+      type: 'complete';
+      project: FullStackProject;
+      projectId?: string;
+      conformance?: ConformanceReport;
+      partial?: boolean;
+      salvage?: SalvageReport;
+    }
+  | {
+      type: 'error';
+      message: string;
+      code?: ProviderErrorCode;
+      schemaErrors?: { path: string; message: string }[];
+    };
+
+export interface AgentRequest extends GenerationParameters {
+  /** Description of the application the agent should build in the sandbox */
+  prompt: string;
+  modelIdentifier: string;
+  template?: 'next+fastapi+mongodb' | 'react+fastapi+mongodb';
+  /** Model calls allowed, capped at AGENT_MAX_STEPS */
+  maxSteps?: number;
+  /** Endpoint that must answer for the app to count as healthy (default port 8000, /health) */
+  healthCheck?: { port: number; path?: string };
+}
+
+/**
+ * Server-sent events emitted while the agent works in the sandbox
+ */
+export type AgentStreamEvent =
+  | { type: 'started'; runId: string; maxSteps: number }
+  | { type: 'text'; delta: string }
+  | {
+      type: 'tool-call';
+      step: number;
+      toolCallId: string;
+      toolName: string;
+      args: unknown;
+    }
+  | {
+      type: 'tool-result';
+      step: number;
+      toolCallId: string;
+      toolName: string;
+      result: unknown;
+      durationMs: number;
+    }
+  | { type: 'step'; step: number; finishReason: string }
+  | {
+      type: 'complete';
+      runId: string;
+      steps: number;
+      healthy: boolean;
+      summary: string;
+      usage?: GenerationUsage;
+    }
+  | {
+      type: 'error';
+      runId?: string;
+      message: string;
+      code?: ProviderErrorCode;
+    };
+
+export type FileLocation = 'files' | 'dependencies';
+
+export interface FilePatchEntry {
+  section: ProjectSection;
+  location: FileLocation;
+  path: string;
+  purpose?: string;
+  code?: string;
+}
+
+/**
+ * File-level difference between two revisions of a project
+ */
+export interface ProjectPatch {
+  added: FilePatchEntry[];
+  modified: FilePatchEntry[];
+  deleted: FilePatchEntry[];
+}
+
+export interface ProjectModificationRequest extends GenerationParameters {
+  /** Natural-language change, e.g. "add a due date to todos" */
+  change: string;
+  modelIdentifier: string;
+  /** Current project; optional when the id refers to a stored project */
+  project?: FullStackProject;
+}
+
+export interface ProjectModificationResponse {
+  success: boolean;
+  projectId: string;
+  revision?: number;
+  summary?: string;
+  patch?: ProjectPatch;
+  project?: FullStackProject;
+  /** Effective parameters of the modification call */
+  parameters?: EffectiveGenerationParameters;
+  error?: string;
+}
+
+export type DeploymentStep =
+  | 'backend-verify'
+  | 'backend-install'
+  | 'backend-start'
+  | 'frontend-install'
+  | 'frontend-start';
+
+/**
+ * One auto-fix round of a deployment: the failure fed to the model and the patch it returned
+ */
+export interface DeploymentRepair {
+  round: number;
+  step: DeploymentStep;
+  /** Tail of the stderr / service log sent to the model */
+  errorOutput: string;
+  summary?: string;
+  /** Files touched by the patch, e.g. "backend/requirements.txt" */
+  files: string[];
+  /** Whether the step succeeded when retried with this patch */
+  fixed: boolean;
+  failureReason?: string;
+  /** Provider error of a failed repair request */
+  errorCode?: ProviderErrorCode;
+}
+
+export interface DeploymentResult {
+  frontendUrl: string;
+  backendUrl: string;
+  status: string;
+  logs: any[];
+  /** Auto-fix rounds, present when autoFix was requested */
+  repairs?: DeploymentRepair[];
+  /** Findings of the TypeScript check of the frontend run before deploying */
+  typeCheck?: ProjectDiagnostic[];
+}
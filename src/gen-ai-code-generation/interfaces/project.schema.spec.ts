@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FullStackProject } from './project.interface';
+import {
+  describeSchemaIssues,
+  fullStackProjectSchema,
+  toSchemaIssues,
+  validateFullStackProject,
+} from './project.schema';
+
+function loadProject(): FullStackProject {
+  return JSON.parse(
+    fs.readFileSync(
+      path.join(
+        __dirname,
+        '../../../generated-code/2025-08-21T06-31-53-388Z-parsed-project.json',
+      ),
+      'utf8',
+    ),
+  ) as FullStackProject;
+}
+
+describe('validateFullStackProject', () => {
+  it('accepts a generated project', () => {
+    const project = loadProject();
+
+    expect(validateFullStackProject(project)).toEqual({
+      success: true,
+      data: project,
+    });
+  });
+
+  it('reports file paths verbatim in the dotted issue path', () => {
+    const project = loadProject() as unknown as {
+      template: string;
+      code: { frontend: { files: Record<string, unknown> } };
+    };
+    project.template = 'vue+express';
+    project.code.frontend.files['/app/page.tsx'] = { purpose: 'Home page' };
+
+    const result = validateFullStackProject(project);
+
+    expect(result.success).toBe(false);
+    const issues = result.success ? [] : result.issues;
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'template',
+      'code.frontend.files./app/page.tsx.code',
+    ]);
+    expect(describeSchemaIssues(issues)).toContain(
+      'code.frontend.files./app/page.tsx.code: Required',
+    );
+  });
+});
+
+describe('toSchemaIssues', () => {
+  it('names the root when the whole value is wrong', () => {
+    const result = fullStackProjectSchema.safeParse('not a project');
+
+    expect(result.success).toBe(false);
+    expect(result.error && toSchemaIssues(result.error)).toEqual([
+      { path: '(root)', message: 'Expected object, received string' },
+    ]);
+  });
+});
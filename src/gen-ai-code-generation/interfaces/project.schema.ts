@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { FullStackProject } from './project.interface';
+
+/**
+ * Runtime schema mirroring FullStackProject in project.interface.ts.
+ * Keep the two in sync: the schema is what the model is asked to produce
+ * and what every generated project is validated against. The type
+ * annotation on fullStackProjectSchema fails the build when they drift.
+ */
+export const projectFileSchema = z.object({
+  purpose: z.string().describe('What this file is for'),
+  code: z.string().describe('Complete file contents'),
+});
+
+export const projectFilesSchema = z.record(z.string(), projectFileSchema);
+
+export const frontendStructureSchema = z.object({
+  framework: z.enum(['react', 'next']),
+  files: projectFilesSchema.describe(
+    'Frontend source files keyed by absolute path, e.g. "/app/page.tsx"',
+  ),
+  dependencies: projectFilesSchema.describe(
+    'Dependency manifests keyed by file name, e.g. "package.json"',
+  ),
+});
+
+export const backendStructureSchema = z.object({
+  framework: z.literal('fastapi'),
+  files: projectFilesSchema.describe(
+    'Backend source files keyed by absolute path, e.g. "/main.py"',
+  ),
+  dependencies: projectFilesSchema.describe(
+    'Dependency manifests keyed by file name, e.g. "requirements.txt"',
+  ),
+});
+
+export const databaseCollectionSchema = z.object({
+  name: z.string(),
+  purpose: z.string(),
+  schema: z.record(z.string(), z.any()),
+});
+
+export const apiEndpointSchema = z.object({
+  method: z.string(),
+  path: z.string(),
+  purpose: z.string(),
+});
+
+export const fullStackProjectSchema: z.ZodType<FullStackProject> = z.object({
+  projectName: z.string().min(1),
+  projectDescription: z.string(),
+  template: z.enum(['next+fastapi+mongodb', 'react+fastapi+mongodb']),
+  code: z.object({
+    frontend: frontendStructureSchema,
+    backend: backendStructureSchema,
+  }),
+  projectStructure: z.object({
+    frontend: z.string(),
+    backend: z.string(),
+  }),
+  databaseSchema: z.object({
+    collections: z.array(databaseCollectionSchema),
+  }),
+  apiEndpoints: z.array(apiEndpointSchema),
+});
+
+export interface SchemaIssue {
+  /** Dotted path to the offending value, e.g. "code.frontend.files./app/page.tsx.code" */
+  path: string;
+  message: string;
+}
+
+export type ProjectValidationResult =
+  | { success: true; data: FullStackProject }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Convert zod issues into dotted paths. File paths are used verbatim as
+ * keys so the reported path points straight at the broken file.
+ */
+export function toSchemaIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message,
+  }));
+}
+
+export function validateFullStackProject(
+  value: unknown,
+): ProjectValidationResult {
+  const result = fullStackProjectSchema.safeParse(value);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, issues: toSchemaIssues(result.error) };
+}
+
+export function describeSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+}
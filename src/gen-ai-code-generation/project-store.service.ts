@@ -0,0 +1,53 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  FullStackProject,
+  ProjectRequirements,
+} from './interfaces/project.interface';
+
+export interface StoredProject {
+  id: string;
+  project: FullStackProject;
+  /** Requirements the project was generated from, see POST /gen-ai-code/clarify */
+  requirements?: ProjectRequirements;
+  revision: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * In-memory store of generated projects, so they can be refined over several turns
+ */
+@Injectable()
+export class ProjectStoreService {
+  private readonly logger = new Logger(ProjectStoreService.name);
+  private readonly projects = new Map<string, StoredProject>();
+
+  /**
+   * Save a project, creating a new id unless one is given. Requirements are
+   * kept across revisions unless new ones are passed.
+   */
+  save(
+    project: FullStackProject,
+    id: string = randomUUID(),
+    requirements?: ProjectRequirements,
+  ): StoredProject {
+    const now = new Date().toISOString();
+    const existing = this.projects.get(id);
+    const stored: StoredProject = {
+      id,
+      project,
+      requirements: requirements ?? existing?.requirements,
+      revision: existing ? existing.revision + 1 : 1,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.projects.set(id, stored);
+    this.logger.log(`Stored project ${id} (revision ${stored.revision})`);
+    return stored;
+  }
+
+  get(id: string): StoredProject | undefined {
+    return this.projects.get(id);
+  }
+}
@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { Redis } from 'ioredis';
+import { CodeGenerationRequest } from './interfaces/project.interface';
+import {
+  ResponseCacheService,
+  resolveCacheMode,
+  responseCacheKey,
+} from './response-cache.service';
+
+jest.mock('ioredis', () => ({ Redis: jest.fn() }));
+
+describe('responseCacheKey', () => {
+  const systemPrompt = { template: 'next+fastapi+mongodb', version: 'v1' };
+  const request: CodeGenerationRequest = {
+    prompt: 'A todo app',
+    modelIdentifier: 'openai:gpt-4o',
+    template: 'next+fastapi+mongodb',
+    temperature: 0.2,
+    promptVariables: { styling: 'tailwind', database: 'mongodb' },
+  };
+
+  it('ignores key order and options that do not change the output', () => {
+    const reordered: CodeGenerationRequest = {
+      promptVariables: { database: 'mongodb', styling: 'tailwind' },
+      temperature: 0.2,
+      template: 'next+fastapi+mongodb',
+      modelIdentifier: 'openai:gpt-4o',
+      prompt: 'A todo app',
+      cache: 'prefer',
+      autoFix: true,
+    };
+
+    expect(responseCacheKey(reordered, systemPrompt)).toBe(
+      responseCacheKey(request, systemPrompt),
+    );
+  });
+
+  it('changes with the prompt, model, parameters and prompt version', () => {
+    const key = responseCacheKey(request, systemPrompt);
+    for (const [changed, prompt] of [
+      [{ ...request, prompt: 'A notes app' }, systemPrompt],
+      [{ ...request, modelIdentifier: 'openai:gpt-4o-mini' }, systemPrompt],
+      [{ ...request, seed: 7 }, systemPrompt],
+      [request, { ...systemPrompt, version: 'v2' }],
+    ] as const) {
+      expect(responseCacheKey(changed, prompt)).not.toBe(key);
+    }
+  });
+});
+
+describe('ResponseCacheService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.REDIS_TTL;
+    delete process.env.REDIS_URL;
+    delete process.env.RESPONSE_CACHE_BACKEND;
+  });
+
+  it('returns stored responses until they expire', async () => {
+    process.env.REDIS_TTL = '60';
+    const cache = new ResponseCacheService();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await cache.set('key', { success: true });
+    expect((await cache.get('key'))?.response).toEqual({ success: true });
+    expect(await cache.get('other')).toBeUndefined();
+
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61_000);
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('stores responses in Redis with the TTL and treats its failures as misses', async () => {
+    process.env.RESPONSE_CACHE_BACKEND = 'redis';
+    process.env.REDIS_URL = 'redis://:secret@cache.internal:6380/2';
+    process.env.REDIS_TTL = '60';
+    const client = {
+      get: jest.fn(),
+      set: jest.fn().mockResolvedValue('OK'),
+      on: jest.fn(),
+    };
+    jest.mocked(Redis).mockReturnValue(client as unknown as Redis);
+    const cache = new ResponseCacheService();
+
+    expect(Redis).toHaveBeenCalledWith(
+      'redis://:secret@cache.internal:6380/2',
+      {
+        lazyConnect: true,
+        connectTimeout: 2000,
+        commandTimeout: 2000,
+        maxRetriesPerRequest: 1,
+      },
+    );
+    const stored = await cache.set('key', { success: true });
+    expect(client.set).toHaveBeenCalledWith(
+      'gen-ai-code:response:key',
+      JSON.stringify(stored),
+      'EX',
+      60,
+    );
+
+    client.get.mockResolvedValueOnce(JSON.stringify(stored));
+    expect(await cache.get('key')).toEqual(stored);
+    expect(client.get).toHaveBeenCalledWith('gen-ai-code:response:key');
+    client.get.mockResolvedValueOnce(null);
+    expect(await cache.get('other')).toBeUndefined();
+    client.get.mockRejectedValueOnce(new Error('Command timed out'));
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('rejects unknown cache modes', () => {
+    expect(resolveCacheMode('prefer')).toBe('prefer');
+    expect(() => resolveCacheMode('always')).toThrow(BadRequestException);
+  });
+});
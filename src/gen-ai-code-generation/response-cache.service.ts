@@ -0,0 +1,217 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Redis } from 'ioredis';
+import {
+  CacheMode,
+  CodeGenerationRequest,
+  CodeGenerationResponse,
+} from './interfaces/project.interface';
+
+export const CACHE_MODES: CacheMode[] = ['bypass', 'prefer', 'only'];
+
+export interface CachedResponse {
+  response: CodeGenerationResponse;
+  storedAt: string;
+}
+
+interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
+
+/**
+ * Least recently used entries are dropped beyond maxEntries
+ */
+class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private readonly entries = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return Promise.resolve(undefined);
+    }
+    this.entries.set(key, entry);
+    return Promise.resolve(entry.value);
+  }
+
+  set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Entries live under gen-ai-code:response:<key> and expire after ttlSeconds.
+ * Commands give up after two seconds, so an unreachable Redis turns into
+ * cache misses instead of slow generations.
+ */
+class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+  private readonly client: Redis;
+
+  constructor(url: string, logger: Logger) {
+    this.client = new Redis(url, {
+      lazyConnect: true,
+      connectTimeout: 2000,
+      commandTimeout: 2000,
+      maxRetriesPerRequest: 1,
+    });
+    // Failed commands are logged by the cache service, this keeps ioredis
+    // from reporting every reconnect attempt as an unhandled error
+    this.client.on('error', (error: Error) =>
+      logger.debug(`Redis connection error: ${error.message}`),
+    );
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    return (await this.client.get(`gen-ai-code:response:${key}`)) ?? undefined;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.client.set(
+      `gen-ai-code:response:${key}`,
+      value,
+      'EX',
+      ttlSeconds,
+    );
+  }
+}
+
+/** JSON with object keys sorted, so equal requests serialize identically */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Content address of a generation request: everything that changes the
+ * output, with the system prompt version resolved so "latest" is pinned
+ */
+export function responseCacheKey(
+  request: CodeGenerationRequest,
+  systemPrompt: { template: string; version: string },
+): string {
+  const material = {
+    prompt: request.prompt,
+    template: request.template,
+    modelIdentifier: request.modelIdentifier,
+    fallbackModels: request.fallbackModels,
+    generationMode: request.generationMode,
+    systemPrompt,
+    promptVariables: request.promptVariables,
+    parameters: {
+      temperature: request.temperature,
+      topP: request.topP,
+      maxTokens: request.maxTokens,
+      seed: request.seed,
+      stopSequences: request.stopSequences,
+    },
+    clarification: request.clarification,
+    requirements: request.requirements,
+    openApiSpec: request.openApiSpec,
+    images: request.images?.map((image) =>
+      createHash('sha256').update(image.data).digest('hex'),
+    ),
+  };
+  return createHash('sha256').update(canonicalJson(material)).digest('hex');
+}
+
+/**
+ * Cache mode of a request, defaulting to RESPONSE_CACHE_MODE (bypass)
+ */
+export function resolveCacheMode(requested?: string): CacheMode {
+  const mode = requested ?? process.env.RESPONSE_CACHE_MODE ?? 'bypass';
+  if (!CACHE_MODES.includes(mode as CacheMode)) {
+    throw new BadRequestException(
+      `cache must be one of ${CACHE_MODES.join(', ')}, got "${mode}"`,
+    );
+  }
+  return mode as CacheMode;
+}
+
+/**
+ * Successful generation responses by content address, kept in memory or in
+ * Redis (RESPONSE_CACHE_BACKEND=redis with REDIS_URL) for REDIS_TTL seconds.
+ * Backend failures are logged and treated as misses.
+ */
+@Injectable()
+export class ResponseCacheService {
+  private readonly logger = new Logger(ResponseCacheService.name);
+  private readonly backend: CacheBackend;
+  private readonly ttlSeconds = Number(process.env.REDIS_TTL) || 3600;
+
+  constructor() {
+    const redisUrl = process.env.REDIS_URL;
+    if (process.env.RESPONSE_CACHE_BACKEND === 'redis' && redisUrl) {
+      this.backend = new RedisCacheBackend(redisUrl, this.logger);
+    } else {
+      if (process.env.RESPONSE_CACHE_BACKEND === 'redis') {
+        this.logger.warn(
+          'RESPONSE_CACHE_BACKEND=redis but REDIS_URL is not set, caching in memory',
+        );
+      }
+      this.backend = new MemoryCacheBackend(
+        Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || 50,
+      );
+    }
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      const value = await this.backend.get(key);
+      return value ? (JSON.parse(value) as CachedResponse) : undefined;
+    } catch (error) {
+      this.logger.warn(
+        `Reading ${key} from the ${this.backend.name} cache failed: ${(error as Error).message}`,
+      );
+      return undefined;
+    }
+  }
+
+  async set(
+    key: string,
+    response: CodeGenerationResponse,
+  ): Promise<CachedResponse> {
+    const entry: CachedResponse = {
+      response,
+      storedAt: new Date().toISOString(),
+    };
+    try {
+      await this.backend.set(key, JSON.stringify(entry), this.ttlSeconds);
+      this.logger.log(
+        `Cached response ${key} in ${this.backend.name} for ${this.ttlSeconds}s`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Writing ${key} to the ${this.backend.name} cache failed: ${(error as Error).message}`,
+      );
+    }
+    return entry;
+  }
+}
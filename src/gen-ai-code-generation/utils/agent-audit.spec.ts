@@ -0,0 +1,44 @@
+import { createAgentRun, getAgentRun, listAgentRuns } from './agent-audit';
+
+describe('agent-audit', () => {
+  const auditLimit = process.env.AGENT_AUDIT_LIMIT;
+
+  afterAll(() => {
+    if (auditLimit === undefined) {
+      delete process.env.AGENT_AUDIT_LIMIT;
+    } else {
+      process.env.AGENT_AUDIT_LIMIT = auditLimit;
+    }
+  });
+
+  it('lists the most recent runs first and drops the oldest beyond the limit', () => {
+    process.env.AGENT_AUDIT_LIMIT = '2';
+    const [first, second, third] = ['A todo app', 'A blog', 'A chat'].map(
+      (prompt) =>
+        createAgentRun({ prompt, modelIdentifier: 'mock:auto', maxSteps: 5 }),
+    );
+    third.toolCalls.push({
+      step: 1,
+      toolCallId: 'call-1',
+      toolName: 'writeFile',
+      args: { path: '/home/backend/main.py' },
+      startedAt: new Date(),
+    });
+
+    expect(third).toMatchObject({
+      prompt: 'A chat',
+      status: 'running',
+      steps: 0,
+      maxSteps: 5,
+    });
+    expect(getAgentRun(first.runId)).toBeUndefined();
+    expect(getAgentRun(third.runId)).toBe(third);
+    expect(
+      listAgentRuns().map(({ runId, toolCallCount }) => [runId, toolCallCount]),
+    ).toEqual([
+      [third.runId, 1],
+      [second.runId, 0],
+    ]);
+    expect(listAgentRuns()[0]).not.toHaveProperty('toolCalls');
+  });
+});
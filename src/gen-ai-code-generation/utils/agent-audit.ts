@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import { GenerationUsage } from '../interfaces/project.interface';
+
+/**
+ * One tool call made by the agent, with its result
+ */
+export interface AgentToolCallRecord {
+  step: number;
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+  result?: unknown;
+  startedAt: Date;
+  durationMs?: number;
+}
+
+export interface AgentRun {
+  runId: string;
+  prompt: string;
+  modelIdentifier: string;
+  status: 'running' | 'completed' | 'failed' | 'aborted';
+  startedAt: Date;
+  finishedAt?: Date;
+  maxSteps: number;
+  steps: number;
+  toolCalls: AgentToolCallRecord[];
+  /** Final health check of the app the agent built */
+  healthy?: boolean;
+  /** The agent's closing message */
+  summary?: string;
+  usage?: GenerationUsage;
+  error?: string;
+}
+
+const runs = new Map<string, AgentRun>();
+
+/**
+ * Start an audit record, dropping the oldest runs beyond AGENT_AUDIT_LIMIT
+ * (default 100)
+ */
+export function createAgentRun(entry: {
+  prompt: string;
+  modelIdentifier: string;
+  maxSteps: number;
+}): AgentRun {
+  const run: AgentRun = {
+    runId: randomUUID(),
+    ...entry,
+    status: 'running',
+    startedAt: new Date(),
+    steps: 0,
+    toolCalls: [],
+  };
+  runs.set(run.runId, run);
+
+  const limit = Number(process.env.AGENT_AUDIT_LIMIT) || 100;
+  for (const runId of runs.keys()) {
+    if (runs.size <= limit) {
+      break;
+    }
+    runs.delete(runId);
+  }
+  return run;
+}
+
+export function getAgentRun(runId: string): AgentRun | undefined {
+  return runs.get(runId);
+}
+
+/**
+ * Most recent runs first, without their tool calls
+ */
+export function listAgentRuns(): (Omit<AgentRun, 'toolCalls'> & {
+  toolCallCount: number;
+})[] {
+  return [...runs.values()].reverse().map(({ toolCalls, ...run }) => ({
+    ...run,
+    toolCallCount: toolCalls.length,
+  }));
+}
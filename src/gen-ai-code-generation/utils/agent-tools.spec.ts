@@ -0,0 +1,138 @@
+import { SandboxService } from '../../sandbox/sandbox.service';
+import {
+  createSandboxTools,
+  fetchInSandbox,
+  resolveWorkspacePath,
+} from './agent-tools';
+
+function fakeSandbox() {
+  return {
+    writeFile: jest.fn().mockResolvedValue(undefined),
+    createDirectory: jest.fn().mockResolvedValue(undefined),
+    readFile: jest.fn(),
+    listFiles: jest.fn(),
+    runCommand: jest.fn(),
+  };
+}
+
+const options = { toolCallId: 'call-1', messages: [] };
+const limits = { commandTimeoutMs: 30000, maxOutputChars: 10 };
+
+describe('resolveWorkspacePath', () => {
+  it('resolves relative paths inside the workspace', () => {
+    expect(resolveWorkspacePath('backend/main.py')).toBe(
+      '/home/backend/main.py',
+    );
+    expect(resolveWorkspacePath('/home/frontend/./app/page.tsx')).toBe(
+      '/home/frontend/app/page.tsx',
+    );
+  });
+
+  it('rejects paths that escape the workspace', () => {
+    expect(() => resolveWorkspacePath('/etc/passwd')).toThrow('outside /home');
+    expect(() => resolveWorkspacePath('../root/.ssh/id_rsa')).toThrow(
+      'outside /home',
+    );
+    expect(() => resolveWorkspacePath('/homework')).toThrow('outside /home');
+  });
+});
+
+describe('createSandboxTools', () => {
+  it('keeps the end of long output and caps command timeouts', async () => {
+    const sandbox = fakeSandbox();
+    const tools = createSandboxTools(
+      sandbox as unknown as SandboxService,
+      limits,
+    );
+    sandbox.readFile.mockResolvedValue('0123456789ABCDEF');
+    sandbox.runCommand.mockResolvedValue({
+      exitCode: 1,
+      stdout: 'ok',
+      stderr: 'Traceback...\nNameError: x',
+    });
+
+    expect(
+      await tools.readFile.execute({ path: 'backend/main.py' }, options),
+    ).toEqual({
+      path: '/home/backend/main.py',
+      content: '[...6 characters cut]\n6789ABCDEF',
+    });
+    expect(
+      await tools.runCommand.execute(
+        { command: 'pytest', workDir: '/home/backend', timeoutMs: 600000 },
+        options,
+      ),
+    ).toEqual({
+      exitCode: 1,
+      stdout: 'ok',
+      stderr: '[...15 characters cut]\nmeError: x',
+    });
+    expect(sandbox.runCommand).toHaveBeenCalledWith(
+      'pytest',
+      '/home/backend',
+      30000,
+    );
+  });
+
+  it('returns failures to the model instead of throwing', async () => {
+    const sandbox = fakeSandbox();
+    const tools = createSandboxTools(
+      sandbox as unknown as SandboxService,
+      limits,
+    );
+    sandbox.listFiles.mockResolvedValue([
+      { name: 'main.py', type: 'file', path: '/home/backend/main.py' },
+    ]);
+
+    expect(await tools.listFiles.execute({ path: 'backend' }, options)).toEqual(
+      { entries: [{ name: 'main.py', type: 'file' }] },
+    );
+    expect(
+      await tools.writeFile.execute(
+        { path: '/etc/hosts', content: '127.0.0.1 evil' },
+        options,
+      ),
+    ).toEqual({ error: 'Path "/etc/hosts" is outside /home' });
+    expect(sandbox.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('fetchInSandbox', () => {
+  it('reads the status from the last line and sends bodies from a file', async () => {
+    const sandbox = fakeSandbox();
+    sandbox.runCommand.mockResolvedValue({
+      exitCode: 0,
+      stdout: '{"id": 1,\n"title": "Buy milk"}\n201',
+      stderr: '',
+    });
+
+    expect(
+      await fetchInSandbox(
+        sandbox as unknown as SandboxService,
+        { port: 8000, path: '/todos', method: 'POST', body: '{"title":"x"}' },
+        { ...limits, maxOutputChars: 100 },
+      ),
+    ).toEqual({ status: 201, body: '{"id": 1,\n"title": "Buy milk"}' });
+    expect(sandbox.writeFile).toHaveBeenCalledWith(
+      '/tmp/agent-fetch-body',
+      '{"title":"x"}',
+    );
+    expect(sandbox.runCommand).toHaveBeenCalledWith(
+      `curl -s -X POST -H 'Content-Type: application/json' --data-binary @/tmp/agent-fetch-body --max-time 15 -w '\\n%{http_code}' 'http://127.0.0.1:8000/todos'`,
+      '/tmp',
+      20000,
+    );
+
+    // curl prints 000 when nothing answers
+    sandbox.runCommand.mockResolvedValue({
+      exitCode: 7,
+      stdout: '\n000',
+      stderr: '',
+    });
+    expect(
+      await fetchInSandbox(sandbox as unknown as SandboxService, {
+        port: 3000,
+      }),
+    ).toEqual({ status: 0, body: '' });
+  });
+});
@@ -0,0 +1,232 @@
+import { tool } from 'ai';
+import * as path from 'path';
+import { z } from 'zod';
+import {
+  SandboxService,
+  ServiceStartError,
+} from '../../sandbox/sandbox.service';
+
+/** The agent may only touch files below this directory */
+export const AGENT_WORKSPACE = '/home';
+
+export interface AgentToolLimits {
+  /** Upper bound for runCommand, whatever the model asks for */
+  commandTimeoutMs: number;
+  /** Tool output beyond this is cut, keeping the end (where errors are) */
+  maxOutputChars: number;
+}
+
+export function getAgentToolLimits(): AgentToolLimits {
+  return {
+    commandTimeoutMs: Number(process.env.AGENT_COMMAND_TIMEOUT_MS) || 120000,
+    maxOutputChars: Number(process.env.AGENT_MAX_TOOL_OUTPUT) || 8000,
+  };
+}
+
+/**
+ * Resolve a path against the workspace and reject anything outside it
+ */
+export function resolveWorkspacePath(requested: string): string {
+  const resolved = path.posix.resolve(AGENT_WORKSPACE, requested);
+  if (
+    resolved !== AGENT_WORKSPACE &&
+    !resolved.startsWith(`${AGENT_WORKSPACE}/`)
+  ) {
+    throw new Error(`Path "${requested}" is outside ${AGENT_WORKSPACE}`);
+  }
+  return resolved;
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (!text || text.length <= maxChars) {
+    return text ?? '';
+  }
+  return `[...${text.length - maxChars} characters cut]\n${text.slice(-maxChars)}`;
+}
+
+/**
+ * Tool failures are returned to the model instead of thrown, so it can react
+ */
+async function safely<T>(
+  run: () => Promise<T>,
+): Promise<T | { error: string }> {
+  try {
+    return await run();
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+}
+
+/**
+ * AI SDK tools that act on the E2B sandbox
+ */
+export function createSandboxTools(
+  sandbox: SandboxService,
+  limits: AgentToolLimits = getAgentToolLimits(),
+) {
+  return {
+    writeFile: tool({
+      description:
+        'Create or overwrite a file with the complete contents; parent directories are created',
+      parameters: z.object({
+        path: z
+          .string()
+          .describe('Absolute path below /home, e.g. /home/backend/main.py'),
+        content: z.string(),
+      }),
+      execute: ({ path: filePath, content }) =>
+        safely(async () => {
+          const target = resolveWorkspacePath(filePath);
+          await sandbox.createDirectory(path.posix.dirname(target));
+          await sandbox.writeFile(target, content);
+          return { path: target, bytes: Buffer.byteLength(content) };
+        }),
+    }),
+
+    readFile: tool({
+      description: 'Read a file',
+      parameters: z.object({ path: z.string() }),
+      execute: ({ path: filePath }) =>
+        safely(async () => {
+          const target = resolveWorkspacePath(filePath);
+          const content = await sandbox.readFile(target);
+          return {
+            path: target,
+            content: truncate(content, limits.maxOutputChars),
+          };
+        }),
+    }),
+
+    listFiles: tool({
+      description: 'List the entries of a directory',
+      parameters: z.object({ path: z.string().default(AGENT_WORKSPACE) }),
+      execute: ({ path: dirPath }) =>
+        safely(async () => {
+          const entries = await sandbox.listFiles(
+            resolveWorkspacePath(dirPath),
+          );
+          return {
+            entries: entries.map((entry) => ({
+              name: entry.name,
+              type: entry.type,
+            })),
+          };
+        }),
+    }),
+
+    runCommand: tool({
+      description: `Run a shell command and wait for it to exit (at most ${limits.commandTimeoutMs / 1000}s). Use startService for servers.`,
+      parameters: z.object({
+        command: z.string(),
+        workDir: z.string().default(AGENT_WORKSPACE),
+        timeoutMs: z.number().int().positive().optional(),
+      }),
+      execute: ({ command, workDir, timeoutMs }) =>
+        safely(async () => {
+          const result = await sandbox.runCommand(
+            command,
+            resolveWorkspacePath(workDir),
+            Math.min(
+              timeoutMs ?? limits.commandTimeoutMs,
+              limits.commandTimeoutMs,
+            ),
+          );
+          return {
+            exitCode: result.exitCode,
+            stdout: truncate(result.stdout, limits.maxOutputChars),
+            stderr: truncate(result.stderr, limits.maxOutputChars),
+          };
+        }),
+    }),
+
+    startService: tool({
+      description:
+        'Start a long-running server in the background and wait until it answers HTTP on the port',
+      parameters: z.object({
+        command: z
+          .string()
+          .describe(
+            'e.g. "python3 -m uvicorn main:app --host 0.0.0.0 --port 8000"',
+          ),
+        port: z.number().int().min(1).max(65535),
+        workDir: z.string().default(AGENT_WORKSPACE),
+      }),
+      execute: ({ command, port, workDir }) =>
+        safely(async () => {
+          try {
+            const service = await sandbox.startService(
+              command,
+              port,
+              resolveWorkspacePath(workDir),
+            );
+            return { url: service.url };
+          } catch (error) {
+            if (error instanceof ServiceStartError) {
+              return {
+                error: error.message,
+                output: truncate(error.output, limits.maxOutputChars),
+              };
+            }
+            throw error;
+          }
+        }),
+    }),
+
+    fetch: tool({
+      description:
+        'Send an HTTP request to a service running in the sandbox, e.g. to check /health',
+      parameters: z.object({
+        port: z.number().int().min(1).max(65535),
+        path: z
+          .string()
+          .regex(
+            /^\/[^\s'"\\]*$/,
+            'Path must start with / and contain no quotes or spaces',
+          )
+          .default('/'),
+        method: z
+          .enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+          .default('GET'),
+        body: z.string().optional().describe('JSON request body'),
+      }),
+      execute: (request) =>
+        safely(() => fetchInSandbox(sandbox, request, limits)),
+    }),
+  };
+}
+
+/**
+ * HTTP request from inside the sandbox with curl; the status code is written
+ * on the last line of stdout
+ */
+export async function fetchInSandbox(
+  sandbox: SandboxService,
+  {
+    port,
+    path: requestPath = '/',
+    method = 'GET',
+    body,
+  }: { port: number; path?: string; method?: string; body?: string },
+  limits: AgentToolLimits = getAgentToolLimits(),
+): Promise<{ status: number; body: string }> {
+  const bodyFile = '/tmp/agent-fetch-body';
+  if (body !== undefined) {
+    await sandbox.writeFile(bodyFile, body);
+  }
+  const data =
+    body !== undefined
+      ? ` -H 'Content-Type: application/json' --data-binary @${bodyFile}`
+      : '';
+  const result = await sandbox.runCommand(
+    `curl -s -X ${method}${data} --max-time 15 -w '\\n%{http_code}' 'http://127.0.0.1:${port}${requestPath}'`,
+    '/tmp',
+    20000,
+  );
+
+  const lines = result.stdout.split('\n');
+  const status = Number(lines.pop()) || 0;
+  return {
+    status,
+    body: truncate(lines.join('\n'), limits.maxOutputChars),
+  };
+}
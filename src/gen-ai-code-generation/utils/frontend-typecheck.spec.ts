@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FullStackProject } from '../interfaces/project.interface';
+import { typeCheckFrontend } from './frontend-typecheck';
+
+function projectWithFrontend(files: Record<string, string>): FullStackProject {
+  return {
+    code: {
+      frontend: {
+        framework: 'next',
+        files: Object.fromEntries(
+          Object.entries(files).map(([path, code]) => [
+            path,
+            { purpose: '', code },
+          ]),
+        ),
+        dependencies: {},
+      },
+    },
+  } as unknown as FullStackProject;
+}
+
+describe('typeCheckFrontend', () => {
+  it('accepts a generated Next.js frontend', () => {
+    const project = JSON.parse(
+      fs.readFileSync(
+        path.join(
+          __dirname,
+          '../../../generated-code/2025-08-21T06-31-53-388Z-parsed-project.json',
+        ),
+        'utf8',
+      ),
+    ) as FullStackProject;
+
+    expect(typeCheckFrontend(project)).toEqual([]);
+  });
+
+  it('accepts typed React and Next.js code against the stubs', () => {
+    const project = projectWithFrontend({
+      '/app/page.tsx': [
+        `'use client';`,
+        `import { useState, FormEvent } from 'react';`,
+        `import Link from 'next/link';`,
+        `import { useRouter } from 'next/navigation';`,
+        `import TodoItem from '@/components/TodoItem';`,
+        `import './globals.css';`,
+        `interface Todo { id: string; title: string }`,
+        `export default function Page() {`,
+        `  const [todos, setTodos] = useState<Todo[]>([]);`,
+        `  const router = useRouter();`,
+        `  const submit = (event: FormEvent<HTMLFormElement>) => {`,
+        `    event.preventDefault();`,
+        `    setTodos([...todos, { id: '1', title: event.target.title.value }]);`,
+        `    router.push('/done');`,
+        `  };`,
+        `  return (`,
+        `    <form onSubmit={submit}>`,
+        `      {todos.map((todo) => <TodoItem key={todo.id} todo={todo} />)}`,
+        `      <Link href="/about">About</Link>`,
+        `    </form>`,
+        `  );`,
+        `}`,
+      ].join('\n'),
+      '/app/globals.css': 'body { margin: 0; }',
+      '/components/TodoItem.tsx': [
+        `import React from 'react';`,
+        `const TodoItem: React.FC<{ todo: { title: string } }> = ({ todo }) => (`,
+        `  <li>{todo.title}</li>`,
+        `);`,
+        `export default TodoItem;`,
+      ].join('\n'),
+    });
+
+    expect(typeCheckFrontend(project)).toEqual([]);
+  });
+
+  it('reports syntax errors, unknown names and missing files by line', () => {
+    const project = projectWithFrontend({
+      '/app/page.tsx': [
+        `import Header from '../components/Header';`,
+        `export default function Page() {`,
+        `  const count: number = 'many';`,
+        `  return <main><Header />{todos.length}{count}</main>;`,
+        `}`,
+      ].join('\n'),
+      '/app/layout.tsx': [
+        `export default function RootLayout({ children }) {`,
+        `  return <html><body>{children}</body></html`,
+        `}`,
+      ].join('\n'),
+    });
+
+    expect(
+      typeCheckFrontend(project).map(
+        ({ severity, file, line, message }) =>
+          `${severity} ${file}:${line} ${message.split(':')[0]}`,
+      ),
+    ).toEqual([
+      'warning /app/page.tsx:3 TS2322',
+      'error /app/page.tsx:4 TS2304',
+      'error /app/page.tsx:1 TS2307',
+      'error /app/layout.tsx:3 TS1005',
+    ]);
+  });
+});
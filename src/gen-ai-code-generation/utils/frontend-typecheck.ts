@@ -0,0 +1,346 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import {
+  FullStackProject,
+  ProjectDiagnostic,
+} from '../interfaces/project.interface';
+
+const SOURCE_EXTENSIONS = /\.(tsx?|jsx?|mjs)$/;
+const STUBS_FILE = '/__stubs__.d.ts';
+const LIB_DIRECTORY = path.dirname(ts.getDefaultLibFilePath({}));
+
+/** Semantic errors that break the page whatever the real types are */
+const RUNTIME_ERROR_CODES = [
+  2304, // Cannot find name
+  2307, // Cannot find module
+  2552, // Cannot find name, did you mean
+];
+
+/**
+ * Declarations standing in for react, react-dom and next, which are not
+ * installed here. Loose enough that correct code type-checks, typed enough
+ * that generic calls like useState<Todo[]>() are accepted.
+ */
+const STUB_DECLARATIONS = `
+declare namespace React {
+  type Key = string | number;
+  interface ReactElement<P = any> { type: any; props: P; key: Key | null }
+  type ReactNode = ReactElement | string | number | bigint | boolean | null | undefined | Iterable<ReactNode> | Promise<ReactNode>;
+  type PropsWithChildren<P = unknown> = P & { children?: ReactNode };
+  type FC<P = {}> = (props: PropsWithChildren<P>) => ReactNode;
+  type FunctionComponent<P = {}> = FC<P>;
+  type ComponentType<P = {}> = FC<P> | (new (props: P) => Component<P, any>);
+  type ComponentProps<T> = T extends (props: infer P) => any ? P : any;
+  type ElementType = string | ComponentType<any>;
+  type CSSProperties = { [property: string]: string | number | undefined };
+  type HTMLAttributes<T = any> = { [attribute: string]: any };
+  type InputHTMLAttributes<T = any> = HTMLAttributes<T>;
+  type ButtonHTMLAttributes<T = any> = HTMLAttributes<T>;
+  type SetStateAction<S> = S | ((previous: S) => S);
+  type Dispatch<A> = (value: A) => void;
+  type DependencyList = readonly unknown[];
+  interface MutableRefObject<T> { current: T }
+  interface RefObject<T> { readonly current: T | null }
+  type Ref<T> = RefObject<T> | ((instance: T | null) => void) | null;
+  interface Context<T> { Provider: FC<{ value: T; children?: ReactNode }>; Consumer: FC<{ children: (value: T) => ReactNode }> }
+  interface SyntheticEvent<T = Element> { target: any; currentTarget: T; preventDefault(): void; stopPropagation(): void; [key: string]: any }
+  type ChangeEvent<T = Element> = SyntheticEvent<T>;
+  type FormEvent<T = Element> = SyntheticEvent<T>;
+  type MouseEvent<T = Element> = SyntheticEvent<T>;
+  type KeyboardEvent<T = Element> = SyntheticEvent<T>;
+  type FocusEvent<T = Element> = SyntheticEvent<T>;
+  type DragEvent<T = Element> = SyntheticEvent<T>;
+  type ChangeEventHandler<T = Element> = (event: ChangeEvent<T>) => void;
+  type FormEventHandler<T = Element> = (event: FormEvent<T>) => void;
+  type MouseEventHandler<T = Element> = (event: MouseEvent<T>) => void;
+  type KeyboardEventHandler<T = Element> = (event: KeyboardEvent<T>) => void;
+  class Component<P = {}, S = {}> {
+    constructor(props: P);
+    props: Readonly<PropsWithChildren<P>>;
+    state: Readonly<S>;
+    setState(state: Partial<S> | ((previous: S, props: P) => Partial<S>)): void;
+    render(): ReactNode;
+  }
+  class PureComponent<P = {}, S = {}> extends Component<P, S> {}
+  const Fragment: FC<{ children?: ReactNode }>;
+  const StrictMode: FC<{ children?: ReactNode }>;
+  const Suspense: FC<{ fallback?: ReactNode; children?: ReactNode }>;
+  function useState<S>(initial: S | (() => S)): [S, Dispatch<SetStateAction<S>>];
+  function useState<S = undefined>(): [S | undefined, Dispatch<SetStateAction<S | undefined>>];
+  function useEffect(effect: () => void | (() => void), deps?: DependencyList): void;
+  function useLayoutEffect(effect: () => void | (() => void), deps?: DependencyList): void;
+  function useRef<T>(initial: T): MutableRefObject<T>;
+  function useRef<T>(initial: T | null): RefObject<T>;
+  function useRef<T = undefined>(): MutableRefObject<T | undefined>;
+  function useMemo<T>(factory: () => T, deps: DependencyList): T;
+  function useCallback<T extends Function>(callback: T, deps: DependencyList): T;
+  function useContext<T>(context: Context<T>): T;
+  function useReducer<S, A>(reducer: (state: S, action: A) => S, initial: S, init?: (initial: any) => S): [S, Dispatch<A>];
+  function useId(): string;
+  function useTransition(): [boolean, (callback: () => void) => void];
+  function createContext<T>(defaultValue: T): Context<T>;
+  function forwardRef<T, P = {}>(render: (props: P, ref: Ref<T>) => ReactNode): FC<P & { ref?: Ref<T> }>;
+  function memo<P>(component: FC<P>): FC<P>;
+  function lazy<P>(factory: () => Promise<{ default: FC<P> }>): FC<P>;
+  function createElement(type: any, props?: any, ...children: ReactNode[]): ReactElement;
+  function cloneElement(element: ReactElement, props?: any, ...children: ReactNode[]): ReactElement;
+  function isValidElement(value: any): value is ReactElement;
+  const Children: { map(children: ReactNode, fn: (child: any, index: number) => any): any[]; count(children: ReactNode): number; toArray(children: ReactNode): any[]; only(children: ReactNode): ReactElement };
+}
+
+declare namespace JSX {
+  type Element = React.ReactElement;
+  type ElementType = string | ((props: any) => React.ReactNode | Promise<React.ReactNode>) | (new (props: any) => any);
+  interface ElementClass { render(): React.ReactNode }
+  interface ElementAttributesProperty { props: {} }
+  interface ElementChildrenAttribute { children: {} }
+  interface IntrinsicAttributes { key?: React.Key }
+  interface IntrinsicElements { [elementName: string]: any }
+}
+
+declare var process: { env: { [name: string]: string | undefined } };
+
+declare module 'react' {
+  export = React;
+}
+declare module 'react-dom' {
+  export function render(element: React.ReactNode, container: Element | null): void;
+  export function createPortal(children: React.ReactNode, container: Element): React.ReactElement;
+}
+declare module 'react-dom/client' {
+  export function createRoot(container: Element | null): { render(element: React.ReactNode): void; unmount(): void };
+  export function hydrateRoot(container: Element | null, element: React.ReactNode): { unmount(): void };
+}
+declare module 'next' {
+  export type Metadata = { [field: string]: any };
+  export type Viewport = { [field: string]: any };
+  export type NextPage<P = {}> = React.FC<P>;
+}
+declare module 'next/link' {
+  const Link: React.FC<{ href: any; [attribute: string]: any }>;
+  export default Link;
+}
+declare module 'next/image' {
+  const Image: React.FC<{ src: any; alt: string; [attribute: string]: any }>;
+  export default Image;
+}
+declare module 'next/navigation' {
+  export function useRouter(): { push(href: string): void; replace(href: string): void; back(): void; forward(): void; refresh(): void; prefetch(href: string): void };
+  export function usePathname(): string;
+  export function useSearchParams(): URLSearchParams;
+  export function useParams<T = { [param: string]: string }>(): T;
+  export function redirect(url: string): never;
+  export function notFound(): never;
+}
+declare module 'next/font/google' {
+  type FontLoader = (options?: any) => { className: string; variable: string; style: { fontFamily: string } };
+  export const Inter: FontLoader, Roboto: FontLoader, Geist: FontLoader, Geist_Mono: FontLoader;
+  export const Poppins: FontLoader, Open_Sans: FontLoader, Montserrat: FontLoader, Lato: FontLoader;
+  export const Nunito: FontLoader, Raleway: FontLoader, Playfair_Display: FontLoader, Merriweather: FontLoader;
+  export const Noto_Sans: FontLoader, Work_Sans: FontLoader, DM_Sans: FontLoader, Manrope: FontLoader;
+  export const Outfit: FontLoader, Roboto_Mono: FontLoader, JetBrains_Mono: FontLoader, Source_Sans_3: FontLoader;
+}
+declare module '*.css' {
+  const classes: { [className: string]: string };
+  export default classes;
+}
+declare module '*';
+`;
+
+/** Parsed TypeScript lib files, shared by every check */
+const libFiles = new Map<string, ts.SourceFile>();
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts', 'lib.dom.iterable.d.ts'],
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.Preserve,
+  allowJs: true,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  skipLibCheck: true,
+  noEmit: true,
+  types: [],
+  // The alias create-next-app configures
+  baseUrl: '/',
+  paths: { '@/*': ['./*', './src/*'] },
+};
+
+function createHost(files: Map<string, string>): ts.CompilerHost {
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  const readFile = (fileName: string) =>
+    files.get(fileName) ??
+    (fileName.startsWith(LIB_DIRECTORY)
+      ? ts.sys.readFile(fileName)
+      : undefined);
+
+  return {
+    ...host,
+    getCurrentDirectory: () => '/',
+    fileExists: (fileName) => readFile(fileName) !== undefined,
+    readFile,
+    directoryExists: (directory) =>
+      directory.startsWith(LIB_DIRECTORY) ||
+      [...files.keys()].some((fileName) =>
+        fileName.startsWith(directory.replace(/\/?$/, '/')),
+      ),
+    getDirectories: () => [],
+    realpath: (fileName) => fileName,
+    getSourceFile: (fileName, languageVersion) => {
+      const cached = libFiles.get(fileName);
+      if (cached) {
+        return cached;
+      }
+      const text = readFile(fileName);
+      if (text === undefined) {
+        return undefined;
+      }
+      const sourceFile = ts.createSourceFile(fileName, text, languageVersion);
+      if (!files.has(fileName)) {
+        libFiles.set(fileName, sourceFile);
+      }
+      return sourceFile;
+    },
+    writeFile: () => undefined,
+  };
+}
+
+/**
+ * Relative and @/ imports must point at a file of the project; other
+ * modules fall back to the stubs
+ */
+function findUnresolvedImports(
+  program: ts.Program,
+  host: ts.CompilerHost,
+  sourceFile: ts.SourceFile,
+  files: Map<string, string>,
+): ts.Diagnostic[] {
+  const diagnostics: ts.Diagnostic[] = [];
+  for (const statement of sourceFile.statements) {
+    if (
+      !(
+        ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)
+      ) ||
+      !statement.moduleSpecifier ||
+      !ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      continue;
+    }
+    const specifier = statement.moduleSpecifier.text;
+    if (!/^(\.{1,2}\/|@\/)/.test(specifier)) {
+      continue;
+    }
+    const resolved = ts.resolveModuleName(
+      specifier,
+      sourceFile.fileName,
+      program.getCompilerOptions(),
+      host,
+    ).resolvedModule;
+    const asset = specifier.startsWith('@/')
+      ? [`/${specifier.slice(2)}`, `/src/${specifier.slice(2)}`]
+      : [
+          path.posix.resolve(
+            path.posix.dirname(sourceFile.fileName),
+            specifier,
+          ),
+        ];
+    if (resolved || asset.some((fileName) => files.has(fileName))) {
+      continue;
+    }
+    diagnostics.push({
+      category: ts.DiagnosticCategory.Error,
+      code: 2307,
+      file: sourceFile,
+      start: statement.moduleSpecifier.getStart(sourceFile),
+      length: statement.moduleSpecifier.getWidth(sourceFile),
+      messageText: `Cannot find module '${specifier}' in the generated files.`,
+    });
+  }
+  return diagnostics;
+}
+
+function toProjectDiagnostic(
+  diagnostic: ts.Diagnostic,
+  severity: ProjectDiagnostic['severity'],
+  file: string,
+): ProjectDiagnostic {
+  const { line, character } = diagnostic.file!.getLineAndCharacterOfPosition(
+    diagnostic.start ?? 0,
+  );
+  return {
+    severity,
+    code: 'typescript',
+    message: `TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`,
+    path: `code.frontend.files.${file}.code`,
+    file,
+    line: line + 1,
+    column: character + 1,
+  };
+}
+
+/**
+ * Compile the frontend files in memory against stub React and Next.js
+ * declarations. Syntax errors, unknown names and imports of files the
+ * project lacks are errors; other type errors are warnings, since the stubs
+ * only approximate the real types.
+ */
+export function typeCheckFrontend(
+  project: FullStackProject,
+): ProjectDiagnostic[] {
+  const files = new Map<string, string>();
+  // Compiler file names back to the keys of the project
+  const projectPaths = new Map<string, string>();
+  for (const [projectPath, file] of Object.entries(
+    project.code?.frontend?.files ?? {},
+  )) {
+    if (typeof file?.code === 'string') {
+      const fileName = path.posix.resolve('/', projectPath);
+      files.set(fileName, file.code);
+      projectPaths.set(fileName, projectPath);
+    }
+  }
+  const rootNames = [...files.keys()].filter((fileName) =>
+    SOURCE_EXTENSIONS.test(fileName),
+  );
+  if (rootNames.length === 0) {
+    return [];
+  }
+  files.set(STUBS_FILE, STUB_DECLARATIONS);
+
+  const host = createHost(files);
+  const program = ts.createProgram({
+    rootNames: [...rootNames, STUBS_FILE],
+    options: COMPILER_OPTIONS,
+    host,
+  });
+
+  const diagnostics: ProjectDiagnostic[] = [];
+  for (const fileName of rootNames) {
+    const sourceFile = program.getSourceFile(fileName)!;
+    const file = projectPaths.get(fileName)!;
+    const syntactic = program.getSyntacticDiagnostics(sourceFile);
+    diagnostics.push(
+      ...syntactic.map((diagnostic) =>
+        toProjectDiagnostic(diagnostic, 'error', file),
+      ),
+    );
+    // Type errors in a file that does not parse are mostly noise
+    if (syntactic.length > 0) {
+      continue;
+    }
+    for (const diagnostic of [
+      ...program.getSemanticDiagnostics(sourceFile),
+      ...findUnresolvedImports(program, host, sourceFile, files),
+    ]) {
+      diagnostics.push(
+        toProjectDiagnostic(
+          diagnostic,
+          RUNTIME_ERROR_CODES.includes(diagnostic.code) ? 'error' : 'warning',
+          file,
+        ),
+      );
+    }
+  }
+  return diagnostics;
+}
@@ -0,0 +1,46 @@
+import { BadRequestException } from '@nestjs/common';
+import { resolveGenerationParameters } from './generation-params';
+
+describe('resolveGenerationParameters', () => {
+  const defaults = { temperature: 0.8, maxTokens: 8048 };
+
+  it('uses the defaults and clamps them to the model output limit', () => {
+    const { parameters, adjustments } = resolveGenerationParameters(
+      'openai:gpt-3.5-turbo',
+      {},
+      defaults,
+    );
+
+    expect(parameters).toEqual({ temperature: 0.8, maxTokens: 4096 });
+    expect(adjustments).toEqual(['maxTokens 8048 clamped to 4096']);
+  });
+
+  it('clamps temperature to the provider range and keeps seed and stop sequences', () => {
+    const { parameters } = resolveGenerationParameters(
+      'anthropic:claude-3-5-sonnet-latest',
+      { temperature: 1.5, topP: 0.9, seed: 42, stopSequences: ['END'] },
+      defaults,
+    );
+
+    expect(parameters).toEqual({
+      temperature: 1,
+      topP: 0.9,
+      maxTokens: 8048,
+      seed: 42,
+      stopSequences: ['END'],
+    });
+  });
+
+  it('rejects malformed values', () => {
+    expect(() =>
+      resolveGenerationParameters(
+        'openai:gpt-4o',
+        { temperature: 'hot' as unknown as number },
+        defaults,
+      ),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      resolveGenerationParameters('openai:gpt-4o', { seed: 1.5 }, defaults),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,137 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  EffectiveGenerationParameters,
+  GenerationParameters,
+} from '../interfaces/project.interface';
+import { getCatalogEntry } from './model-catalog';
+import { parseModelIdentifier } from './provider-registry';
+
+export interface ResolvedGenerationParameters {
+  parameters: EffectiveGenerationParameters;
+  /** Human-readable notes for every value that was clamped or dropped */
+  adjustments: string[];
+}
+
+interface ProviderLimits {
+  maxTemperature: number;
+  maxStopSequences: number;
+}
+
+const PROVIDER_LIMITS: Record<string, ProviderLimits> = {
+  openai: { maxTemperature: 2, maxStopSequences: 4 },
+  azure: { maxTemperature: 2, maxStopSequences: 4 },
+  anthropic: { maxTemperature: 1, maxStopSequences: 16 },
+  google: { maxTemperature: 2, maxStopSequences: 5 },
+  openrouter: { maxTemperature: 2, maxStopSequences: 4 },
+};
+
+const DEFAULT_LIMITS: ProviderLimits = {
+  maxTemperature: 2,
+  maxStopSequences: 4,
+};
+
+/**
+ * Accept numbers and numeric strings (query parameters), reject anything else
+ */
+function toNumber(name: string, value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    throw new BadRequestException(`${name} must be a number`);
+  }
+  return parsed;
+}
+
+function toStopSequences(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const sequences = Array.isArray(value) ? value : [value];
+  if (sequences.some((sequence) => typeof sequence !== 'string')) {
+    throw new BadRequestException('stopSequences must be an array of strings');
+  }
+  const nonEmpty = (sequences as string[]).filter(
+    (sequence) => sequence !== '',
+  );
+  return nonEmpty.length > 0 ? nonEmpty : undefined;
+}
+
+function clamp(
+  name: string,
+  value: number,
+  min: number,
+  max: number,
+  adjustments: string[],
+): number {
+  const clamped = Math.min(Math.max(value, min), max);
+  if (clamped !== value) {
+    adjustments.push(`${name} ${value} clamped to ${clamped}`);
+  }
+  return clamped;
+}
+
+/**
+ * Validate requested parameters, fill in the caller's defaults and clamp
+ * everything to what the model accepts. Malformed values are rejected with
+ * a 400; out-of-range values are clamped and reported in adjustments.
+ */
+export function resolveGenerationParameters(
+  modelIdentifier: string,
+  requested: GenerationParameters | undefined,
+  defaults: { temperature: number; maxTokens: number },
+): ResolvedGenerationParameters {
+  const { platform } = parseModelIdentifier(modelIdentifier);
+  const limits = PROVIDER_LIMITS[platform] ?? DEFAULT_LIMITS;
+  const maxOutputTokens = getCatalogEntry(modelIdentifier)?.maxOutputTokens;
+  const adjustments: string[] = [];
+
+  const temperature = clamp(
+    'temperature',
+    toNumber('temperature', requested?.temperature) ?? defaults.temperature,
+    0,
+    limits.maxTemperature,
+    adjustments,
+  );
+
+  const requestedTopP = toNumber('topP', requested?.topP);
+  const topP =
+    requestedTopP === undefined
+      ? undefined
+      : clamp('topP', requestedTopP, 0, 1, adjustments);
+
+  const maxTokens = clamp(
+    'maxTokens',
+    Math.round(
+      toNumber('maxTokens', requested?.maxTokens) ?? defaults.maxTokens,
+    ),
+    1,
+    maxOutputTokens ?? Number.MAX_SAFE_INTEGER,
+    adjustments,
+  );
+
+  const requestedSeed = toNumber('seed', requested?.seed);
+  if (requestedSeed !== undefined && !Number.isInteger(requestedSeed)) {
+    throw new BadRequestException('seed must be an integer');
+  }
+
+  let stopSequences = toStopSequences(requested?.stopSequences);
+  if (stopSequences && stopSequences.length > limits.maxStopSequences) {
+    adjustments.push(
+      `stopSequences truncated to the first ${limits.maxStopSequences} for ${platform}`,
+    );
+    stopSequences = stopSequences.slice(0, limits.maxStopSequences);
+  }
+
+  return {
+    parameters: {
+      temperature,
+      ...(topP !== undefined && { topP }),
+      maxTokens,
+      ...(requestedSeed !== undefined && { seed: requestedSeed }),
+      ...(stopSequences && { stopSequences }),
+    },
+    adjustments,
+  };
+}
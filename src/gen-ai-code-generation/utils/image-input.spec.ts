@@ -0,0 +1,42 @@
+import { BadRequestException } from '@nestjs/common';
+import { normalizeImageAttachments } from './image-input';
+
+describe('normalizeImageAttachments', () => {
+  const png = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+  it('accepts base64, data URLs and uploads and detects the type', () => {
+    const images = normalizeImageAttachments(
+      [
+        { data: png.toString('base64') },
+        { data: `data:image/png;base64,${png.toString('base64')}` },
+      ],
+      [
+        {
+          originalname: 'wireframe.png',
+          mimetype: 'image/png',
+          size: png.length,
+          buffer: png,
+        },
+      ],
+    );
+
+    expect(images.map((image) => image.mimeType)).toEqual([
+      'image/png',
+      'image/png',
+      'image/png',
+    ]);
+    expect(images[0].data).toBe(png.toString('base64'));
+    expect(images[2].name).toBe('wireframe.png');
+  });
+
+  it('rejects data that is not a supported image', () => {
+    expect(() =>
+      normalizeImageAttachments([
+        { data: Buffer.from('<svg/>').toString('base64') },
+      ]),
+    ).toThrow(BadRequestException);
+    expect(() => normalizeImageAttachments([{ data: 'not base64!' }])).toThrow(
+      BadRequestException,
+    );
+  });
+});
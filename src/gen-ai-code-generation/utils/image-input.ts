@@ -0,0 +1,143 @@
+import { BadRequestException } from '@nestjs/common';
+import { ImageAttachment } from '../interfaces/project.interface';
+
+/** File shape produced by multer's memory storage for multipart uploads */
+export interface UploadedImage {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export const SUPPORTED_IMAGE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'image/gif',
+];
+
+export function getImageLimits(): { maxImages: number; maxBytes: number } {
+  return {
+    maxImages: Number(process.env.MAX_IMAGES) || 4,
+    maxBytes: Number(process.env.MAX_IMAGE_BYTES) || 5 * 1024 * 1024,
+  };
+}
+
+/**
+ * Detect the image type from its first bytes
+ */
+function sniffImageType(bytes: Buffer): string | undefined {
+  if (bytes.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex'))) {
+    return 'image/png';
+  }
+  if (bytes.subarray(0, 3).equals(Buffer.from('ffd8ff', 'hex'))) {
+    return 'image/jpeg';
+  }
+  if (bytes.subarray(0, 4).toString('ascii') === 'GIF8') {
+    return 'image/gif';
+  }
+  if (
+    bytes.subarray(0, 4).toString('ascii') === 'RIFF' &&
+    bytes.subarray(8, 12).toString('ascii') === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+function toAttachment(
+  label: string,
+  bytes: Buffer,
+  declaredType: string | undefined,
+  name: string | undefined,
+  maxBytes: number,
+): ImageAttachment {
+  if (bytes.length === 0) {
+    throw new BadRequestException(`${label} is empty or not valid base64`);
+  }
+  if (bytes.length > maxBytes) {
+    throw new BadRequestException(
+      `${label} is ${bytes.length} bytes, the limit is ${maxBytes} (MAX_IMAGE_BYTES)`,
+    );
+  }
+  const mimeType = sniffImageType(bytes);
+  if (!mimeType) {
+    throw new BadRequestException(
+      `${label} is not a supported image (${SUPPORTED_IMAGE_TYPES.join(', ')})${declaredType ? `, got ${declaredType}` : ''}`,
+    );
+  }
+  return {
+    data: bytes.toString('base64'),
+    mimeType,
+    ...(name && { name }),
+  };
+}
+
+/**
+ * Validate base64 attachments from a JSON body and multipart uploads, and
+ * return them as plain base64 with a verified mimeType. Data URLs
+ * ("data:image/png;base64,...") are accepted as well.
+ */
+export function normalizeImageAttachments(
+  images: ImageAttachment[] | undefined,
+  uploads: UploadedImage[] = [],
+): ImageAttachment[] {
+  const { maxImages, maxBytes } = getImageLimits();
+  if (images !== undefined && !Array.isArray(images)) {
+    throw new BadRequestException(
+      'images must be an array of { data, mimeType?, name? }',
+    );
+  }
+
+  const attachments = [
+    ...(images ?? []).map((image, index) => {
+      const label = `images[${index}]`;
+      if (typeof image?.data !== 'string') {
+        throw new BadRequestException(`${label}.data must be a base64 string`);
+      }
+      const dataUrl = image.data.match(/^data:([^;,]+)?;base64,(.*)$/s);
+      const base64 = (dataUrl ? dataUrl[2] : image.data).replace(/\s/g, '');
+      if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+        throw new BadRequestException(`${label}.data is not valid base64`);
+      }
+      return toAttachment(
+        label,
+        Buffer.from(base64, 'base64'),
+        image.mimeType ?? dataUrl?.[1],
+        image.name,
+        maxBytes,
+      );
+    }),
+    ...uploads.map((upload) =>
+      toAttachment(
+        `Upload "${upload.originalname}"`,
+        upload.buffer,
+        upload.mimetype,
+        upload.originalname,
+        maxBytes,
+      ),
+    ),
+  ];
+
+  if (attachments.length > maxImages) {
+    throw new BadRequestException(
+      `At most ${maxImages} images can be attached (MAX_IMAGES)`,
+    );
+  }
+  return attachments;
+}
+
+/**
+ * Instructions added to the prompt when a layout image is attached
+ */
+export function describeImageGuidance(
+  count: number,
+  template?: string,
+): string {
+  const page = template?.startsWith('react') ? '/src/App.js' : '/app/page.tsx';
+  return [
+    `${count === 1 ? 'The attached image shows' : `The ${count} attached images show`} the desired UI (a wireframe, screenshot or sketch).`,
+    `Reproduce its layout in ${page}: the same sections in the same order, navigation, forms, lists and buttons, with the visible labels.`,
+    'Split the page into components that match the visible structure (e.g. header, sidebar, cards, forms) and style them with Tailwind to resemble the image.',
+  ].join('\n');
+}
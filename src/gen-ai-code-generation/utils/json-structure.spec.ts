@@ -0,0 +1,31 @@
+import {
+  analyzeJsonStructure,
+  isTruncatedOutput,
+  stitchContinuation,
+} from './json-structure';
+
+describe('json-structure', () => {
+  it('ignores brackets inside strings when checking completeness', () => {
+    expect(
+      analyzeJsonStructure('{"code": "if (a) { return [1"}').complete,
+    ).toBe(true);
+    expect(analyzeJsonStructure('{"code": "} ]", "files": {').complete).toBe(
+      false,
+    );
+  });
+
+  it('treats a length finish reason or unclosed JSON as truncated', () => {
+    expect(isTruncatedOutput('{"a": 1}', 'length')).toBe(true);
+    expect(isTruncatedOutput('{"a": {"b": "c', 'stop')).toBe(true);
+    expect(isTruncatedOutput('{"a": 1}', 'stop')).toBe(false);
+  });
+
+  it('stitches continuations without repeated text or fences', () => {
+    const previous = '{"projectName": "Todo", "projectDescription": "A to';
+    const continuation = '```json\n"projectDescription": "A todo list"}\n```';
+
+    expect(stitchContinuation(previous, continuation)).toBe(
+      '{"projectName": "Todo", "projectDescription": "A todo list"}',
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * String-aware scan of (possibly incomplete) JSON text
+ */
+export interface JsonStructureState {
+  /** Whether an opening brace or bracket was found at all */
+  started: boolean;
+  /** Open objects/arrays at the end of the text */
+  depth: number;
+  /** Whether the text ends inside a string literal */
+  inString: boolean;
+  /** Whether the first top-level value was closed */
+  complete: boolean;
+}
+
+export function analyzeJsonStructure(text: string): JsonStructureState {
+  const start = text.search(/[{[]/);
+  const state: JsonStructureState = {
+    started: start !== -1,
+    depth: 0,
+    inString: false,
+    complete: false,
+  };
+  if (start === -1) {
+    return state;
+  }
+
+  let escaped = false;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+
+    if (state.inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        state.inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      state.inString = true;
+    } else if (char === '{' || char === '[') {
+      state.depth++;
+    } else if (char === '}' || char === ']') {
+      state.depth--;
+      if (state.depth === 0) {
+        state.complete = true;
+        return state;
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Output was cut off if the model says it hit the token limit or if the
+ * JSON it started was never closed
+ */
+export function isTruncatedOutput(
+  text: string,
+  finishReason?: string,
+): boolean {
+  if (finishReason === 'length') {
+    return true;
+  }
+  const state = analyzeJsonStructure(text);
+  return state.started && !state.complete;
+}
+
+/**
+ * Append a continuation to the text it continues. Models often restart
+ * with a markdown fence or repeat the last few characters before the cut,
+ * so both are dropped.
+ */
+export function stitchContinuation(
+  previous: string,
+  continuation: string,
+): string {
+  let next = continuation.replace(/^\s*```(?:json)?\s*\n/, '');
+  next = next.replace(/\n?```\s*$/, '');
+
+  const maxOverlap = Math.min(next.length, previous.length, 500);
+  for (let length = maxOverlap; length >= 8; length--) {
+    if (previous.endsWith(next.substring(0, length))) {
+      next = next.substring(length);
+      break;
+    }
+  }
+
+  return previous + next;
+}
@@ -0,0 +1,148 @@
+import * as path from 'path';
+import { APICallError } from 'ai';
+import {
+  addTrailingCommas,
+  applyMockScenario,
+  MockFixture,
+  MockLanguageModel,
+  selectFixture,
+} from './mock-model';
+import { parseTolerantJson } from './tolerant-json';
+
+const fixtures: MockFixture[] = [
+  {
+    name: '2025-08-22-ai-raw-response',
+    prompt: 'a blog',
+    text: '{"b":2}',
+    recordedAt: 2,
+  },
+  {
+    name: '2025-08-21-ai-raw-response',
+    prompt: 'a todo app',
+    text: '{"a":1}',
+    recordedAt: 1,
+  },
+  { name: 'parsed-project', text: '{"c":3}', recordedAt: 3 },
+];
+
+describe('selectFixture', () => {
+  it('matches recordings by prompt, recency or file name', () => {
+    expect(
+      selectFixture('auto', 'Create a todo app please', fixtures).name,
+    ).toBe('2025-08-21-ai-raw-response');
+    expect(selectFixture('latest', '', fixtures).name).toBe(
+      '2025-08-22-ai-raw-response',
+    );
+    expect(selectFixture('parsed-project', '', fixtures).text).toBe('{"c":3}');
+    expect(selectFixture('21-ai-raw-response', '', fixtures).prompt).toBe(
+      'a todo app',
+    );
+    expect(() => selectFixture('auto', 'a chess engine', fixtures)).toThrow(
+      /No mock fixture matches "auto".*a chess engine/,
+    );
+  });
+});
+
+describe('applyMockScenario', () => {
+  const project = JSON.stringify({
+    projectName: 'Todo',
+    code: {
+      frontend: { files: { '/app/page.tsx': { purpose: '', code: 'x' } } },
+    },
+  });
+
+  it('scripts malformed output from the recorded text', () => {
+    const truncated = applyMockScenario(project, 'truncated');
+    expect(truncated.finishReason).toBe('length');
+    expect(project.startsWith(truncated.text)).toBe(true);
+    expect(truncated.text.length).toBeLessThan(project.length);
+
+    expect(applyMockScenario(project, 'markdown').text).toContain(
+      `\`\`\`json\n${project}\n\`\`\``,
+    );
+
+    const broken = JSON.parse(
+      applyMockScenario(project, 'invalid-schema').text,
+    ) as { code: { frontend: { files: Record<string, unknown> } } };
+    expect(broken.code.frontend.files['/app/page.tsx']).toEqual({
+      purpose: '',
+    });
+  });
+
+  it('throws provider failures', () => {
+    expect(() => applyMockScenario(project, 'error')).toThrow(
+      /scenario "error"/,
+    );
+    let rateLimit: unknown;
+    try {
+      applyMockScenario(project, 'rate-limit');
+    } catch (error) {
+      rateLimit = error;
+    }
+    expect(APICallError.isInstance(rateLimit)).toBe(true);
+    expect((rateLimit as APICallError).statusCode).toBe(429);
+  });
+});
+
+describe('addTrailingCommas', () => {
+  it('adds commas before closing brackets outside strings only', () => {
+    const value = { code: 'const a = [1, 2]; }', list: [{ id: 1 }], empty: {} };
+    const withCommas = addTrailingCommas(JSON.stringify(value));
+
+    expect(withCommas).toBe(
+      '{"code":"const a = [1, 2]; }","list":[{"id":1,},],"empty":{},}',
+    );
+    expect(parseTolerantJson(withCommas).value).toEqual(value);
+  });
+});
+
+describe('MockLanguageModel', () => {
+  const fixturesDir = process.env.MOCK_FIXTURES_DIR;
+
+  beforeAll(() => {
+    process.env.MOCK_FIXTURES_DIR = path.join(
+      __dirname,
+      '../../../test/fixtures/mock-responses',
+    );
+  });
+
+  afterAll(() => {
+    if (fixturesDir === undefined) {
+      delete process.env.MOCK_FIXTURES_DIR;
+    } else {
+      process.env.MOCK_FIXTURES_DIR = fixturesDir;
+    }
+  });
+
+  it('replays the rest of a truncated recording on continuation', async () => {
+    const model = new MockLanguageModel('auto:truncated');
+    const prompt = 'Create a todo app with crud ops';
+    const user = (text: string) => ({
+      role: 'user' as const,
+      content: [{ type: 'text' as const, text }],
+    });
+
+    const first = await model.doGenerate({
+      inputFormat: 'messages',
+      mode: { type: 'regular' },
+      prompt: [user(prompt)],
+    });
+    expect(first.finishReason).toBe('length');
+
+    const rest = await model.doGenerate({
+      inputFormat: 'messages',
+      mode: { type: 'regular' },
+      prompt: [
+        user(prompt),
+        { role: 'assistant', content: [{ type: 'text', text: first.text }] },
+        user(
+          'Your previous response was cut off. Continue the JSON exactly where it stopped.',
+        ),
+      ],
+    });
+    expect(rest.finishReason).toBe('stop');
+
+    const { value } = parseTolerantJson(first.text + rest.text);
+    expect(value).toHaveProperty('projectName', expect.any(String));
+  });
+});
@@ -0,0 +1,409 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  APICallError,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+  simulateReadableStream,
+} from 'ai';
+import type { ModelProvider } from './provider-registry';
+
+/**
+ * Offline model that replays recorded generations.
+ *
+ * Identifiers take the form "mock:<fixture>[:<scenario>]":
+ * - fixture "auto" picks the newest recording whose prompt appears in the request,
+ *   "latest" picks the newest recording, anything else is matched against fixture file names
+ * - scenario applies a scripted failure to the recorded text (see MockScenario)
+ *
+ * Fixtures are read from MOCK_FIXTURES_DIR (default: test/fixtures/mock-responses/)
+ * and use the format of the *-ai-raw-response.json files saveJsonForDebug
+ * writes to generated-code/, so a recording can be copied over as-is.
+ * A continuation request (the cut-off output replayed as the assistant turn)
+ * receives the rest of the recorded text.
+ */
+export type MockScenario =
+  | 'none'
+  | 'truncated'
+  | 'trailing-commas'
+  | 'markdown'
+  | 'invalid-schema'
+  | 'error'
+  | 'rate-limit';
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  'none',
+  'truncated',
+  'trailing-commas',
+  'markdown',
+  'invalid-schema',
+  'error',
+  'rate-limit',
+];
+
+const logger = new Logger('MockModel');
+
+export interface MockFixture {
+  name: string;
+  prompt?: string;
+  text: string;
+  usage?: { promptTokens?: number; completionTokens?: number };
+  recordedAt: number;
+}
+
+interface MockResponse {
+  text: string;
+  finishReason: 'stop' | 'length';
+  usage: { promptTokens: number; completionTokens: number };
+}
+
+interface RawResponseRecording {
+  prompt?: string;
+  rawResponse: string;
+  usage?: { promptTokens?: number; completionTokens?: number };
+}
+
+export function getMockFixturesDir(): string {
+  return (
+    process.env.MOCK_FIXTURES_DIR ||
+    path.join(process.cwd(), 'test', 'fixtures', 'mock-responses')
+  );
+}
+
+function isRecording(data: unknown): data is RawResponseRecording {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+  const { prompt, rawResponse, usage } = data as Record<string, unknown>;
+  return (
+    typeof rawResponse === 'string' &&
+    (prompt === undefined || typeof prompt === 'string') &&
+    (usage === undefined || (typeof usage === 'object' && usage !== null))
+  );
+}
+
+function loadFixtures(dir: string): MockFixture[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json') || file.endsWith('.txt'))
+    .map((file): MockFixture => {
+      const filePath = path.join(dir, file);
+      const content = fs.readFileSync(filePath, 'utf8');
+      const name = file.replace(/\.(json|txt)$/, '');
+      const recordedAt = fs.statSync(filePath).mtimeMs;
+
+      if (file.endsWith('.txt')) {
+        return { name, text: content, recordedAt };
+      }
+
+      try {
+        const data: unknown = JSON.parse(content);
+        // Raw response recordings carry the model text; anything else (e.g. a parsed project) is replayed verbatim
+        if (isRecording(data)) {
+          return {
+            name,
+            prompt: data.prompt,
+            text: data.rawResponse,
+            usage: data.usage,
+            recordedAt,
+          };
+        }
+        return { name, text: JSON.stringify(data, null, 2), recordedAt };
+      } catch {
+        return { name, text: content, recordedAt };
+      }
+    })
+    .sort(
+      (a, b) => b.recordedAt - a.recordedAt || b.name.localeCompare(a.name),
+    );
+}
+
+function messageText(message: LanguageModelV1Prompt[number]): string {
+  if (message.role === 'system') {
+    return message.content;
+  }
+  const parts: { type: string; text?: string }[] = message.content;
+  return parts
+    .map((part) => (part.type === 'text' ? (part.text ?? '') : ''))
+    .join('\n');
+}
+
+/**
+ * The user message recordings are matched against, and the cut-off output
+ * when the request asks to continue it
+ */
+function readPrompt(options: LanguageModelV1CallOptions): {
+  userPrompt: string;
+  partialText?: string;
+} {
+  const assistantIndex = options.prompt.findIndex(
+    (message) => message.role === 'assistant',
+  );
+  const conversation =
+    assistantIndex >= 0
+      ? options.prompt.slice(0, assistantIndex)
+      : options.prompt;
+  const userMessages = conversation.filter(
+    (message) => message.role === 'user',
+  );
+  const last = userMessages[userMessages.length - 1];
+
+  return {
+    userPrompt: last ? messageText(last) : '',
+    ...(assistantIndex >= 0 && {
+      partialText: options.prompt
+        .filter((message) => message.role === 'assistant')
+        .map(messageText)
+        .pop(),
+    }),
+  };
+}
+
+export function selectFixture(
+  fixtureName: string,
+  userPrompt: string,
+  fixtures: MockFixture[],
+): MockFixture {
+  const recordings = fixtures.filter((fixture) => fixture.prompt !== undefined);
+  let fixture: MockFixture | undefined;
+
+  if (fixtureName === 'auto') {
+    fixture = recordings.find((recording) =>
+      userPrompt.includes(recording.prompt as string),
+    );
+  } else if (fixtureName === 'latest') {
+    fixture = recordings[0];
+  } else {
+    fixture =
+      fixtures.find((candidate) => candidate.name === fixtureName) ||
+      fixtures.find((candidate) => candidate.name.endsWith(fixtureName));
+  }
+
+  if (!fixture) {
+    const forPrompt =
+      fixtureName === 'auto'
+        ? ` for prompt "${userPrompt.substring(0, 80)}"`
+        : '';
+    throw new Error(
+      `No mock fixture matches "${fixtureName}" in ${getMockFixturesDir()}${forPrompt}`,
+    );
+  }
+  return fixture;
+}
+
+/**
+ * Insert a comma before every structural closing bracket, leaving string contents untouched
+ */
+export function addTrailingCommas(text: string): string {
+  let output = '';
+  let inString = false;
+  let escaped = false;
+  let lastSignificant = '';
+
+  for (const char of text) {
+    if (inString) {
+      output += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        lastSignificant = '"';
+      }
+      continue;
+    }
+
+    if (
+      (char === '}' || char === ']') &&
+      lastSignificant !== '' &&
+      !'{[,'.includes(lastSignificant)
+    ) {
+      output += ',';
+    }
+    if (char === '"') {
+      inString = true;
+    }
+    if (!/\s/.test(char)) {
+      lastSignificant = char;
+    }
+    output += char;
+  }
+  return output;
+}
+
+/**
+ * Drop the code of the first frontend file so the output fails schema validation
+ */
+function breakSchema(text: string): string {
+  const project: unknown = JSON.parse(text);
+  if (typeof project !== 'object' || project === null) {
+    return JSON.stringify({});
+  }
+  const files = (project as { code?: { frontend?: { files?: unknown } } }).code
+    ?.frontend?.files;
+  const firstFile =
+    typeof files === 'object' && files !== null
+      ? (Object.values(files)[0] as unknown)
+      : undefined;
+  if (typeof firstFile === 'object' && firstFile !== null) {
+    delete (firstFile as { code?: unknown }).code;
+  } else {
+    delete (project as { projectName?: unknown }).projectName;
+  }
+  return JSON.stringify(project, null, 2);
+}
+
+export function applyMockScenario(
+  text: string,
+  scenario: MockScenario,
+): { text: string; finishReason: 'stop' | 'length' } {
+  switch (scenario) {
+    case 'truncated':
+      return {
+        text: text.substring(0, Math.floor(text.length * 0.6)),
+        finishReason: 'length',
+      };
+    case 'trailing-commas':
+      return { text: addTrailingCommas(text), finishReason: 'stop' };
+    case 'markdown':
+      return {
+        text: `Here is your application:\n\n\`\`\`json\n${text}\n\`\`\`\n\nLet me know if you need changes!`,
+        finishReason: 'stop',
+      };
+    case 'invalid-schema':
+      return { text: breakSchema(text), finishReason: 'stop' };
+    case 'error':
+      throw new Error('Mock provider failure (scenario "error")');
+    case 'rate-limit':
+      throw new APICallError({
+        message: 'Mock rate limit (scenario "rate-limit")',
+        url: 'mock://model',
+        requestBodyValues: {},
+        statusCode: 429,
+        responseHeaders: { 'retry-after': '1' },
+        isRetryable: true,
+      });
+    default:
+      return { text, finishReason: 'stop' };
+  }
+}
+
+export class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1';
+  readonly provider = 'mock';
+  readonly defaultObjectGenerationMode = 'json';
+  readonly modelId: string;
+  private readonly fixtureName: string;
+  private readonly scenario: MockScenario;
+
+  constructor(modelName: string) {
+    const [fixtureName, scenario = 'none'] = modelName.split(':');
+    if (!MOCK_SCENARIOS.includes(scenario as MockScenario)) {
+      throw new Error(
+        `Unknown mock scenario "${scenario}". Supported: ${MOCK_SCENARIOS.join(', ')}`,
+      );
+    }
+    this.modelId = modelName;
+    this.fixtureName = fixtureName;
+    this.scenario = scenario as MockScenario;
+  }
+
+  private respond(options: LanguageModelV1CallOptions): MockResponse {
+    const { userPrompt, partialText } = readPrompt(options);
+    const fixture = selectFixture(
+      this.fixtureName,
+      userPrompt,
+      loadFixtures(getMockFixturesDir()),
+    );
+
+    let text: string;
+    let finishReason: MockResponse['finishReason'];
+    if (partialText !== undefined) {
+      if (!fixture.text.startsWith(partialText)) {
+        throw new Error(
+          `Mock fixture "${fixture.name}" does not start with the output to continue`,
+        );
+      }
+      text = fixture.text.slice(partialText.length);
+      finishReason = 'stop';
+      logger.log(
+        `Continuing fixture "${fixture.name}" from character ${partialText.length}`,
+      );
+    } else {
+      ({ text, finishReason } = applyMockScenario(fixture.text, this.scenario));
+      logger.log(
+        `Replaying fixture "${fixture.name}" (scenario: ${this.scenario})`,
+      );
+    }
+
+    return {
+      text,
+      finishReason,
+      usage: {
+        promptTokens:
+          fixture.usage?.promptTokens ?? Math.ceil(userPrompt.length / 4),
+        completionTokens:
+          partialText === undefined && fixture.usage?.completionTokens
+            ? fixture.usage.completionTokens
+            : Math.ceil(text.length / 4),
+      },
+    };
+  }
+
+  doGenerate(options: LanguageModelV1CallOptions) {
+    const response = this.respond(options);
+    return Promise.resolve({
+      ...response,
+      rawCall: {
+        rawPrompt: options.prompt,
+        rawSettings: { fixture: this.fixtureName, scenario: this.scenario },
+      },
+    });
+  }
+
+  doStream(options: LanguageModelV1CallOptions) {
+    const response = this.respond(options);
+    const chunks: LanguageModelV1StreamPart[] = [];
+    for (let offset = 0; offset < response.text.length; offset += 256) {
+      chunks.push({
+        type: 'text-delta',
+        textDelta: response.text.substring(offset, offset + 256),
+      });
+    }
+    chunks.push({
+      type: 'finish',
+      finishReason: response.finishReason,
+      usage: response.usage,
+    });
+
+    return Promise.resolve({
+      stream: simulateReadableStream({
+        chunks,
+        initialDelayInMs: null,
+        chunkDelayInMs: null,
+      }),
+      rawCall: {
+        rawPrompt: options.prompt,
+        rawSettings: { fixture: this.fixtureName, scenario: this.scenario },
+      },
+    });
+  }
+}
+
+export function createMockProvider(): ModelProvider {
+  return {
+    id: 'mock',
+    label: 'Recorded responses (offline)',
+    requiredEnv: [],
+    configured: true,
+    createModel: (modelName) => new MockLanguageModel(modelName),
+  };
+}
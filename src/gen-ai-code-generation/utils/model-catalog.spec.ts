@@ -0,0 +1,94 @@
+import { LanguageModelV1 } from 'ai';
+import {
+  assertModelAvailable,
+  getCatalogEntry,
+  listModels,
+  MODEL_CATALOG,
+} from './model-catalog';
+import { registerProvider } from './provider-registry';
+
+describe('getCatalogEntry', () => {
+  it('finds catalog entries by their full identifier', () => {
+    expect(getCatalogEntry('openai:gpt-4o')).toMatchObject({
+      label: 'GPT-4o',
+      supportsVision: true,
+    });
+    expect(getCatalogEntry('gpt-4o')).toBeUndefined();
+    expect(getCatalogEntry('openai:gpt-4.1-preview')).toBeUndefined();
+  });
+});
+
+describe('listModels', () => {
+  const modelPrices = process.env.MODEL_PRICES;
+
+  beforeAll(() => {
+    delete process.env.MODEL_PRICES;
+    registerProvider({
+      id: 'anthropic',
+      label: 'Anthropic',
+      requiredEnv: ['ANTHROPIC_API_KEY'],
+      configured: false,
+      createModel: (modelName) => ({ modelId: modelName }) as LanguageModelV1,
+    });
+  });
+
+  afterAll(() => {
+    if (modelPrices !== undefined) {
+      process.env.MODEL_PRICES = modelPrices;
+    }
+  });
+
+  it('lists every catalog entry with its provider, price and key status', () => {
+    const models = listModels();
+    const byId = new Map(models.map((model) => [model.id, model]));
+
+    expect(models.map((model) => model.id)).toEqual(
+      MODEL_CATALOG.map((entry) => entry.id),
+    );
+    expect(byId.get('openai:gpt-4o')).toMatchObject({
+      provider: 'openai',
+      price: { input: 2.5, output: 10 },
+    });
+    expect(byId.get('anthropic:claude-3-5-haiku-latest')).toMatchObject({
+      provider: 'anthropic',
+      keyConfigured: false,
+      requiredEnv: ['ANTHROPIC_API_KEY'],
+    });
+    expect(
+      byId.get('openrouter:meta-llama/llama-3-8b-instruct')?.provider,
+    ).toBe('openrouter');
+  });
+});
+
+describe('assertModelAvailable', () => {
+  beforeAll(() => {
+    registerProvider({
+      id: 'openai',
+      label: 'OpenAI',
+      requiredEnv: ['OPENAI_API_KEY'],
+      configured: true,
+      createModel: (modelName) => ({ modelId: modelName }) as LanguageModelV1,
+    });
+  });
+
+  it('only sends images to models the catalog lists with vision', () => {
+    expect(() =>
+      assertModelAvailable('openai:gpt-4o', ['supportsVision']),
+    ).not.toThrow();
+    expect(() =>
+      assertModelAvailable('openai:gpt-3.5-turbo', ['supportsVision']),
+    ).toThrow('Model "openai:gpt-3.5-turbo" does not support image input');
+    expect(() =>
+      assertModelAvailable('openai:gpt-4.1-preview', ['supportsVision']),
+    ).toThrow(/not in the model catalog, so it cannot be sent images/);
+    expect(() =>
+      assertModelAvailable('openai:gpt-4.1-preview', [
+        'supportsStreaming',
+        'supportsStructuredOutput',
+      ]),
+    ).not.toThrow();
+    expect(() =>
+      assertModelAvailable('mock:auto:truncated', ['supportsVision']),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,210 @@
+import { BadRequestException } from '@nestjs/common';
+import { getModelPrice, ModelPrice } from './model-pricing';
+import {
+  getProvider,
+  isMockModel,
+  parseModelIdentifier,
+  requireProvider,
+} from './provider-registry';
+
+/**
+ * Known models and what they can do. Models missing from the catalog can
+ * still be used on any configured provider, they are just not listed, but
+ * cannot be sent images since their vision support is unknown.
+ */
+export interface ModelCatalogEntry {
+  /** Model identifier, "provider:model" */
+  id: string;
+  label: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsStreaming: boolean;
+  supportsStructuredOutput: boolean;
+  supportsVision: boolean;
+}
+
+export interface ModelListing extends ModelCatalogEntry {
+  provider: string;
+  /** USD per million input/output tokens, null when unknown */
+  price: ModelPrice | null;
+  keyConfigured: boolean;
+  requiredEnv: string[];
+}
+
+export type ModelCapability =
+  | 'supportsStreaming'
+  | 'supportsStructuredOutput'
+  | 'supportsVision';
+
+export const MODEL_CATALOG: ModelCatalogEntry[] = [
+  {
+    id: 'openai:gpt-4o-mini',
+    label: 'GPT-4o mini',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+  {
+    id: 'openai:gpt-4o',
+    label: 'GPT-4o',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+  {
+    id: 'openai:gpt-3.5-turbo',
+    label: 'GPT-3.5 Turbo',
+    contextWindow: 16385,
+    maxOutputTokens: 4096,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: false,
+  },
+  {
+    id: 'anthropic:claude-3-5-sonnet-latest',
+    label: 'Claude 3.5 Sonnet',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+  {
+    id: 'anthropic:claude-3-5-haiku-latest',
+    label: 'Claude 3.5 Haiku',
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: false,
+  },
+  {
+    id: 'google:gemini-2.0-flash',
+    label: 'Gemini 2.0 Flash',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+  {
+    id: 'google:gemini-1.5-flash-latest',
+    label: 'Gemini 1.5 Flash',
+    contextWindow: 1048576,
+    maxOutputTokens: 8192,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+  {
+    id: 'google:gemini-1.5-pro-latest',
+    label: 'Gemini 1.5 Pro',
+    contextWindow: 2097152,
+    maxOutputTokens: 8192,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+  {
+    id: 'openrouter:qwen/qwen3-coder',
+    label: 'Qwen3 Coder (OpenRouter)',
+    contextWindow: 262144,
+    maxOutputTokens: 65536,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: false,
+  },
+  {
+    id: 'openrouter:meta-llama/llama-3-8b-instruct',
+    label: 'Llama 3 8B Instruct (OpenRouter)',
+    contextWindow: 8192,
+    maxOutputTokens: 4096,
+    supportsStreaming: true,
+    supportsStructuredOutput: false,
+    supportsVision: false,
+  },
+  {
+    id: 'mock:auto',
+    label: 'Recorded response matching the prompt (offline)',
+    contextWindow: 1000000,
+    maxOutputTokens: 1000000,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+  {
+    id: 'mock:latest',
+    label: 'Most recent recorded response (offline)',
+    contextWindow: 1000000,
+    maxOutputTokens: 1000000,
+    supportsStreaming: true,
+    supportsStructuredOutput: true,
+    supportsVision: true,
+  },
+];
+
+export function getCatalogEntry(
+  modelIdentifier: string,
+): ModelCatalogEntry | undefined {
+  return MODEL_CATALOG.find((entry) => entry.id === modelIdentifier);
+}
+
+export function listModels(): ModelListing[] {
+  return MODEL_CATALOG.map((entry) => {
+    const { platform } = parseModelIdentifier(entry.id);
+    const provider = getProvider(platform);
+    return {
+      ...entry,
+      provider: platform,
+      price: getModelPrice(entry.id) ?? null,
+      keyConfigured: !!provider?.configured,
+      requiredEnv: provider?.requiredEnv ?? [],
+    };
+  });
+}
+
+const CAPABILITY_NAMES: Record<ModelCapability, string> = {
+  supportsStreaming: 'streaming',
+  supportsStructuredOutput: 'structured output',
+  supportsVision: 'image input',
+};
+
+/**
+ * Reject a model whose provider is unknown or has no credentials, or that
+ * the catalog lists without a capability the request needs. Uncatalogued
+ * models are assumed to stream and produce structured output, but image
+ * input needs a catalog entry with supportsVision.
+ */
+export function assertModelAvailable(
+  modelIdentifier: string,
+  capabilities: ModelCapability[] = [],
+): void {
+  // Recorded responses serve any request, images included
+  if (isMockModel(modelIdentifier)) {
+    parseModelIdentifier(modelIdentifier);
+    return;
+  }
+
+  requireProvider(modelIdentifier);
+
+  const entry = getCatalogEntry(modelIdentifier);
+  if (!entry && capabilities.includes('supportsVision')) {
+    throw new BadRequestException(
+      `Model "${modelIdentifier}" is not in the model catalog, so it cannot be sent images. Use a model listed with supportsVision by GET /gen-ai-code/models`,
+    );
+  }
+  const missing = capabilities.filter(
+    (capability) => entry && !entry[capability],
+  );
+  if (missing.length > 0) {
+    throw new BadRequestException(
+      `Model "${modelIdentifier}" does not support ${missing
+        .map((capability) => CAPABILITY_NAMES[capability])
+        .join(' or ')}`,
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { addUsage, priceUsage, sumUsage } from './model-pricing';
+
+describe('priceUsage', () => {
+  const modelPrices = process.env.MODEL_PRICES;
+
+  beforeEach(() => {
+    delete process.env.MODEL_PRICES;
+  });
+
+  afterAll(() => {
+    if (modelPrices !== undefined) {
+      process.env.MODEL_PRICES = modelPrices;
+    }
+  });
+
+  it('prices tokens per million, with overrides, free mocks and unknown models', () => {
+    expect(
+      priceUsage('openai:gpt-4o', {
+        promptTokens: 2000,
+        completionTokens: 500,
+      }),
+    ).toEqual({
+      promptTokens: 2000,
+      completionTokens: 500,
+      totalTokens: 2500,
+      costUsd: 0.01,
+      priced: true,
+    });
+    expect(priceUsage('mock:auto', { promptTokens: 1000 })).toMatchObject({
+      costUsd: 0,
+      priced: true,
+    });
+    expect(
+      priceUsage('together:llama-3-70b', { promptTokens: 1000 }),
+    ).toMatchObject({ totalTokens: 1000, costUsd: 0, priced: false });
+
+    process.env.MODEL_PRICES = JSON.stringify({
+      'together:llama-3-70b': { input: 0.9, output: 0.9 },
+    });
+    expect(
+      priceUsage('together:llama-3-70b', {
+        promptTokens: 1_000_000,
+        completionTokens: 1_000_000,
+      }).costUsd,
+    ).toBeCloseTo(1.8);
+
+    process.env.MODEL_PRICES = '[1, 2]';
+    expect(priceUsage('together:llama-3-70b', undefined).priced).toBe(false);
+  });
+});
+
+describe('sumUsage', () => {
+  it('adds usage up and stays priced only when every part is', () => {
+    const known = priceUsage('openai:gpt-4o-mini', {
+      promptTokens: 1_000_000,
+      completionTokens: 1_000_000,
+    });
+    const unknown = priceUsage('together:llama-3-70b', { promptTokens: 10 });
+
+    expect(sumUsage([known, known])).toEqual({
+      promptTokens: 2_000_000,
+      completionTokens: 2_000_000,
+      totalTokens: 4_000_000,
+      costUsd: 1.5,
+      priced: true,
+    });
+    expect(sumUsage([known, unknown])).toMatchObject({
+      promptTokens: 1_000_010,
+      costUsd: 0.75,
+      priced: false,
+    });
+    expect(sumUsage([])).toMatchObject({ totalTokens: 0, priced: true });
+  });
+});
+
+describe('addUsage', () => {
+  it('adds token counts, treating a missing side as zero', () => {
+    const continuation = {
+      promptTokens: 100,
+      completionTokens: 40,
+      totalTokens: 140,
+    };
+
+    expect(
+      addUsage(
+        { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        continuation,
+      ),
+    ).toEqual({ promptTokens: 110, completionTokens: 45, totalTokens: 155 });
+    expect(addUsage(undefined, continuation)).toEqual(continuation);
+    expect(
+      addUsage({ promptTokens: NaN, completionTokens: NaN }, continuation),
+    ).toEqual(continuation);
+    expect(addUsage(undefined, undefined)).toEqual({
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+    });
+  });
+});
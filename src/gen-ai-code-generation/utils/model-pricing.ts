@@ -0,0 +1,128 @@
+import { Logger } from '@nestjs/common';
+import { LanguageModelUsage } from 'ai';
+import { GenerationUsage } from '../interfaces/project.interface';
+import { parseModelIdentifier } from './provider-registry';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const logger = new Logger('ModelPricing');
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'anthropic:claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  'anthropic:claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'google:gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'google:gemini-1.5-flash-latest': { input: 0.075, output: 0.3 },
+  'google:gemini-1.5-pro-latest': { input: 1.25, output: 5 },
+  'openrouter:qwen/qwen3-coder': { input: 0.2, output: 0.8 },
+  'openrouter:meta-llama/llama-3-8b-instruct': { input: 0.03, output: 0.06 },
+};
+
+/**
+ * Prices from MODEL_PRICES (JSON, e.g. {"together:llama-3-70b":{"input":0.9,"output":0.9}})
+ * take precedence over the built-in table
+ */
+function loadPriceOverrides(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (
+      typeof parsed !== 'object' ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new Error('expected an object keyed by model identifier');
+    }
+    return parsed as Record<string, ModelPrice>;
+  } catch (error) {
+    logger.warn(`Ignoring MODEL_PRICES: ${(error as Error).message}`);
+    return {};
+  }
+}
+
+/**
+ * Price for a model identifier, or undefined when it is not known.
+ * Recorded (mock) responses are free.
+ */
+export function getModelPrice(modelIdentifier: string): ModelPrice | undefined {
+  const overrides = loadPriceOverrides();
+  if (overrides[modelIdentifier]) {
+    return overrides[modelIdentifier];
+  }
+  if (parseModelIdentifier(modelIdentifier).platform === 'mock') {
+    return { input: 0, output: 0 };
+  }
+  return MODEL_PRICES[modelIdentifier];
+}
+
+/**
+ * Token counts of a call together with their cost. Unknown models are
+ * reported with a cost of 0 and priced: false.
+ */
+export function priceUsage(
+  modelIdentifier: string,
+  usage: Partial<LanguageModelUsage> | undefined,
+): GenerationUsage {
+  const promptTokens = usage?.promptTokens || 0;
+  const completionTokens = usage?.completionTokens || 0;
+  const price = getModelPrice(modelIdentifier);
+  const costUsd = price
+    ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000
+    : 0;
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    costUsd,
+    priced: !!price,
+  };
+}
+
+export function sumUsage(usages: GenerationUsage[]): GenerationUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      costUsd: total.costUsd + usage.costUsd,
+      priced: total.priced && usage.priced,
+    }),
+    {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      priced: true,
+    },
+  );
+}
+
+/**
+ * Token counts of two calls added up, treating a side without usage (or with
+ * token counts the provider did not report) as zero
+ */
+export function addUsage(
+  first: Partial<LanguageModelUsage> | undefined,
+  second: Partial<LanguageModelUsage> | undefined,
+): LanguageModelUsage {
+  const promptTokens = (first?.promptTokens || 0) + (second?.promptTokens || 0);
+  const completionTokens =
+    (first?.completionTokens || 0) + (second?.completionTokens || 0);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
+}
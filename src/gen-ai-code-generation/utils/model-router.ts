@@ -1,325 +1,89 @@
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
-import { createOpenAI } from "@ai-sdk/openai";
-import { createOpenRouter } from '@openrouter/ai-sdk-provider'; 
-import { generateText, streamText } from "ai";
+import {
+  generateObject,
+  generateText,
+  LanguageModelUsage,
+  LanguageModelV1,
+  NoObjectGeneratedError,
+  streamObject,
+  streamText,
+  ToolSet,
+} from 'ai';
+import { fullStackProjectSchema } from '../interfaces/project.schema';
+import {
+  FullStackProject,
+  GenerationParameters,
+  ImageAttachment,
+  ProjectRequirements,
+} from '../interfaces/project.interface';
+import { resolveGenerationParameters } from './generation-params';
+import { describeImageGuidance } from './image-input';
+import { MODEL_CATALOG } from './model-catalog';
+import { ResolvedPrompt, resolveSystemPrompt } from './prompt-registry';
+import { resolveModel } from './provider-registry';
+import { withProviderRetries } from './provider-errors';
+import { projectModificationSchema } from './project-patch';
+import { PlannedFile, ProjectPlan, projectPlanSchema } from './project-plan';
+import {
+  clarifyingQuestionsSchema,
+  projectRequirementsSchema,
+} from './requirements';
+import { recordUsage, UsageOperation } from './usage-ledger';
 
 // Allow streaming responses up to 30 seconds
 export const maxDuration = 30;
 
-// Initialize AI providers
-const google = createGoogleGenerativeAI({
-  apiKey: process.env.GOOGLE_API_KEY, // Ensure you have GOOGLE_API_KEY for Gemini
-});
-
-const openai = createOpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const openrouter = createOpenRouter({
-  apiKey: process.env.OPENROUTER_API_KEY,
-});
-
 /**
  * Dynamic Model Selector
- * This function takes an identifier and returns the correct model object.
+ * This function takes an identifier and returns the correct model object
+ * from the provider registry. Every call through it retries rate limits and
+ * transient provider errors, and fails with a ProviderError (see provider-errors.ts).
  * @param modelIdentifier - Format: "platform:modelName" (e.g., "openai:gpt-4o-mini")
  * @returns The appropriate model instance
+ * @throws BadRequestException for unknown or unconfigured providers
  */
-function getModel(modelIdentifier: string): any {
-  const [platform, modelName] = modelIdentifier.split(":");
-
-  switch (platform) {
-    case "openai":
-      return openai(modelName);
-    case "google":
-      return google(modelName);
-    case "openrouter":
-      return openrouter(modelName);
-    default:
-      console.warn(
-        `Unsupported model: ${modelIdentifier}. Defaulting to Gemini 1.5 Flash.`
-      );
-      return google("gemini-1.5-flash-latest");
-  }
+function getModel(modelIdentifier: string): LanguageModelV1 {
+  return withProviderRetries(resolveModel(modelIdentifier), modelIdentifier);
 }
 
-// Define the core instructions for the AI
-const systemPrompt = `
-You are an expert full-stack AI programmer. Generate COMPLETE, WORKING, FUNCTIONAL applications based on the user's request.
-
-**CRITICAL: Create REAL working applications with ALL requested features - not just basic templates!**
-
-**REQUIREMENTS:**
-- Generate complete, working applications with ALL requested functionality
-- Include proper state management, API integration, and error handling
-- Use modern React patterns (useState, useEffect, functional components)
-- Include ALL CRUD operations if requested (Create, Read, Update, Delete)
-- Connect frontend to backend APIs properly with proper error handling
-- Add proper loading states, error states, and success feedback
-- Include proper styling for good UX
-- Make the application fully interactive and functional
-- **ENSURE BACKEND-FRONTEND INTEGRATION WORKS** with proper API calls
-
-**FRONTEND-BACKEND INTEGRATION RULES:**
-- **CRITICAL**: Use environment variables for backend URL in frontend fetch calls
-- For Next.js: Use process.env.NEXT_PUBLIC_BACKEND_URL for backend API calls
-- Frontend fetch calls should use full environment variable paths
-- **DO NOT use relative paths like /api/todos** - always use the full environment variable
-- Include comprehensive error handling for all API calls
-- Add loading states during API operations
-- Display meaningful error messages to users
-- Test ALL CRUD operations (Create, Read, Update, Delete)
-- Include proper success feedback after operations
-- Handle edge cases like empty data, network errors, server errors
-- Add input validation on frontend before API calls
-
-**ENVIRONMENT VARIABLE USAGE EXAMPLES:**
-- CORRECT: Use process.env.NEXT_PUBLIC_BACKEND_URL + /api/todos for GET requests
-- CORRECT: Use process.env.NEXT_PUBLIC_BACKEND_URL + /api/todos for POST requests
-- WRONG: Using relative paths like /api/todos
-- WRONG: Using hardcoded URLs like http://localhost:8000/api/todos
-
-**BACKEND API REQUIREMENTS:**
-- Include startup event handlers to test database connectivity
-- Add health check endpoints for monitoring
-- Implement comprehensive error handling with proper HTTP status codes
-- Include proper CORS configuration for frontend access
-- Add detailed logging for debugging
-- Handle database connection failures gracefully
-- Include input validation and sanitization
-- Return consistent JSON response formats
-
-**CRITICAL FORMATTING RULES:**
-1. Return ONLY a valid JSON object
-2. Do NOT wrap in markdown code blocks
-3. Do NOT add any explanatory text before or after the JSON
-4. Use proper JSON escaping for strings - escape quotes with \\" and newlines with \\n
-5. **ABSOLUTELY NO TRAILING COMMAS ANYWHERE** - especially after closing braces in code
-6. All property names must be in double quotes
-7. For code strings, use proper JSON escaping
-8. Ensure all JavaScript/TypeScript code is syntactically correct
-9. Do NOT add trailing commas after function declarations or React components
-10. **CRITICAL**: JavaScript configuration files must NOT have trailing commas
-11. **NO TRAILING COMMAS IN CODE STRINGS** - code should end with closing brace only
-12. **NO TRAILING COMMAS IN API PATHS** - paths should be clean strings without trailing commas
-
-**IMPORTANT CODE FORMATTING:**
-- Escape all double quotes in code with \\"
-- Escape all newlines in code with \\n
-- Do NOT use template literals or unescaped quotes
-- Keep code strings clean and valid JSON
-- Ensure proper JavaScript/TypeScript syntax without trailing commas
-- Functions should end with closing brace only, no trailing commas
-- React components should be properly formatted without syntax errors
-- Always use proper comma placement in object literals and function calls
-- For fetch requests: ensure commas between headers, body, method properties
-
-**EXAMPLE OF PROPER FETCH SYNTAX:**
-Use environment variable + endpoint path with proper method, headers, and body properties separated by commas
-
-**CONFIGURATION FILE SYNTAX RULES:**
-- postcss.config.js: module.exports = { plugins: { tailwindcss: {}, autoprefixer: {} } }
-- tailwind.config.js: module.exports = { content: [...], theme: { extend: {} }, plugins: [] }
-- next.config.js: module.exports = { ... }
-- NO trailing commas after closing braces in any JavaScript config files
-- Ensure all config files are syntactically valid JavaScript
-
-**CRITICAL EXAMPLES OF WHAT NOT TO DO:**
-❌ WRONG: "code": "export default function Home() { return <div>Hello</div>; },"
-✅ CORRECT: "code": "export default function Home() { return <div>Hello</div>; }"
-
-❌ WRONG: "path": "/api/todos/{id},"
-✅ CORRECT: "path": "/api/todos/{id}"
-
-❌ WRONG: "code": "body { margin: 0; },"
-✅ CORRECT: "code": "body { margin: 0; }"
-
-**TEMPLATE-SPECIFIC REQUIREMENTS:**
-- If template includes "next", use Next.js 14 App Router structure with .tsx files
-- For Next.js client components that use React hooks (useState, useEffect), event handlers (onClick, onChange), or browser APIs, ALWAYS start with "use client"; directive
-- Server components (default) don't need "use client" directive - only add it when needed for interactivity
-- If template includes "react" only, use Create React App structure
-- Always include proper package.json with correct scripts  
-- For Next.js: use app directory structure (/app/page.tsx, /app/layout.tsx)
-- For React: use src directory structure (/src/App.js)
-- Include proper API calls to backend endpoints using fetch
-- Add error handling and loading states
-- Generate COMPLETE functional apps with ALL requested features (full CRUD for todo apps)
-- Include proper styling and interactive elements
-- **DO NOT generate postcss.config.js, tailwind.config.js, or next.config.js as they are auto-generated by create-next-app**
-
-**EXAMPLE OF PROPER FETCH USAGE WITH ENVIRONMENT VARIABLES:**
-
-For Todo applications, use this pattern:
-- fetch(process.env.NEXT_PUBLIC_BACKEND_URL + '/api/todos') for GET requests
-- fetch(process.env.NEXT_PUBLIC_BACKEND_URL + '/api/todos', { method: 'POST', ... }) for POST requests
-- Always use "use client"; directive for components with fetch calls and hooks
-- Include proper error handling and loading states
-
-**NEXT.JS SPECIFIC RULES:**
-- Add "use client"; directive at top of components using React hooks (useState, useEffect, etc.)
-- Add "use client"; directive for components with event handlers (onClick, onChange, etc.)
-- Add "use client"; directive for components making fetch requests
-- Server Components (no "use client") should only be used for static content
-- Interactive components MUST have "use client"; directive
-
-Generate a response with this EXACT JSON schema:
-
-**For Next.js templates (next+fastapi+mongodb or next+*):**
-{
-  "projectName": "Short project name",
-  "projectDescription": "Brief description of what the project does",
-  "template": "next+fastapi+mongodb",
-  "code": {
-    "frontend": {
-      "framework": "next",
-      "files": {
-        "/app/page.tsx": {
-          "purpose": "Main page component using App Router",
-          "code": "\\"use client\\";\\n\\nimport { useState } from 'react';\\n\\nexport default function Home() {\\n  const [count, setCount] = useState(0);\\n\\n  return (\\n    <main className=\\"min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4\\">\\n      <div className=\\"max-w-md mx-auto bg-white rounded-xl shadow-lg p-8 text-center\\">\\n        <h1 className=\\"text-3xl font-bold text-gray-800 mb-4\\">Welcome to Next.js!</h1>\\n        <p className=\\"text-gray-600 mb-6\\">Your app is running successfully.</p>\\n        <button \\n          onClick={() => setCount(count + 1)}\\n          className=\\"bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors duration-200 shadow-md hover:shadow-lg\\"\\n        >\\n          Count: {count}\\n        </button>\\n      </div>\\n    </main>\\n  );\\n}"
-        },
-        "/app/layout.tsx": {
-          "purpose": "Root layout component",
-          "code": "import './globals.css';\\n\\nexport const metadata = {\\n  title: 'Generated App',\\n  description: 'Generated by AI'\\n};\\n\\nexport default function RootLayout({ children }: { children: React.ReactNode }) {\\n  return (\\n    <html lang=\\"en\\">\\n      <body className=\\"font-sans antialiased\\">{children}</body>\\n    </html>\\n  );\\n}"
-        },
-        "/app/globals.css": {
-          "purpose": "Global styles with Tailwind CSS",
-          "code": "@tailwind base;\\n@tailwind components;\\n@tailwind utilities;\\n\\nbody {\\n  margin: 0;\\n  padding: 0;\\n}"
-        }
-      },
-      "dependencies": {
-        "package.json": {
-          "purpose": "Next.js package configuration",
-          "code": "{\\n  \\"name\\": \\"frontend\\",\\n  \\"version\\": \\"0.1.0\\",\\n  \\"private\\": true,\\n  \\"scripts\\": {\\n    \\"dev\\": \\"next dev\\",\\n    \\"build\\": \\"next build\\",\\n    \\"start\\": \\"next start\\",\\n    \\"lint\\": \\"next lint\\"\\n  },\\n  \\"dependencies\\": {\\n    \\"next\\": \\"14.0.4\\",\\n    \\"react\\": \\"^18\\",\\n    \\"react-dom\\": \\"^18\\",\\n    \\"@types/node\\": \\"^20\\",\\n    \\"@types/react\\": \\"^18\\",\\n    \\"@types/react-dom\\": \\"^18\\",\\n    \\"typescript\\": \\"^5\\"\\n  },\\n  \\"devDependencies\\": {\\n    \\"tailwindcss\\": \\"^3.3.0\\",\\n    \\"autoprefixer\\": \\"^10.4.14\\",\\n    \\"postcss\\": \\"^8.4.24\\"\\n  }\\n}"
-        }
-      }
-    },
-    "backend": {
-      "framework": "fastapi",
-      "files": {
-        "/main.py": {
-          "purpose": "FastAPI main application",
-          "code": "from fastapi import FastAPI\\nfrom fastapi.middleware.cors import CORSMiddleware\\n\\napp = FastAPI()\\n\\napp.add_middleware(\\n    CORSMiddleware,\\n    allow_origins=[\\"*\\"],\\n    allow_credentials=True,\\n    allow_methods=[\\"*\\"],\\n    allow_headers=[\\"*\\"],\\n)\\n\\n@app.get(\\"/\\")\\ndef read_root():\\n    return {\\"message\\": \\"Hello from FastAPI\\"}"
-        }
-      },
-      "dependencies": {
-        "requirements.txt": {
-          "purpose": "Python dependencies",
-          "code": "fastapi==0.104.1\\nuvicorn==0.24.0\\npymongo==4.6.0"
-        }
-      }
-    }
-  },
-  "projectStructure": {
-    "frontend": "frontend/\\n├── app/\\n│   ├── layout.js\\n│   └── page.js\\n└── package.json",
-    "backend": "backend/\\n├── main.py\\n└── requirements.txt"
-  },
-  "databaseSchema": {
-    "collections": []
-  },
-  "apiEndpoints": []
+interface UsageContext {
+  operation: UsageOperation;
+  modelIdentifier: string;
+  template?: string;
+  promptVersion?: string;
 }
 
-**For React templates (react+fastapi+mongodb or react+*):**
-{
-  "projectName": "Short project name",
-  "projectDescription": "Brief description of what the project does", 
-  "template": "react+fastapi+mongodb",
-  "code": {
-    "frontend": {
-      "framework": "react",
-      "files": {
-        "/src/App.js": {
-          "purpose": "Main React component",
-          "code": "import React from 'react';\\n\\nfunction App() {\\n  return (\\n    <div className=\\"App\\">\\n      <h1>Welcome to React!</h1>\\n      <p>Your app is running.</p>\\n    </div>\\n  );\\n}\\n\\nexport default App;"
-        },
-        "/src/index.js": {
-          "purpose": "Entry point for React app",
-          "code": "import React from 'react';\\nimport ReactDOM from 'react-dom/client';\\nimport App from './App';\\n\\nconst root = ReactDOM.createRoot(document.getElementById('root'));\\nroot.render(<App />);"
-        },
-        "/public/index.html": {
-          "purpose": "HTML template",
-          "code": "<!DOCTYPE html>\\n<html lang=\\"en\\">\\n<head>\\n  <meta charset=\\"utf-8\\" />\\n  <title>React App</title>\\n</head>\\n<body>\\n  <div id=\\"root\\"></div>\\n</body>\\n</html>"
-        }
-      },
-      "dependencies": {
-        "package.json": {
-          "purpose": "React package configuration",
-          "code": "{\\n  \\"name\\": \\"frontend\\",\\n  \\"version\\": \\"0.1.0\\",\\n  \\"private\\": true,\\n  \\"scripts\\": {\\n    \\"start\\": \\"react-scripts start\\",\\n    \\"build\\": \\"react-scripts build\\",\\n    \\"test\\": \\"react-scripts test\\",\\n    \\"eject\\": \\"react-scripts eject\\"\\n  },\\n  \\"dependencies\\": {\\n    \\"react\\": \\"^18.0.0\\",\\n    \\"react-dom\\": \\"^18.0.0\\",\\n    \\"react-scripts\\": \\"5.0.1\\"\\n  }\\n}"
-        }
-      }
-    },
-    "backend": {
-      "framework": "fastapi", 
-      "files": {
-        "/main.py": {
-          "purpose": "FastAPI main application",
-          "code": "from fastapi import FastAPI\\nfrom fastapi.middleware.cors import CORSMiddleware\\nfrom pymongo import MongoClient\\n\\napp = FastAPI()\\n\\napp.add_middleware(\\n    CORSMiddleware,\\n    allow_origins=[\\"*\\"],\\n    allow_credentials=True,\\n    allow_methods=[\\"*\\"],\\n    allow_headers=[\\"*\\"],\\n)\\n\\nclient = MongoClient('mongodb://localhost:27017/')\\ndb = client.myapp\\n\\n@app.on_event(\\"startup\\")\\nasync def startup_event():\\n    try:\\n        client.admin.command('ping')\\n        print(\\"MongoDB connection successful!\\")\\n    except Exception as e:\\n        print(f\\"MongoDB connection failed: {e}\\")\\n\\n@app.get(\\"/health\\")\\ndef health_check():\\n    try:\\n        client.admin.command('ping')\\n        return {\\"status\\": \\"healthy\\", \\"database\\": \\"connected\\"}\\n    except Exception as e:\\n        return {\\"status\\": \\"unhealthy\\", \\"database\\": \\"disconnected\\", \\"error\\": str(e)}\\n\\n@app.get(\\"/\\")\\ndef read_root():\\n    return {\\"message\\": \\"Hello from FastAPI\\"}"
-        }
-      },
-      "dependencies": {
-        "requirements.txt": {
-          "purpose": "Python dependencies", 
-          "code": "fastapi==0.104.1\\nuvicorn==0.24.0\\npymongo==4.6.0"
-        }
-      }
-    }
-  },
-  "projectStructure": {
-    "frontend": "frontend/\\n├── src/\\n│   └── App.js\\n└── package.json",
-    "backend": "backend/\\n├── main.py\\n└── requirements.txt"
-  },
-  "databaseSchema": {
-    "collections": [
-      {
-        "name": "Collection name",
-        "purpose": "What data it stores",
-        "schema": {}
-      }
-    ]
-  },
-  "apiEndpoints": [
-    {
-      "method": "GET",
-      "path": "/api/items",
-      "purpose": "What this endpoint does"
+/**
+ * Record the token usage of a model call in the usage ledger. Structured
+ * generations that fail to produce an object still consumed tokens.
+ */
+async function trackUsage<T extends { usage: LanguageModelUsage }>(
+  context: UsageContext,
+  call: Promise<T>,
+): Promise<T> {
+  try {
+    const result = await call;
+    recordUsage({ ...context, usage: result.usage });
+    return result;
+  } catch (error) {
+    if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+      recordUsage({ ...context, usage: error.usage });
     }
-  ]
+    throw error;
+  }
 }
 
-**Frontend Guidelines:**
-- ALWAYS use Tailwind CSS for all styling - no inline styles or CSS files
-- Create beautiful, modern UI with proper spacing, colors, and typography
-- Use responsive design classes (sm:, md:, lg:, xl:)
-- For forms: use proper form styling with bg-white, border, rounded, padding
-- For buttons: use bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded
-- For containers: use max-w-4xl mx-auto p-6 bg-white rounded-lg shadow-lg
-- For inputs: use border border-gray-300 rounded px-3 py-2 w-full focus:outline-none focus:ring-2 focus:ring-blue-500
-- For cards: use bg-white p-4 rounded-lg shadow border
-- Use proper text styling: text-gray-800, text-sm, text-lg, font-semibold, etc.
-- Add hover effects and transitions: transition-colors duration-200
-- Use proper spacing: space-y-4, gap-4, mt-4, mb-6, etc.
-- For lists: use space-y-2 and proper item styling
-- Always include Tailwind CSS in package.json dependencies
-- Use lucide-react for icons when needed
-- Create clean, functional components with beautiful UI
-- For React: Use create-react-app structure
-- For Next.js: Use app router structure with "use client" for interactive components
-
-**Backend Guidelines:**
-- Use FastAPI with Python
-- Include proper CORS configuration
-- Create RESTful API endpoints
-- Include MongoDB models using Pydantic
-
-**Code Quality:**
-- Production-ready code
-- Proper error handling
-- Clean, readable structure
-- Escape all quotes and newlines in code strings properly
-
-**REMEMBER: Return only valid JSON, no markdown, no extra text, proper escaping!**
-`;
+/**
+ * Record the usage of a streamed call once the stream has finished
+ */
+function trackStreamUsage(
+  context: UsageContext,
+  usage: PromiseLike<LanguageModelUsage>,
+) {
+  usage.then(
+    (finalUsage) => recordUsage({ ...context, usage: finalUsage }),
+    () => undefined,
+  );
+}
 
 const chatSystemPrompt = `
     You are a helpful AI assistant. Provide clear, concise, and accurate responses to user queries.
@@ -329,14 +93,27 @@ const chatSystemPrompt = `
  * Chat Session Function
  * For general conversation and queries
  */
-export async function chatSession({ prompt, modelIdentifier }: { prompt: string; modelIdentifier: string }) {
-  const result = await generateText({
-    model: getModel(modelIdentifier),
-    system: chatSystemPrompt,
-    messages: [{ role: "user", content: prompt }],
-    temperature: 1,
-    maxTokens: 8192,
-  });
+export async function chatSession({
+  prompt,
+  modelIdentifier,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  parameters?: GenerationParameters;
+}) {
+  const result = await trackUsage(
+    { operation: 'chat', modelIdentifier },
+    generateText({
+      model: getModel(modelIdentifier),
+      system: chatSystemPrompt,
+      messages: [{ role: 'user', content: prompt }],
+      ...resolveGenerationParameters(modelIdentifier, parameters, {
+        temperature: 1,
+        maxTokens: 8192,
+      }).parameters,
+    }),
+  );
 
   return result;
 }
@@ -345,37 +122,759 @@ export async function chatSession({ prompt, modelIdentifier }: { prompt: string;
  * Code Generation Session Function
  * Specifically for generating React code with structured output
  */
-export async function GenAiCode({ prompt, modelIdentifier }: { prompt: string; modelIdentifier: string }) {
-  const result = await generateText({
+export async function GenAiCode({
+  prompt,
+  modelIdentifier,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  parameters?: GenerationParameters;
+}) {
+  const systemPrompt = resolveSystemPrompt();
+  const result = await trackUsage(
+    {
+      operation: 'frontend',
+      modelIdentifier,
+      promptVersion: systemPrompt.version,
+    },
+    generateText({
+      model: getModel(modelIdentifier),
+      system: systemPrompt.text,
+      messages: [{ role: 'user', content: prompt }],
+      ...resolveGenerationParameters(modelIdentifier, parameters, {
+        temperature: 1,
+        maxTokens: 8192,
+      }).parameters,
+    }),
+  );
+  return result;
+}
+
+/** Sampling defaults for full-stack generation when the request does not set them */
+export const FULL_STACK_SAMPLING_DEFAULTS = {
+  temperature: 0.8,
+  maxTokens: 8048,
+};
+
+function buildFullStackPrompt(prompt: string, template?: string): string {
+  return template
+    ? `Generate a ${template} application: ${prompt}`
+    : `Generate a full-stack application: ${prompt}`;
+}
+
+/**
+ * Message content with attached images as image parts after the text
+ */
+function withImages(text: string, images?: ImageAttachment[]) {
+  if (!images?.length) {
+    return text;
+  }
+  return [
+    { type: 'text' as const, text },
+    ...images.map((image) => ({
+      type: 'image' as const,
+      image: image.data,
+      mimeType: image.mimeType,
+    })),
+  ];
+}
+
+/**
+ * User message for full-stack generation: the prompt, plus attached images
+ * with instructions to follow their layout
+ */
+function buildFullStackContent(
+  prompt: string,
+  template?: string,
+  images?: ImageAttachment[],
+  suffix?: string,
+) {
+  const text = [
+    buildFullStackPrompt(prompt, template),
+    images?.length ? describeImageGuidance(images.length, template) : '',
+    suffix ?? '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  return withImages(text, images);
+}
+
+/**
+ * Full-Stack Code Generation Function
+ * Generates complete frontend + backend + database structure as an object
+ * validated against fullStackProjectSchema. Throws NoObjectGeneratedError
+ * (carrying the raw text) when the model output does not match the schema.
+ */
+export async function generateFullStackCode({
+  prompt,
+  modelIdentifier,
+  template,
+  images,
+  feedback,
+  systemPrompt,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  template?: string;
+  images?: ImageAttachment[];
+  /** Versioned system prompt, defaults to the template's default version */
+  systemPrompt?: ResolvedPrompt;
+  /** Why the previous attempt's output was rejected, to steer the retry */
+  feedback?: string;
+  parameters?: GenerationParameters;
+}) {
+  const resolvedPrompt = systemPrompt ?? resolveSystemPrompt({ template });
+  const content = buildFullStackContent(
+    prompt,
+    template,
+    images,
+    feedback &&
+      `Your previous answer to this request could not be used: ${feedback}\nReturn the complete project again as a single valid JSON object matching the schema.`,
+  );
+
+  const result = await trackUsage(
+    {
+      operation: 'full-stack',
+      modelIdentifier,
+      template,
+      promptVersion: resolvedPrompt.version,
+    },
+    generateObject({
+      model: getModel(modelIdentifier),
+      schema: fullStackProjectSchema,
+      schemaName: 'FullStackProject',
+      schemaDescription:
+        'A complete full-stack project with frontend, backend, database schema and API endpoints',
+      system: resolvedPrompt.text,
+      messages: [{ role: 'user', content }],
+      ...resolveGenerationParameters(
+        modelIdentifier,
+        parameters,
+        FULL_STACK_SAMPLING_DEFAULTS,
+      ).parameters,
+    }),
+  );
+  return result;
+}
+
+/**
+ * Streaming Full-Stack Code Generation Function
+ * Streams partial FullStackProject objects and raw text deltas as the model writes.
+ * The final object is validated against fullStackProjectSchema.
+ */
+export function streamFullStackCode({
+  prompt,
+  modelIdentifier,
+  template,
+  images,
+  abortSignal,
+  systemPrompt,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  template?: string;
+  images?: ImageAttachment[];
+  /** Versioned system prompt, defaults to the template's default version */
+  systemPrompt?: ResolvedPrompt;
+  abortSignal?: AbortSignal;
+  parameters?: GenerationParameters;
+}) {
+  const resolvedPrompt = systemPrompt ?? resolveSystemPrompt({ template });
+  const result = streamObject({
     model: getModel(modelIdentifier),
-    system: systemPrompt,
-    messages: [{ role: "user", content: prompt }],
-    temperature: 1,
-    maxTokens: 8192,
+    schema: fullStackProjectSchema,
+    schemaName: 'FullStackProject',
+    schemaDescription:
+      'A complete full-stack project with frontend, backend, database schema and API endpoints',
+    system: resolvedPrompt.text,
+    messages: [
+      {
+        role: 'user',
+        content: buildFullStackContent(prompt, template, images),
+      },
+    ],
+    ...resolveGenerationParameters(
+      modelIdentifier,
+      parameters,
+      FULL_STACK_SAMPLING_DEFAULTS,
+    ).parameters,
+    abortSignal,
   });
+  trackStreamUsage(
+    {
+      operation: 'full-stack-stream',
+      modelIdentifier,
+      template,
+      promptVersion: resolvedPrompt.version,
+    },
+    result.usage,
+  );
   return result;
 }
 
 /**
- * Full-Stack Code Generation Function
- * Generates complete frontend + backend + database structure
+ * Raw Full-Stack Generation Function
+ * Same prompt as generateFullStackCode but returns the unvalidated text,
+ * used for debugging model output
  */
-export async function generateFullStackCode({ prompt, modelIdentifier, template }: { 
-  prompt: string; 
+export async function generateFullStackText({
+  prompt,
+  modelIdentifier,
+  template,
+  images,
+  systemPrompt,
+  parameters,
+}: {
+  prompt: string;
   modelIdentifier: string;
   template?: string;
+  images?: ImageAttachment[];
+  /** Versioned system prompt, defaults to the template's default version */
+  systemPrompt?: ResolvedPrompt;
+  parameters?: GenerationParameters;
 }) {
-  const enhancedPrompt = template 
-    ? `Generate a ${template} application: ${prompt}`
-    : `Generate a full-stack application: ${prompt}`;
+  const resolvedPrompt = systemPrompt ?? resolveSystemPrompt({ template });
+  const result = await trackUsage(
+    {
+      operation: 'debug',
+      modelIdentifier,
+      template,
+      promptVersion: resolvedPrompt.version,
+    },
+    generateText({
+      model: getModel(modelIdentifier),
+      system: resolvedPrompt.text,
+      messages: [
+        {
+          role: 'user',
+          content: buildFullStackContent(prompt, template, images),
+        },
+      ],
+      ...resolveGenerationParameters(
+        modelIdentifier,
+        parameters,
+        FULL_STACK_SAMPLING_DEFAULTS,
+      ).parameters,
+    }),
+  );
+  return result;
+}
+
+/**
+ * Full-Stack Continuation Function
+ * Replays the cut-off output as the assistant turn and asks the model to
+ * resume from its last character, for output that hit the token limit
+ */
+export async function continueFullStackText({
+  prompt,
+  modelIdentifier,
+  template,
+  images,
+  partialText,
+  systemPrompt,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  template?: string;
+  images?: ImageAttachment[];
+  /** Versioned system prompt, defaults to the template's default version */
+  systemPrompt?: ResolvedPrompt;
+  partialText: string;
+  parameters?: GenerationParameters;
+}) {
+  const resolvedPrompt = systemPrompt ?? resolveSystemPrompt({ template });
+  const result = await trackUsage(
+    {
+      operation: 'continuation',
+      modelIdentifier,
+      template,
+      promptVersion: resolvedPrompt.version,
+    },
+    generateText({
+      model: getModel(modelIdentifier),
+      system: resolvedPrompt.text,
+      messages: [
+        {
+          role: 'user',
+          content: buildFullStackContent(prompt, template, images),
+        },
+        { role: 'assistant', content: partialText },
+        {
+          role: 'user',
+          content:
+            'Your previous response was cut off. Continue the JSON exactly where it stopped, starting with the very next character. Do not repeat anything already written, do not restart the object and do not add markdown or explanations.',
+        },
+      ],
+      ...resolveGenerationParameters(modelIdentifier, parameters, {
+        temperature: 0.2,
+        maxTokens: 8048,
+      }).parameters,
+    }),
+  );
+  return result;
+}
+
+const planSystemPrompt = `
+You are an expert full-stack architect. Plan a COMPLETE, WORKING application for the user's request
+without writing any file contents yet.
+
+**PLAN RULES:**
+- List EVERY file the application needs, including package.json (frontend dependencies) and requirements.txt (backend dependencies)
+- If template includes "next", use Next.js 14 App Router files (/app/layout.tsx, /app/page.tsx, /app/globals.css)
+- If template includes "react" only, use Create React App files (/public/index.html, /src/index.js, /src/App.js)
+- The backend is FastAPI with MongoDB, entry point /main.py
+- Do NOT plan postcss.config.js, tailwind.config.js or next.config.js
+- Split large UIs into components so no single file is huge
+- For each file, describe precisely what it contains and exports, and list the planned files it imports in dependsOn
+- List every API endpoint and database collection the application uses
+`;
+
+const fileSystemPrompt = `
+You are an expert full-stack AI programmer writing ONE file of a planned application.
+
+**RULES:**
+- Return ONLY the raw contents of the requested file: no markdown code fences, no explanations
+- Implement everything the plan assigns to this file, completely and working
+- Stay consistent with the plan: file paths, exports, API endpoints, database collections
+- Stay consistent with the contents of the files this file depends on
+- Frontend: call the backend with process.env.NEXT_PUBLIC_BACKEND_URL + path (Next.js), never relative /api paths
+- Frontend: add "use client"; to Next.js components using hooks, event handlers or fetch
+- Frontend: style with Tailwind CSS classes, include loading, error and success states
+- Backend: FastAPI with CORS for all origins, a /health endpoint, MongoDB via pymongo at mongodb://localhost:27017/
+- package.json and requirements.txt must list every dependency the planned files use
+`;
+
+export const MULTI_PASS_SAMPLING_DEFAULTS = {
+  temperature: 0.6,
+  maxTokens: 8192,
+};
+
+/**
+ * Pass-specific instructions followed by the versioned prompt's guidance for
+ * the stack, whose output format the pass instructions override
+ */
+function withProjectGuidelines(
+  passPrompt: string,
+  systemPrompt: ResolvedPrompt,
+): string {
+  return `${passPrompt}
+**PROJECT GUIDELINES (${systemPrompt.template}/${systemPrompt.version}):**
+Follow these guidelines for the stack, structure and code quality of the application. Where they describe the response format, the rules above take precedence.
+
+${systemPrompt.text}`;
+}
+
+/**
+ * Project Planning Function
+ * First pass of multi-pass generation: file list, endpoints and database schema
+ */
+export async function generateProjectPlan({
+  prompt,
+  modelIdentifier,
+  template,
+  images,
+  systemPrompt,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  template?: string;
+  images?: ImageAttachment[];
+  /** Versioned system prompt, defaults to the template's default version */
+  systemPrompt?: ResolvedPrompt;
+  parameters?: GenerationParameters;
+}) {
+  const resolvedPrompt = systemPrompt ?? resolveSystemPrompt({ template });
+  const result = await trackUsage(
+    {
+      operation: 'plan',
+      modelIdentifier,
+      template,
+      promptVersion: resolvedPrompt.version,
+    },
+    generateObject({
+      model: getModel(modelIdentifier),
+      schema: projectPlanSchema,
+      schemaName: 'ProjectPlan',
+      schemaDescription:
+        'Plan of a full-stack project: files with purposes, API endpoints and database schema',
+      system: withProjectGuidelines(planSystemPrompt, resolvedPrompt),
+      messages: [
+        {
+          role: 'user',
+          content: buildFullStackContent(prompt, template, images),
+        },
+      ],
+      ...resolveGenerationParameters(
+        modelIdentifier,
+        parameters,
+        MULTI_PASS_SAMPLING_DEFAULTS,
+      ).parameters,
+    }),
+  );
+  return result;
+}
+
+/**
+ * Single File Generation Function
+ * Second pass of multi-pass generation: writes one planned file with the plan
+ * and the contents of its dependencies as context
+ */
+export async function generateProjectFile({
+  prompt,
+  modelIdentifier,
+  plan,
+  file,
+  dependencies,
+  images,
+  systemPrompt,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  plan: ProjectPlan;
+  file: PlannedFile;
+  dependencies: { path: string; code: string }[];
+  /** UI images, only sent along for frontend files */
+  images?: ImageAttachment[];
+  /** Versioned system prompt, defaults to the plan template's default version */
+  systemPrompt?: ResolvedPrompt;
+  parameters?: GenerationParameters;
+}) {
+  const resolvedPrompt =
+    systemPrompt ?? resolveSystemPrompt({ template: plan.template });
+  const layoutImages = file.section === 'frontend' ? images : undefined;
+  const dependencyContext = dependencies
+    .map((dependency) => `--- ${dependency.path} ---\n${dependency.code}`)
+    .join('\n\n');
+
+  const result = await trackUsage(
+    {
+      operation: 'file',
+      modelIdentifier,
+      template: plan.template,
+      promptVersion: resolvedPrompt.version,
+    },
+    generateText({
+      model: getModel(modelIdentifier),
+      system: withProjectGuidelines(fileSystemPrompt, resolvedPrompt),
+      messages: [
+        {
+          role: 'user',
+          content: withImages(
+            [
+              `Application request: ${prompt}`,
+              `Project plan:\n${JSON.stringify(plan, null, 2)}`,
+              dependencyContext
+                ? `Files this file depends on:\n${dependencyContext}`
+                : '',
+              layoutImages?.length
+                ? describeImageGuidance(layoutImages.length, plan.template)
+                : '',
+              `Write the ${file.section} file "${file.path}": ${file.purpose}`,
+            ]
+              .filter(Boolean)
+              .join('\n\n'),
+            layoutImages,
+          ),
+        },
+      ],
+      ...resolveGenerationParameters(
+        modelIdentifier,
+        parameters,
+        MULTI_PASS_SAMPLING_DEFAULTS,
+      ).parameters,
+    }),
+  );
+
+  // Models sometimes wrap the file in a fence despite the instructions
+  const text = result.text
+    .trim()
+    .replace(/^```[\w-]*\n([\s\S]*?)\n?```$/, '$1');
+  return { text, usage: result.usage, finishReason: result.finishReason };
+}
+
+const clarifySystemPrompt = `
+You are a product engineer scoping a full-stack web application before it is built.
+Vague requests lead to generic apps, so ask the questions whose answers change what gets built.
+
+**RULES:**
+- Cover the data entities and their key fields, authentication and roles, the pages, and external integrations
+- Ask at most 8 short questions, skip anything the request already answers
+- Give every question a suggestedDefault that would make a good app on its own
+- Offer options only when there are a few obvious answers
+`;
 
-  const result = await generateText({
+/**
+ * Clarifying Questions Function
+ * Asks the model what it needs to know before generating the project
+ */
+export async function generateClarifyingQuestions({
+  prompt,
+  modelIdentifier,
+  template,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  template?: string;
+  parameters?: GenerationParameters;
+}) {
+  const result = await trackUsage(
+    { operation: 'clarify', modelIdentifier, template },
+    generateObject({
+      model: getModel(modelIdentifier),
+      schema: clarifyingQuestionsSchema,
+      schemaName: 'ClarifyingQuestions',
+      schemaDescription: 'Questions to ask before generating the application',
+      system: clarifySystemPrompt,
+      messages: [
+        { role: 'user', content: buildFullStackPrompt(prompt, template) },
+      ],
+      ...resolveGenerationParameters(modelIdentifier, parameters, {
+        temperature: 0.4,
+        maxTokens: 4096,
+      }).parameters,
+    }),
+  );
+  return result;
+}
+
+/**
+ * Requirements Function
+ * Turns the request and the user's answers into structured requirements
+ */
+export async function generateProjectRequirements({
+  prompt,
+  modelIdentifier,
+  template,
+  answers,
+  parameters,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  template?: string;
+  answers: { question: string; answer: string; defaulted: boolean }[];
+  parameters?: GenerationParameters;
+}): Promise<{ object: ProjectRequirements; usage: LanguageModelUsage }> {
+  const transcript = answers
+    .map(
+      ({ question, answer, defaulted }) =>
+        `Q: ${question}\nA: ${answer}${defaulted ? ' (suggested default)' : ''}`,
+    )
+    .join('\n\n');
+  const result = await trackUsage(
+    { operation: 'requirements', modelIdentifier, template },
+    generateObject({
+      model: getModel(modelIdentifier),
+      schema: projectRequirementsSchema,
+      schemaName: 'ProjectRequirements',
+      schemaDescription: 'Structured requirements for the application',
+      system:
+        'You turn an application request and the answers to clarifying questions into precise, structured requirements. Do not invent features that neither the request nor the answers ask for.',
+      messages: [
+        {
+          role: 'user',
+          content: `${buildFullStackPrompt(prompt, template)}\n\n${transcript}`,
+        },
+      ],
+      ...resolveGenerationParameters(modelIdentifier, parameters, {
+        temperature: 0.2,
+        maxTokens: 4096,
+      }).parameters,
+    }),
+  );
+  return result;
+}
+
+const modificationSystemPrompt = `
+You are an expert full-stack AI programmer refining an existing application.
+You receive the current project as JSON and a change request.
+
+**RULES:**
+- Return ONLY the files that must change to implement the request
+- For "add" and "modify", return the COMPLETE new contents of the file in "code", never a diff or a fragment
+- Use "delete" only for files that must be removed
+- Keep file keys exactly as they appear in the project (e.g. "/app/page.tsx", "package.json", "requirements.txt")
+- Keep the existing framework, structure, styling conventions and backend URL handling
+- Keep frontend and backend in sync: if an API changes, update both sides
+- Return apiEndpoints or databaseCollections only when they changed, as the complete updated list
+`;
+
+export const MODIFICATION_SAMPLING_DEFAULTS = {
+  temperature: 0.4,
+  maxTokens: 8192,
+};
+
+/**
+ * Project Modification Function
+ * Asks the model for a file-level change set against an existing project
+ */
+export async function generateProjectModification({
+  project,
+  change,
+  modelIdentifier,
+  requirements,
+  parameters,
+}: {
+  project: FullStackProject;
+  change: string;
+  modelIdentifier: string;
+  /** Requirements the project was generated from, kept intact unless the change says otherwise */
+  requirements?: ProjectRequirements;
+  parameters?: GenerationParameters;
+}) {
+  const requirementsContext = requirements
+    ? `\n\nOriginal requirements:\n${JSON.stringify(requirements, null, 2)}`
+    : '';
+  const result = await trackUsage(
+    { operation: 'modification', modelIdentifier, template: project.template },
+    generateObject({
+      model: getModel(modelIdentifier),
+      schema: projectModificationSchema,
+      schemaName: 'ProjectModification',
+      schemaDescription:
+        'File-level changes to apply to an existing full-stack project',
+      system: modificationSystemPrompt,
+      messages: [
+        {
+          role: 'user',
+          content: `Current project:\n${JSON.stringify(project, null, 2)}${requirementsContext}\n\nChange request: ${change}`,
+        },
+      ],
+      ...resolveGenerationParameters(
+        modelIdentifier,
+        parameters,
+        MODIFICATION_SAMPLING_DEFAULTS,
+      ).parameters,
+    }),
+  );
+  return result;
+}
+
+const repairSystemPrompt = `
+You are an expert full-stack AI programmer fixing a failed deployment.
+You receive the current project as JSON, the deployment step that failed and its error output.
+
+**RULES:**
+- Make the smallest change that fixes the error; do not refactor or restyle working code
+- Return ONLY the files that must change, with their COMPLETE new contents in "code"
+- For missing or incompatible packages, fix requirements.txt or package.json rather than rewriting the code
+- Keep file keys exactly as they appear in the project (e.g. "/main.py", "requirements.txt")
+- Keep frontend and backend in sync: if an API changes, update both sides
+- Explain the cause of the error in "summary"
+`;
+
+/**
+ * Deployment Repair Function
+ * Asks the model for a minimal patch after a deployment step failed
+ */
+export async function generateDeploymentFix({
+  project,
+  step,
+  errorOutput,
+  previousAttempts,
+  modelIdentifier,
+  parameters,
+}: {
+  project: FullStackProject;
+  step: string;
+  errorOutput: string;
+  /** Summaries of earlier repair rounds that did not fix the step */
+  previousAttempts?: string[];
+  modelIdentifier: string;
+  parameters?: GenerationParameters;
+}) {
+  const history = previousAttempts?.length
+    ? `\n\nEarlier fixes that did not work:\n${previousAttempts.map((summary) => `- ${summary}`).join('\n')}`
+    : '';
+  const result = await trackUsage(
+    { operation: 'repair', modelIdentifier, template: project.template },
+    generateObject({
+      model: getModel(modelIdentifier),
+      schema: projectModificationSchema,
+      schemaName: 'ProjectModification',
+      schemaDescription:
+        'Minimal file changes that fix the failed deployment step',
+      system: repairSystemPrompt,
+      messages: [
+        {
+          role: 'user',
+          content: `Current project:\n${JSON.stringify(project, null, 2)}\n\nFailed step: ${step}\n\nError output:\n${errorOutput}${history}`,
+        },
+      ],
+      ...resolveGenerationParameters(modelIdentifier, parameters, {
+        temperature: 0.2,
+        maxTokens: 8192,
+      }).parameters,
+    }),
+  );
+  return result;
+}
+
+const agentSystemPrompt = `
+You are an expert full-stack engineer building an application directly inside a Linux sandbox.
+You have tools to write and read files, list directories, run shell commands, start services and send HTTP requests to them.
+
+**WORKFLOW:**
+1. Write the backend to /home/backend (FastAPI, requirements.txt, a GET /health endpoint) and the frontend to /home/frontend
+2. Install dependencies with runCommand (python3 -m pip install -r requirements.txt, npm install)
+3. Start the backend with startService on port 8000 and the frontend on port 3000, binding to 0.0.0.0
+4. Check the app with fetch; when something fails, read the error, fix the files and try again
+5. Stop once the app builds and its health check answers, and reply with a short summary of what you built
+
+**RULES:**
+- Always write complete files, never fragments
+- Keep commands non-interactive and short-running; use startService for anything that keeps running
+- Do not repeat a failing command without changing something first
+`;
+
+/**
+ * Sandbox Agent Function
+ * Lets the model build the app itself through sandbox tools, one tool round per step
+ */
+export function streamSandboxAgent<TOOLS extends ToolSet>({
+  prompt,
+  modelIdentifier,
+  template,
+  tools,
+  maxSteps,
+  parameters,
+  abortSignal,
+}: {
+  prompt: string;
+  modelIdentifier: string;
+  template?: string;
+  tools: TOOLS;
+  maxSteps: number;
+  parameters?: GenerationParameters;
+  abortSignal?: AbortSignal;
+}) {
+  const result = streamText({
     model: getModel(modelIdentifier),
-    system: systemPrompt,
-    messages: [{ role: "user", content: enhancedPrompt }],
-    temperature: 0.8,
-    maxTokens: 8048,
+    system: agentSystemPrompt,
+    messages: [
+      {
+        role: 'user',
+        content: template ? `${prompt}\n\nUse the ${template} stack.` : prompt,
+      },
+    ],
+    tools,
+    maxSteps,
+    ...resolveGenerationParameters(modelIdentifier, parameters, {
+      temperature: 0.2,
+      maxTokens: 8192,
+    }).parameters,
+    abortSignal,
   });
+  trackStreamUsage(
+    { operation: 'agent', modelIdentifier, template },
+    result.usage,
+  );
   return result;
 }
 
@@ -383,23 +882,30 @@ export async function generateFullStackCode({ prompt, modelIdentifier, template
  * Main Reusable Function
  * This function handles the core logic of calling the AI with custom messages
  */
-export async function generateChatResponse({ 
-  messages, 
-  modelIdentifier, 
-  systemPrompt: customSystemPrompt 
-}: { 
-  messages: any[]; 
+export async function generateChatResponse({
+  messages,
+  modelIdentifier,
+  systemPrompt: customSystemPrompt,
+  parameters,
+}: {
+  messages: any[];
   modelIdentifier: string;
   systemPrompt?: string;
+  parameters?: GenerationParameters;
 }) {
   // Call the AI using the Vercel AI SDK's generateText
-  const result = await generateText({
-    model: getModel(modelIdentifier), // Dynamically select the model
-    system: customSystemPrompt || systemPrompt,
-    messages,
-    temperature: 1,
-    maxTokens: 8192,
-  });
+  const result = await trackUsage(
+    { operation: 'chat', modelIdentifier },
+    generateText({
+      model: getModel(modelIdentifier), // Dynamically select the model
+      system: customSystemPrompt || resolveSystemPrompt().text,
+      messages,
+      ...resolveGenerationParameters(modelIdentifier, parameters, {
+        temperature: 1,
+        maxTokens: 8192,
+      }).parameters,
+    }),
+  );
 
   // Return the result object
   return result;
@@ -409,37 +915,33 @@ export async function generateChatResponse({
  * Streaming Text Generation
  * For real-time streaming responses
  */
-export async function generateStreamingResponse({ 
-  messages, 
-  modelIdentifier, 
-  systemPrompt: customSystemPrompt 
-}: { 
-  messages: any[]; 
+export function generateStreamingResponse({
+  messages,
+  modelIdentifier,
+  systemPrompt: customSystemPrompt,
+  parameters,
+}: {
+  messages: any[];
   modelIdentifier: string;
   systemPrompt?: string;
+  parameters?: GenerationParameters;
 }) {
-  const result = await streamText({
+  const result = streamText({
     model: getModel(modelIdentifier),
-    system: customSystemPrompt || systemPrompt,
+    system: customSystemPrompt || resolveSystemPrompt().text,
     messages,
-    temperature: 1,
-    maxTokens: 8192,
+    ...resolveGenerationParameters(modelIdentifier, parameters, {
+      temperature: 1,
+      maxTokens: 8192,
+    }).parameters,
   });
+  trackStreamUsage({ operation: 'chat', modelIdentifier }, result.usage);
 
   return result;
 }
 
-// Export supported models for reference
-export const supportedModels = [
-  "openai:gpt-4o-mini",
-  "openai:gpt-4o",
-  "openai:gpt-3.5-turbo",
-  "google:gemini-2.0-flash",
-  "google:gemini-1.5-flash-latest",
-  "google:gemini-1.5-pro-latest",
-  "openrouter:qwen/qwen3-coder",
-  "openrouter:meta-llama/llama-3-8b-instruct",
-];
+// Export supported models for reference (see model-catalog.ts for their capabilities)
+export const supportedModels = MODEL_CATALOG.map((model) => model.id);
 
 // Export model getter for external use
 export { getModel };
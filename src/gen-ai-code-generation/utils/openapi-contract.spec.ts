@@ -0,0 +1,102 @@
+import { BadRequestException } from '@nestjs/common';
+import { FullStackProject } from '../interfaces/project.interface';
+import { checkConformance, parseOpenApiDocument } from './openapi-contract';
+
+const document = {
+  openapi: '3.0.3',
+  info: { title: 'Todos', version: '1.0.0' },
+  paths: {
+    '/todos': {
+      get: { operationId: 'listTodos', responses: { '200': {} } },
+      post: { operationId: 'createTodo', responses: { '201': {}, '422': {} } },
+    },
+    '/todos/{todoId}': {
+      get: { responses: { '200': {}, '404': {} } },
+      patch: { responses: { '200': {} } },
+      delete: { responses: { '204': {} } },
+    },
+    '/tags': { get: { responses: { '200': {} } } },
+  },
+};
+
+function projectWithBackend(files: Record<string, string>): FullStackProject {
+  return {
+    code: {
+      backend: {
+        files: Object.fromEntries(
+          Object.entries(files).map(([path, code]) => [
+            path,
+            { purpose: '', code },
+          ]),
+        ),
+        dependencies: {},
+      },
+    },
+  } as unknown as FullStackProject;
+}
+
+describe('parseOpenApiDocument', () => {
+  it('accepts JSON strings and rejects other documents', () => {
+    expect(parseOpenApiDocument(JSON.stringify(document)).openapi).toBe(
+      '3.0.3',
+    );
+    expect(() => parseOpenApiDocument('openapi: 3.0.0')).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      parseOpenApiDocument({ swagger: '2.0', paths: {} } as never),
+    ).toThrow(BadRequestException);
+    expect(() => parseOpenApiDocument({ openapi: '3.1.0', paths: {} })).toThrow(
+      'openApiSpec declares no operations',
+    );
+  });
+});
+
+describe('checkConformance', () => {
+  it('reports missing operations and method, path and status differences', () => {
+    const project = projectWithBackend({
+      'main.py': [
+        'from fastapi import FastAPI',
+        'from routers import todos',
+        'app = FastAPI()',
+        'app.include_router(todos.router, prefix="/todos")',
+        '',
+        '@app.get("/api/tag")',
+        'def list_tags():',
+        '    return []',
+      ].join('\n'),
+      'routers/todos.py': [
+        'router = APIRouter()',
+        '',
+        '@router.get("/")',
+        'async def list_todos():',
+        '    return []',
+        '',
+        '@router.post("/")',
+        'async def create_todo(todo: TodoCreate):',
+        '    return todo',
+        '',
+        '@router.get("/{todo_id}")',
+        'async def get_todo(todo_id: str):',
+        '    raise HTTPException(status_code=404, detail="Not found")',
+        '',
+        '@router.put("/{todo_id}")',
+        'async def update_todo(todo_id: str):',
+        '    return {}',
+      ].join('\n'),
+    });
+
+    const report = checkConformance(parseOpenApiDocument(document), project);
+
+    expect(report.conforms).toBe(false);
+    expect(report.checkedOperations).toBe(6);
+    expect(
+      report.issues.map(({ operation, kind }) => `${kind} ${operation}`),
+    ).toEqual([
+      'status POST /todos',
+      'method PATCH /todos/{todoId}',
+      'missing DELETE /todos/{todoId}',
+      'path GET /tags',
+    ]);
+  });
+});
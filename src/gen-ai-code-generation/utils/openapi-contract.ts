@@ -0,0 +1,350 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  ConformanceIssue,
+  ConformanceReport,
+  ContractOperation,
+  FullStackProject,
+  OpenApiDocument,
+  OpenApiOperation,
+} from '../interfaces/project.interface';
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'patch',
+  'options',
+  'head',
+];
+
+/** FastAPI answers these itself, so handlers are not expected to raise them */
+const FRAMEWORK_STATUS_CODES = ['422', '500'];
+
+/**
+ * A route found in the generated FastAPI code
+ */
+export interface ImplementedRoute {
+  method: string;
+  path: string;
+  file: string;
+  /** 1-based line of the decorator */
+  line: number;
+  /** status_code of the decorator; FastAPI answers 200 when it is omitted */
+  statusCode: string;
+  /** Status codes the handler raises or returns explicitly */
+  raisedCodes: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Accept an OpenAPI 3 document as an object or JSON string, rejecting
+ * anything that is not one (Swagger 2, YAML, no paths)
+ */
+export function parseOpenApiDocument(
+  input: OpenApiDocument | string,
+): OpenApiDocument {
+  const maxChars = Number(process.env.OPENAPI_MAX_CHARS) || 100000;
+  let document: unknown = input;
+  if (typeof input === 'string') {
+    if (input.length > maxChars) {
+      throw new BadRequestException(
+        `openApiSpec is ${input.length} characters, the limit is ${maxChars} (OPENAPI_MAX_CHARS)`,
+      );
+    }
+    try {
+      document = JSON.parse(input);
+    } catch {
+      throw new BadRequestException(
+        'openApiSpec must be an OpenAPI 3 document as JSON (YAML is not supported)',
+      );
+    }
+  } else if (JSON.stringify(input ?? null).length > maxChars) {
+    throw new BadRequestException(
+      `openApiSpec is larger than ${maxChars} characters (OPENAPI_MAX_CHARS)`,
+    );
+  }
+
+  const candidate = document as OpenApiDocument;
+  if (
+    typeof candidate?.openapi !== 'string' ||
+    !candidate.openapi.startsWith('3.')
+  ) {
+    throw new BadRequestException(
+      'openApiSpec must declare "openapi": "3.x" (Swagger 2 documents are not supported)',
+    );
+  }
+  if (!isRecord(candidate.paths)) {
+    throw new BadRequestException('openApiSpec.paths must be an object');
+  }
+  if (listContractOperations(candidate).length === 0) {
+    throw new BadRequestException('openApiSpec declares no operations');
+  }
+  return candidate;
+}
+
+/**
+ * The operation under an HTTP method of a path item, or undefined when the
+ * document holds something other than an operation object there
+ */
+function readOperation(value: unknown): OpenApiOperation | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  return {
+    ...(typeof value.operationId === 'string' && {
+      operationId: value.operationId,
+    }),
+    ...(typeof value.summary === 'string' && { summary: value.summary }),
+    ...(isRecord(value.responses) && { responses: value.responses }),
+  };
+}
+
+export function listContractOperations(
+  document: OpenApiDocument,
+): ContractOperation[] {
+  return Object.entries(document.paths).flatMap(([path, item]) =>
+    Object.entries(isRecord(item) ? item : {}).flatMap(([method, value]) => {
+      const operation = readOperation(value);
+      if (!operation || !HTTP_METHODS.includes(method.toLowerCase())) {
+        return [];
+      }
+      return [
+        {
+          method: method.toUpperCase(),
+          path,
+          ...(operation.operationId && { operationId: operation.operationId }),
+          ...(operation.summary && { summary: operation.summary }),
+          statusCodes: Object.keys(operation.responses ?? {}).filter(
+            (code) => code !== 'default',
+          ),
+        },
+      ];
+    }),
+  );
+}
+
+function describeOperation(operation: ContractOperation): string {
+  return `${operation.method} ${operation.path}`;
+}
+
+/**
+ * Append the contract to the user's prompt: what to implement and the
+ * document itself for the request and response schemas
+ */
+export function appendApiContract(
+  prompt: string,
+  document: OpenApiDocument,
+): string {
+  const operations = listContractOperations(document);
+  return [
+    prompt,
+    '',
+    `API contract (OpenAPI ${document.openapi}${document.info?.title ? `, "${document.info.title}"` : ''}). Implement it exactly:`,
+    '- Every operation below is a FastAPI route with the same method and path (path parameters keep their names) and the first 2xx code as status_code; documented 4xx codes are raised with HTTPException.',
+    '- Every schema in components.schemas is a Pydantic model with the same name and fields, used as request body and response_model.',
+    '- apiEndpoints lists exactly these operations, and the frontend calls them with fetch using the same methods, paths and bodies.',
+    '- Add no other routes except GET /health.',
+    'Operations:',
+    ...operations.map(
+      (operation) =>
+        `- ${describeOperation(operation)}${operation.operationId ? ` (${operation.operationId})` : ''}: responses ${operation.statusCodes.join(', ') || 'none declared'}${operation.summary ? ` - ${operation.summary}` : ''}`,
+    ),
+    'OpenAPI document:',
+    JSON.stringify(document),
+  ].join('\n');
+}
+
+/** Path parameters are compared by position, not by name */
+export function normalizePath(path: string): string {
+  const normalized = path.trim().replace(/\{[^}]*\}/g, '{}');
+  return normalized.length > 1 ? normalized.replace(/\/+$/, '') : normalized;
+}
+
+function looseSegment(segment: string): string {
+  return segment.toLowerCase().replace(/[-_]/g, '').replace(/s$/, '');
+}
+
+/**
+ * Paths that only differ by a prefix, case, separators or plural
+ * (/api/todos vs /todos, /todo-items vs /todo_item)
+ */
+export function isSimilarPath(a: string, b: string): boolean {
+  const [shorter, longer] = [a, b]
+    .map((path) =>
+      normalizePath(path).split('/').filter(Boolean).map(looseSegment),
+    )
+    .sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) {
+    return false;
+  }
+  const tail = longer.slice(longer.length - shorter.length);
+  return shorter.every((segment, index) => segment === tail[index]);
+}
+
+function statusCodesIn(text: string): string[] {
+  const codes = [
+    ...text.matchAll(/status_code\s*=\s*(\d{3})/g),
+    ...text.matchAll(/HTTPException\(\s*(\d{3})/g),
+    ...text.matchAll(/status\.HTTP_(\d{3})_/g),
+  ].map((match) => match[1]);
+  return [...new Set(codes)];
+}
+
+function prefixIn(args: string): string {
+  return args.match(/prefix\s*=\s*["']([^"']*)["']/)?.[1] ?? '';
+}
+
+/**
+ * Read the routes out of the generated backend: @app/@router decorators,
+ * APIRouter(prefix=...) and include_router(..., prefix=...)
+ */
+export function extractFastApiRoutes(
+  project: FullStackProject,
+): ImplementedRoute[] {
+  const files = Object.entries(project.code?.backend?.files ?? {}).filter(
+    ([file]) => file.endsWith('.py'),
+  );
+
+  const includePrefixes = new Map<string, string>();
+  for (const [, { code }] of files) {
+    for (const match of code.matchAll(
+      /\.include_router\(\s*([\w.]+)([^)]*)\)/g,
+    )) {
+      includePrefixes.set(match[1], prefixIn(match[2]));
+    }
+  }
+
+  const routes: ImplementedRoute[] = [];
+  for (const [file, { code }] of files) {
+    const module = file.replace(/^.*\//, '').replace(/\.py$/, '');
+    const routerPrefixes = new Map<string, string>();
+    for (const match of code.matchAll(/^(\w+)\s*=\s*APIRouter\(([^)]*)\)/gm)) {
+      routerPrefixes.set(match[1], prefixIn(match[2]));
+    }
+
+    const decorators = code.matchAll(
+      /^[ \t]*@(\w+)\.(get|put|post|delete|patch|options|head)\(\s*(?:path\s*=\s*)?(["'])(.*?)\3/gm,
+    );
+    for (const match of decorators) {
+      const [, owner, method, , routePath] = match;
+      const rest = code.slice(match.index + match[0].length);
+      const found = rest.search(/^[ \t]*(?:async\s+)?def\s/m);
+      const definition = found >= 0 ? found : rest.length;
+      const nextDecorator = rest.search(/\n[ \t]*@/);
+      const decoratorArgs = rest.slice(
+        0,
+        nextDecorator >= 0 && nextDecorator < definition
+          ? nextDecorator
+          : definition,
+      );
+      const handler = rest.slice(definition).split(/\n(?=\S)/)[0];
+
+      const includePrefix =
+        [`${module}.${owner}`, `${module}_${owner}`, owner]
+          .map((name) => includePrefixes.get(name))
+          .find((prefix) => prefix !== undefined) ?? '';
+      routes.push({
+        method: method.toUpperCase(),
+        path: `${includePrefix}${routerPrefixes.get(owner) ?? ''}${routePath}`,
+        file,
+        line: code.slice(0, match.index).split('\n').length,
+        statusCode: statusCodesIn(decoratorArgs)[0] ?? '200',
+        raisedCodes: statusCodesIn(handler),
+      });
+    }
+  }
+  return routes;
+}
+
+/**
+ * Compare the spec operations with the routes of the generated backend.
+ * Routes the spec does not mention are ignored.
+ */
+export function checkConformance(
+  document: OpenApiDocument,
+  project: FullStackProject,
+): ConformanceReport {
+  const operations = listContractOperations(document);
+  const routes = extractFastApiRoutes(project);
+  const samePath = (route: ImplementedRoute, operation: ContractOperation) =>
+    normalizePath(route.path) === normalizePath(operation.path);
+  // Routes that implement some spec operation exactly cannot explain another one
+  const unclaimed = routes.filter(
+    (route) =>
+      !operations.some(
+        (operation) =>
+          route.method === operation.method && samePath(route, operation),
+      ),
+  );
+
+  const issues: ConformanceIssue[] = [];
+  for (const operation of operations) {
+    const label = describeOperation(operation);
+    const route = routes.find(
+      (candidate) =>
+        candidate.method === operation.method && samePath(candidate, operation),
+    );
+
+    if (route) {
+      const successCodes = operation.statusCodes.filter((code) =>
+        code.startsWith('2'),
+      );
+      if (successCodes.length > 0 && !successCodes.includes(route.statusCode)) {
+        issues.push({
+          operation: label,
+          kind: 'status',
+          message: `${route.file} responds ${route.statusCode}, the spec declares ${successCodes.join(', ')}`,
+        });
+      }
+      const missingErrors = operation.statusCodes.filter(
+        (code) =>
+          /^[45]/.test(code) &&
+          !FRAMEWORK_STATUS_CODES.includes(code) &&
+          !route.raisedCodes.includes(code),
+      );
+      if (missingErrors.length > 0) {
+        issues.push({
+          operation: label,
+          kind: 'status',
+          message: `${route.file} never responds ${missingErrors.join(', ')}`,
+        });
+      }
+      continue;
+    }
+
+    const otherMethod = unclaimed.find((candidate) =>
+      samePath(candidate, operation),
+    );
+    const otherPath = unclaimed.find(
+      (candidate) =>
+        candidate.method === operation.method &&
+        isSimilarPath(candidate.path, operation.path),
+    );
+    const near = otherMethod ?? otherPath;
+    if (!near) {
+      issues.push({
+        operation: label,
+        kind: 'missing',
+        message: 'No FastAPI route implements this operation',
+      });
+      continue;
+    }
+    // Each route explains at most one operation
+    unclaimed.splice(unclaimed.indexOf(near), 1);
+    issues.push({
+      operation: label,
+      kind: near === otherMethod ? 'method' : 'path',
+      message: `${near.file} implements it as ${near.method} ${near.path}`,
+    });
+  }
+
+  return {
+    conforms: issues.length === 0,
+    checkedOperations: operations.length,
+    issues,
+  };
+}
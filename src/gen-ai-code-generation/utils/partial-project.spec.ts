@@ -0,0 +1,53 @@
+import { findCompletedFiles } from './partial-project';
+
+describe('findCompletedFiles', () => {
+  it('holds back the file the model is still writing', () => {
+    const partial = {
+      projectName: 'Todo',
+      code: {
+        frontend: {
+          framework: 'next' as const,
+          files: {
+            '/app/layout.tsx': { purpose: 'Layout', code: 'export default 1' },
+            '/app/page.tsx': { purpose: 'Page', code: 'export defa' },
+          },
+        },
+      },
+    };
+
+    expect(findCompletedFiles(partial)).toEqual([
+      {
+        section: 'frontend',
+        path: '/app/layout.tsx',
+        file: { purpose: 'Layout', code: 'export default 1' },
+      },
+    ]);
+  });
+
+  it('releases the last file once the parser has moved past its section', () => {
+    const partial = {
+      code: {
+        frontend: {
+          files: {
+            '/app/page.tsx': { code: 'export default 2' },
+          },
+          dependencies: {},
+        },
+        backend: {
+          files: {
+            '/main.py': { purpose: 'API' },
+          },
+        },
+      },
+    };
+
+    expect(findCompletedFiles(partial)).toEqual([
+      {
+        section: 'frontend',
+        path: '/app/page.tsx',
+        file: { purpose: '', code: 'export default 2' },
+      },
+    ]);
+    expect(findCompletedFiles(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { DeepPartial } from 'ai';
+import {
+  FullStackProject,
+  ProjectFile,
+  ProjectSection,
+} from '../interfaces/project.interface';
+
+export interface CompletedFile {
+  section: ProjectSection;
+  path: string;
+  file: ProjectFile;
+}
+
+/**
+ * Whether the parser has moved past `key` in `parent`. Partial objects keep
+ * their keys in document order, so any key after `key` means it is finished.
+ */
+function isClosed(parent: object | undefined, key: string): boolean {
+  const keys = Object.keys(parent ?? {});
+  return keys.includes(key) && keys[keys.length - 1] !== key;
+}
+
+/**
+ * List the entries of code.frontend.files / code.backend.files in a partial
+ * FullStackProject whose contents can no longer change
+ */
+export function findCompletedFiles(
+  partial: DeepPartial<FullStackProject> | undefined,
+): CompletedFile[] {
+  const completed: CompletedFile[] = [];
+  const code = partial?.code;
+
+  for (const section of ['frontend', 'backend'] as ProjectSection[]) {
+    const files = code?.[section]?.files;
+    if (!files || typeof files !== 'object') {
+      continue;
+    }
+
+    const filesClosed =
+      isClosed(partial, 'code') ||
+      isClosed(code, section) ||
+      isClosed(code[section], 'files');
+    const paths = Object.keys(files);
+
+    paths.forEach((path, index) => {
+      const entry = files[path];
+      const entryClosed = filesClosed || index < paths.length - 1;
+      if (entryClosed && typeof entry?.code === 'string') {
+        completed.push({
+          section,
+          path,
+          file: { purpose: entry.purpose ?? '', code: entry.code },
+        });
+      }
+    });
+  }
+
+  return completed;
+}
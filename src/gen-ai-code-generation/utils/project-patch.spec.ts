@@ -0,0 +1,129 @@
+import { FullStackProject } from '../interfaces/project.interface';
+import { applyProjectPatch, diffFileContents } from './project-patch';
+
+describe('applyProjectPatch', () => {
+  const project: FullStackProject = {
+    projectName: 'Todo App',
+    projectDescription: 'Todos',
+    template: 'next+fastapi+mongodb',
+    code: {
+      frontend: {
+        framework: 'next',
+        files: {
+          '/app/page.tsx': {
+            purpose: 'Main page',
+            code: 'export default function Home() {}\n',
+          },
+          '/app/layout.tsx': {
+            purpose: 'Layout',
+            code: 'export default function RootLayout() {}\n',
+          },
+        },
+        dependencies: {
+          'package.json': { purpose: 'Packages', code: '{"name":"frontend"}' },
+        },
+      },
+      backend: {
+        framework: 'fastapi',
+        files: {
+          '/main.py': { purpose: 'API', code: 'app = FastAPI()\n' },
+        },
+        dependencies: {
+          'requirements.txt': {
+            purpose: 'Python dependencies',
+            code: 'fastapi==0.104.1',
+          },
+        },
+      },
+    },
+    projectStructure: { frontend: 'frontend/', backend: 'backend/' },
+    databaseSchema: { collections: [] },
+    apiEndpoints: [],
+  };
+
+  it('reports added, modified and deleted files and keeps the rest identical', () => {
+    const { project: merged, patch } = applyProjectPatch(project, {
+      changes: [
+        {
+          action: 'modify',
+          section: 'backend',
+          location: 'files',
+          path: '/main.py',
+          code: 'app = FastAPI(title="Todos")\n',
+        },
+        {
+          action: 'add',
+          section: 'frontend',
+          location: 'files',
+          path: '/app/todo.tsx',
+          purpose: 'Todo item',
+          code: 'export {}',
+        },
+        {
+          action: 'delete',
+          section: 'frontend',
+          location: 'files',
+          path: '/app/layout.tsx',
+        },
+      ],
+    });
+
+    expect(patch.added.map((entry) => entry.path)).toEqual(['/app/todo.tsx']);
+    expect(patch.modified.map((entry) => entry.path)).toEqual(['/main.py']);
+    expect(patch.deleted.map((entry) => entry.path)).toEqual([
+      '/app/layout.tsx',
+    ]);
+    expect(merged.code.frontend.files['/app/page.tsx'].code).toBe(
+      project.code.frontend.files['/app/page.tsx'].code,
+    );
+    expect(merged.code.backend.dependencies).toEqual(
+      project.code.backend.dependencies,
+    );
+  });
+
+  it('does not report a modification that leaves the contents unchanged', () => {
+    const { patch } = applyProjectPatch(project, {
+      changes: [
+        {
+          action: 'modify',
+          section: 'frontend',
+          location: 'dependencies',
+          path: 'package.json',
+          code: '{"name":"frontend"}',
+        },
+      ],
+    });
+
+    expect(patch).toEqual({ added: [], modified: [], deleted: [] });
+  });
+
+  it('leaves the original project untouched', () => {
+    applyProjectPatch(project, {
+      changes: [
+        {
+          action: 'delete',
+          section: 'backend',
+          location: 'files',
+          path: '/main.py',
+        },
+      ],
+    });
+
+    expect(project.code.backend.files['/main.py']).toBeDefined();
+  });
+});
+
+describe('diffFileContents', () => {
+  it('marks removed and added lines with context around the change', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g'].join('\n');
+    const after = ['a', 'b', 'c', 'D', 'e', 'f', 'g'].join('\n');
+
+    expect(diffFileContents(before, after, 1)).toBe(
+      ['@@', ' c', '-d', '+D', ' e', '@@'].join('\n'),
+    );
+  });
+
+  it('shows a new file as all additions', () => {
+    expect(diffFileContents('', 'x\ny')).toBe('+x\n+y');
+  });
+});
@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import {
+  FileLocation,
+  FilePatchEntry,
+  FullStackProject,
+  ProjectPatch,
+  ProjectSection,
+} from '../interfaces/project.interface';
+import {
+  apiEndpointSchema,
+  databaseCollectionSchema,
+} from '../interfaces/project.schema';
+
+/**
+ * A single file change proposed by the model
+ */
+export const fileChangeSchema = z.object({
+  action: z.enum(['add', 'modify', 'delete']),
+  section: z.enum(['frontend', 'backend']),
+  location: z
+    .enum(['files', 'dependencies'])
+    .describe(
+      '"files" for source files, "dependencies" for package.json / requirements.txt',
+    ),
+  path: z
+    .string()
+    .describe(
+      'Exact key of the file, e.g. "/app/page.tsx" or "requirements.txt"',
+    ),
+  purpose: z.string().optional(),
+  code: z
+    .string()
+    .optional()
+    .describe('Complete new file contents; required for add and modify'),
+});
+
+export const projectModificationSchema = z.object({
+  summary: z.string().describe('One or two sentences describing the change'),
+  changes: z
+    .array(fileChangeSchema)
+    .describe('Only files that must change; omit untouched files'),
+  apiEndpoints: z
+    .array(apiEndpointSchema)
+    .optional()
+    .describe('Complete updated endpoint list, only if endpoints changed'),
+  databaseCollections: z
+    .array(databaseCollectionSchema)
+    .optional()
+    .describe(
+      'Complete updated collection list, only if the database schema changed',
+    ),
+});
+
+export type FileChange = z.infer<typeof fileChangeSchema>;
+export type ProjectModification = z.infer<typeof projectModificationSchema>;
+
+/**
+ * Apply file changes to a copy of the project. Files that are not touched (or
+ * are "modified" to identical contents) keep their exact original strings.
+ */
+export function applyProjectPatch(
+  project: FullStackProject,
+  modification: Pick<
+    ProjectModification,
+    'changes' | 'apiEndpoints' | 'databaseCollections'
+  >,
+): { project: FullStackProject; patch: ProjectPatch } {
+  const merged: FullStackProject = structuredClone(project);
+  const patch: ProjectPatch = { added: [], modified: [], deleted: [] };
+
+  for (const change of modification.changes) {
+    const section = change.section as ProjectSection;
+    const location = change.location as FileLocation;
+    const target = merged.code[section][location];
+    const existing = target[change.path];
+
+    if (change.action === 'delete') {
+      if (existing) {
+        delete target[change.path];
+        patch.deleted.push({ section, location, path: change.path });
+      }
+      continue;
+    }
+
+    if (change.code === undefined) {
+      continue;
+    }
+
+    const file = {
+      purpose: change.purpose ?? existing?.purpose ?? '',
+      code: change.code,
+    };
+    const entry: FilePatchEntry = {
+      section,
+      location,
+      path: change.path,
+      ...file,
+    };
+
+    if (!existing) {
+      target[change.path] = file;
+      patch.added.push(entry);
+    } else if (existing.code !== change.code) {
+      target[change.path] = file;
+      patch.modified.push(entry);
+    }
+  }
+
+  if (modification.apiEndpoints) {
+    merged.apiEndpoints = modification.apiEndpoints;
+  }
+  if (modification.databaseCollections) {
+    merged.databaseSchema = { collections: modification.databaseCollections };
+  }
+
+  return { project: merged, patch };
+}
+
+/**
+ * Number of files touched by a patch
+ */
+export function countPatchedFiles(patch: ProjectPatch): number {
+  return patch.added.length + patch.modified.length + patch.deleted.length;
+}
+
+const MAX_DIFF_LINES = 2000;
+
+/**
+ * Line diff of two file versions in unified style ("-" removed, "+" added),
+ * keeping `context` unchanged lines around each change
+ */
+export function diffFileContents(
+  before: string,
+  after: string,
+  context = 2,
+): string {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  // Very large files are not worth an O(n*m) table; show them as replaced
+  if (a.length * b.length > MAX_DIFF_LINES * MAX_DIFF_LINES) {
+    return [
+      ...a.map((line) => `-${line}`),
+      ...b.map((line) => `+${line}`),
+    ].join('\n');
+  }
+
+  // Longest common subsequence lengths of the suffixes a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: { kind: ' ' | '-' | '+'; text: string }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ kind: ' ', text: a[i++] });
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      lines.push({ kind: '-', text: a[i++] });
+    } else {
+      lines.push({ kind: '+', text: b[j++] });
+    }
+  }
+
+  const changed = lines.map((line) => line.kind !== ' ');
+  const output: string[] = [];
+  let skipped = false;
+  lines.forEach((line, index) => {
+    const nearChange = changed
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(Boolean);
+    if (nearChange) {
+      output.push(`${line.kind}${line.text}`);
+      skipped = false;
+    } else if (!skipped) {
+      output.push('@@');
+      skipped = true;
+    }
+  });
+  return output.join('\n');
+}
+
+/**
+ * Per-file diffs of a patch against the project it was applied to
+ */
+export function describePatchDiffs(
+  original: FullStackProject,
+  patch: ProjectPatch,
+): { action: 'add' | 'modify' | 'delete'; file: string; diff: string }[] {
+  const describe = (
+    action: 'add' | 'modify' | 'delete',
+    entry: FilePatchEntry,
+  ) => {
+    const before =
+      original.code[entry.section][entry.location][entry.path]?.code ?? '';
+    const after = action === 'delete' ? '' : (entry.code ?? '');
+    return {
+      action,
+      file: `${entry.section}/${entry.path.replace(/^\//, '')}`,
+      diff: diffFileContents(before, after),
+    };
+  };
+
+  return [
+    ...patch.added.map((entry) => describe('add', entry)),
+    ...patch.modified.map((entry) => describe('modify', entry)),
+    ...patch.deleted.map((entry) => describe('delete', entry)),
+  ];
+}
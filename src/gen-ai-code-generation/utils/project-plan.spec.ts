@@ -0,0 +1,118 @@
+import {
+  assembleProject,
+  mapWithConcurrency,
+  PlannedFile,
+  plannedFileKey,
+  ProjectPlan,
+  scheduleFileWaves,
+} from './project-plan';
+
+function planned(
+  path: string,
+  dependsOn: string[] = [],
+  section: PlannedFile['section'] = 'frontend',
+  location: PlannedFile['location'] = 'files',
+): PlannedFile {
+  return { section, location, path, purpose: `${path} purpose`, dependsOn };
+}
+
+const paths = (waves: PlannedFile[][]) =>
+  waves.map((wave) => wave.map((file) => file.path));
+
+describe('project-plan', () => {
+  it('schedules files after the files they depend on', () => {
+    const waves = scheduleFileWaves([
+      planned('/app/page.tsx', ['/components/TodoList.tsx', '/lib/api.ts']),
+      planned('/components/TodoList.tsx', ['/lib/api.ts']),
+      planned('/lib/api.ts'),
+      planned('package.json', [], 'frontend', 'dependencies'),
+    ]);
+
+    expect(paths(waves)).toEqual([
+      ['/lib/api.ts', 'package.json'],
+      ['/components/TodoList.tsx'],
+      ['/app/page.tsx'],
+    ]);
+  });
+
+  it('ignores unknown and self dependencies and puts cycles in the last wave', () => {
+    const waves = scheduleFileWaves([
+      planned('/a.tsx', ['/b.tsx']),
+      planned('/b.tsx', ['/a.tsx']),
+      planned('/c.tsx', ['/c.tsx', '/not-planned.tsx']),
+    ]);
+
+    expect(paths(waves)).toEqual([['/c.tsx'], ['/a.tsx', '/b.tsx']]);
+    expect(scheduleFileWaves([])).toEqual([]);
+  });
+
+  it('assembles generated files into their sections and skips missing ones', () => {
+    const plan: ProjectPlan = {
+      projectName: 'Todo',
+      projectDescription: 'Todo list',
+      template: 'next+fastapi+mongodb',
+      frontendFramework: 'next',
+      files: [
+        planned('/app/page.tsx'),
+        planned('package.json', [], 'frontend', 'dependencies'),
+        planned('/main.py', [], 'backend'),
+        planned('requirements.txt', [], 'backend', 'dependencies'),
+      ],
+      apiEndpoints: [],
+      databaseSchema: { collections: [] },
+      projectStructure: { frontend: '/app', backend: '/main.py' },
+    };
+    const contents = new Map(
+      plan.files
+        .filter((file) => file.path !== 'requirements.txt')
+        .map((file) => [plannedFileKey(file), `// ${file.path}`]),
+    );
+
+    const project = assembleProject(plan, contents);
+
+    expect(project.code.frontend).toEqual({
+      framework: 'next',
+      files: {
+        '/app/page.tsx': {
+          purpose: '/app/page.tsx purpose',
+          code: '// /app/page.tsx',
+        },
+      },
+      dependencies: {
+        'package.json': {
+          purpose: 'package.json purpose',
+          code: '// package.json',
+        },
+      },
+    });
+    expect(project.code.backend).toEqual({
+      framework: 'fastapi',
+      files: {
+        '/main.py': { purpose: '/main.py purpose', code: '// /main.py' },
+      },
+      dependencies: {},
+    });
+  });
+
+  it('keeps order while running at most limit tasks at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 0, 5],
+      2,
+      async (delay) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return delay * 2;
+      },
+    );
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(maxRunning).toBe(2);
+    expect(await mapWithConcurrency([1], 0, (n) => Promise.resolve(n))).toEqual(
+      [1],
+    );
+  });
+});
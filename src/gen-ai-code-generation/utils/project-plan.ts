@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import {
+  FullStackProject,
+  ProjectFiles,
+} from '../interfaces/project.interface';
+import {
+  apiEndpointSchema,
+  databaseCollectionSchema,
+} from '../interfaces/project.schema';
+
+export const plannedFileSchema = z.object({
+  section: z.enum(['frontend', 'backend']),
+  location: z
+    .enum(['files', 'dependencies'])
+    .describe(
+      '"files" for source files, "dependencies" for package.json / requirements.txt',
+    ),
+  path: z
+    .string()
+    .describe(
+      'Source files use absolute paths ("/app/page.tsx", "/main.py"); dependency files use bare names ("package.json")',
+    ),
+  purpose: z.string().describe('What the file contains and exports'),
+  dependsOn: z
+    .array(z.string())
+    .describe(
+      'Paths of other planned files this file imports or must stay consistent with',
+    ),
+});
+
+/**
+ * First pass of multi-pass generation: everything except file contents
+ */
+export const projectPlanSchema = z.object({
+  projectName: z.string().min(1),
+  projectDescription: z.string(),
+  template: z.enum(['next+fastapi+mongodb', 'react+fastapi+mongodb']),
+  frontendFramework: z.enum(['react', 'next']),
+  files: z.array(plannedFileSchema).min(1),
+  apiEndpoints: z.array(apiEndpointSchema),
+  databaseSchema: z.object({
+    collections: z.array(databaseCollectionSchema),
+  }),
+  projectStructure: z.object({
+    frontend: z.string(),
+    backend: z.string(),
+  }),
+});
+
+export type PlannedFile = z.infer<typeof plannedFileSchema>;
+export type ProjectPlan = z.infer<typeof projectPlanSchema>;
+
+export function plannedFileKey(file: Pick<PlannedFile, 'section' | 'path'>) {
+  return `${file.section}:${file.path}`;
+}
+
+/**
+ * Group planned files into waves: every file only depends on files from
+ * earlier waves, so all files within one wave can be generated in parallel.
+ * Dependencies on unknown paths are ignored and cycles end up in the last wave.
+ */
+export function scheduleFileWaves(files: PlannedFile[]): PlannedFile[][] {
+  const byPath = new Map(files.map((file) => [file.path, file]));
+  const done = new Set<string>();
+  const waves: PlannedFile[][] = [];
+  let remaining = [...files];
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((file) =>
+      file.dependsOn.every(
+        (dependency) =>
+          dependency === file.path ||
+          !byPath.has(dependency) ||
+          done.has(dependency),
+      ),
+    );
+    const wave = ready.length > 0 ? ready : remaining;
+    waves.push(wave);
+    wave.forEach((file) => done.add(file.path));
+    remaining = remaining.filter((file) => !wave.includes(file));
+  }
+
+  return waves;
+}
+
+/**
+ * Build a FullStackProject from the plan and the generated file contents
+ */
+export function assembleProject(
+  plan: ProjectPlan,
+  contents: Map<string, string>,
+): FullStackProject {
+  const collect = (
+    section: PlannedFile['section'],
+    location: PlannedFile['location'],
+  ) => {
+    const files: ProjectFiles = {};
+    for (const file of plan.files) {
+      const code = contents.get(plannedFileKey(file));
+      if (
+        file.section === section &&
+        file.location === location &&
+        code !== undefined
+      ) {
+        files[file.path] = { purpose: file.purpose, code };
+      }
+    }
+    return files;
+  };
+
+  return {
+    projectName: plan.projectName,
+    projectDescription: plan.projectDescription,
+    template: plan.template,
+    code: {
+      frontend: {
+        framework: plan.frontendFramework,
+        files: collect('frontend', 'files'),
+        dependencies: collect('frontend', 'dependencies'),
+      },
+      backend: {
+        framework: 'fastapi',
+        files: collect('backend', 'files'),
+        dependencies: collect('backend', 'dependencies'),
+      },
+    },
+    projectStructure: plan.projectStructure,
+    databaseSchema: plan.databaseSchema,
+    apiEndpoints: plan.apiEndpoints,
+  };
+}
+
+/**
+ * Run `task` over `items` with at most `limit` calls in flight, keeping order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { validateFullStackProject } from '../interfaces/project.schema';
+import { salvageProject } from './project-salvage';
+
+const { rawResponse } = JSON.parse(
+  fs.readFileSync(
+    path.join(
+      __dirname,
+      '../../../generated-code/2025-08-21T06-31-53-385Z-ai-raw-response.json',
+    ),
+    'utf8',
+  ),
+) as { rawResponse: string };
+
+describe('salvageProject', () => {
+  it('keeps the complete entries of output cut off mid-file', () => {
+    const text = rawResponse.slice(0, rawResponse.indexOf('"/main.py"') + 200);
+
+    const { project, report } = salvageProject(text, 'next+fastapi+mongodb');
+
+    expect(validateFullStackProject(project).success).toBe(true);
+    expect(project.projectName).toBe('Todo App');
+    expect(Object.keys(project.code.frontend.files)).toEqual([
+      '/app/page.tsx',
+      '/app/layout.tsx',
+      '/app/globals.css',
+    ]);
+    expect(Object.keys(project.code.frontend.dependencies)).toEqual([
+      'package.json',
+    ]);
+    expect(report.recovered).toEqual({
+      files: 4,
+      apiEndpoints: 0,
+      collections: 0,
+    });
+    expect(report.unrecoverable).toEqual([
+      'code.backend.files./main.py',
+      'code.backend.dependencies',
+      'apiEndpoints',
+      'databaseSchema',
+      'projectStructure',
+    ]);
+    expect(
+      report.missingFiles.map(({ section, location, path }) =>
+        [section, location, path].join(' '),
+      ),
+    ).toEqual([
+      'backend files /main.py',
+      'backend dependencies requirements.txt',
+    ]);
+  });
+
+  it('skips garbled entries and recovers the ones after them', () => {
+    const layout = rawResponse.indexOf('"/app/layout.tsx"');
+    const layoutCode = rawResponse.indexOf('"code": "', layout);
+    const text = (
+      rawResponse.slice(0, layoutCode) +
+      '"code": oops' +
+      rawResponse.slice(layoutCode + 8)
+    ).replace('"method": "POST"', '"method": POST"');
+
+    const { project, report } = salvageProject(text);
+
+    expect(Object.keys(project.code.frontend.files)).toEqual([
+      '/app/page.tsx',
+      '/app/globals.css',
+    ]);
+    expect(project.apiEndpoints.map(({ method }) => method)).toEqual([
+      'GET',
+      'PUT',
+      'DELETE',
+    ]);
+    expect(project.databaseSchema.collections).toHaveLength(1);
+    expect(report.unrecoverable).toEqual([
+      'code.frontend.files./app/layout.tsx',
+      'apiEndpoints.1',
+    ]);
+    expect(report.missingFiles).toHaveLength(1);
+    expect(report.missingFiles[0]).toMatchObject({
+      section: 'frontend',
+      location: 'files',
+      path: '/app/layout.tsx',
+    });
+    expect(report.missingFiles[0].purpose).not.toBe('');
+  });
+});
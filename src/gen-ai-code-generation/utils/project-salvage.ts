@@ -0,0 +1,383 @@
+import { z } from 'zod';
+import {
+  ApiEndpoint,
+  CodeGenerationRequest,
+  DatabaseCollection,
+  FullStackProject,
+  MissingProjectFile,
+  ProjectFile,
+  ProjectFiles,
+  ProjectSection,
+  ProjectStructure,
+  SalvageReport,
+} from '../interfaces/project.interface';
+import {
+  apiEndpointSchema,
+  databaseCollectionSchema,
+  projectFileSchema,
+} from '../interfaces/project.schema';
+import { JsonRepairKind, parseTolerantJson } from './tolerant-json';
+
+type Template = NonNullable<CodeGenerationRequest['template']>;
+type FileLocation = MissingProjectFile['location'];
+
+export interface SalvagedProject {
+  project: FullStackProject;
+  report: SalvageReport;
+}
+
+/** Repairs showing a fragment ran into the end of the output */
+const CUT_OFF_REPAIRS: JsonRepairKind[] = [
+  'unterminated-string',
+  'unclosed-container',
+  'dropped-value',
+];
+
+const STRING = '"((?:[^"\\\\\\n]|\\\\.)*)"';
+/** A property holding an object, a file entry when its name looks like a path */
+const OBJECT_PROPERTY = `${STRING}\\s*:\\s*\\{`;
+const SECTION = '"(frontend|backend)"\\s*:\\s*\\{';
+const LOCATION = '"(files|dependencies)"\\s*:\\s*\\{';
+/** Where the next top-level property of a FullStackProject starts */
+const TOP_LEVEL =
+  '"(?:projectName|projectDescription|template|projectStructure|databaseSchema|apiEndpoints)"\\s*:|"code"\\s*:\\s*\\{';
+const UNKNOWN_PURPOSE =
+  'Purpose not recovered; infer it from the plan and the other files';
+
+/** Files a runnable project needs, reported missing when a location has none */
+const ESSENTIAL_FILES: Record<
+  ProjectSection,
+  Record<FileLocation, (template: Template) => [string, string][]>
+> = {
+  frontend: {
+    files: (template) =>
+      template.startsWith('next')
+        ? [
+            ['/app/layout.tsx', 'Root layout of the Next.js App Router'],
+            ['/app/page.tsx', 'Home page'],
+          ]
+        : [
+            ['/public/index.html', 'HTML page the React app mounts into'],
+            ['/src/index.js', 'Entry point rendering App'],
+            ['/src/App.js', 'Main application component'],
+          ],
+    dependencies: () => [['package.json', 'Frontend package configuration']],
+  },
+  backend: {
+    files: () => [['/main.py', 'FastAPI application']],
+    dependencies: () => [['requirements.txt', 'Python dependencies']],
+  },
+};
+
+function decodeString(literal: string): string | undefined {
+  try {
+    const value: unknown = JSON.parse(`"${literal}"`);
+    return typeof value === 'string' ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse the JSON value starting at offset. Undefined when it is malformed
+ * beyond repair or cut off by the end of the output.
+ */
+function readFragment(
+  text: string,
+  start: number,
+): { value: unknown; end: number } | undefined {
+  const fragment = text.slice(start);
+  try {
+    const { value, repairs } = parseTolerantJson(fragment);
+    if (repairs.some((repair) => CUT_OFF_REPAIRS.includes(repair.kind))) {
+      return undefined;
+    }
+    const rest = repairs.find(
+      (repair) => repair.kind === 'stripped-text' && repair.offset > 0,
+    );
+    return { value, end: start + (rest?.offset ?? fragment.length) };
+  } catch {
+    return undefined;
+  }
+}
+
+function findAll(text: string, pattern: string): RegExpExecArray[] {
+  return [...text.matchAll(new RegExp(pattern, 'g'))];
+}
+
+function readTopLevelString(text: string, key: string): string | undefined {
+  const match = text.match(new RegExp(`"${key}"\\s*:\\s*${STRING}`));
+  return match ? decodeString(match[1]) : undefined;
+}
+
+/** The text of the array under key, up to the next top-level property */
+function findArray(
+  text: string,
+  key: string,
+  after = 0,
+): { start: number; end: number } | undefined {
+  const pattern = new RegExp(`"${key}"\\s*:\\s*\\[`, 'g');
+  pattern.lastIndex = after;
+  const match = pattern.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const start = match.index + match[0].length;
+  const next = new RegExp(TOP_LEVEL, 'g');
+  next.lastIndex = start;
+  return { start, end: next.exec(text)?.index ?? text.length };
+}
+
+/**
+ * Complete, schema-valid objects in text between start and end. Items with
+ * nested objects name the keys they start with, so a nested object of an
+ * item that could not be read is not taken for another item.
+ */
+function scanItems<T>(
+  text: string,
+  range: { start: number; end: number },
+  schema: z.ZodType<T>,
+  firstKeys?: string[],
+): { items: T[]; failed: number[] } {
+  const items: T[] = [];
+  const failed: number[] = [];
+  const pattern = new RegExp(
+    firstKeys ? `\\{\\s*"(?:${firstKeys.join('|')})"\\s*:` : '\\{\\s*"',
+    'g',
+  );
+  pattern.lastIndex = range.start;
+  let skipUntil = range.start;
+
+  for (
+    let match = pattern.exec(text);
+    match && match.index < range.end;
+    match = pattern.exec(text)
+  ) {
+    // Objects nested in an item that was already recovered
+    if (match.index < skipUntil) {
+      continue;
+    }
+    const fragment = readFragment(text, match.index);
+    const parsed = fragment && schema.safeParse(fragment.value);
+    if (fragment && parsed?.success) {
+      items.push(parsed.data);
+      skipUntil = fragment.end;
+    } else {
+      failed.push(items.length + failed.length);
+    }
+  }
+  return { items, failed };
+}
+
+function describeTree(root: string, files: ProjectFiles[]): string {
+  const paths = files
+    .flatMap((group) => Object.keys(group))
+    .map((path) => path.replace(/^\//, ''))
+    .sort();
+  return [
+    `${root}/`,
+    ...paths.map(
+      (path, index) => `${index === paths.length - 1 ? '└──' : '├──'} ${path}`,
+    ),
+  ].join('\n');
+}
+
+/**
+ * Recover everything usable from model output that could not be parsed or
+ * validated as a whole: every complete file entry, API endpoint and database
+ * collection, plus the project name, description and structure when they can
+ * be read. Files that were cut off or garbled, and the essential files of a
+ * section with none, are reported as missing.
+ */
+export function salvageProject(
+  rawText: string,
+  requestedTemplate?: Template,
+): SalvagedProject {
+  const unrecoverable: string[] = [];
+  const missingFiles: MissingProjectFile[] = [];
+  const files: Record<ProjectSection, Record<FileLocation, ProjectFiles>> = {
+    frontend: { files: {}, dependencies: {} },
+    backend: { files: {}, dependencies: {} },
+  };
+
+  const sections = findAll(rawText, SECTION);
+  const locations = findAll(rawText, LOCATION);
+  const before = (markers: RegExpExecArray[], offset: number) =>
+    markers.filter((marker) => marker.index < offset).pop();
+
+  const failedFiles = new Map<string, MissingProjectFile>();
+  let skipUntil = 0;
+  let recoveredFiles = 0;
+  for (const match of findAll(rawText, OBJECT_PROPERTY)) {
+    const path = decodeString(match[1]);
+    if (!path || !/^\/|\.\w+$/.test(path) || match.index < skipUntil) {
+      continue;
+    }
+    const section = before(sections, match.index);
+    const location = before(locations, match.index);
+    const sectionName = (section?.[1] ??
+      (/\.py$|requirements\.txt$/.test(path)
+        ? 'backend'
+        : 'frontend')) as ProjectSection;
+    const locationName = (
+      location && (!section || location.index > section.index)
+        ? location[1]
+        : path.startsWith('/')
+          ? 'files'
+          : 'dependencies'
+    ) as FileLocation;
+
+    const brace = match.index + match[0].length - 1;
+    const fragment = readFragment(rawText, brace);
+    const parsed = fragment && projectFileSchema.safeParse(fragment.value);
+    const target = files[sectionName][locationName];
+    const key = `code.${sectionName}.${locationName}.${path}`;
+    if (fragment && parsed?.success) {
+      // Output repeated by continuations holds the same entry twice
+      if (!(path in target)) {
+        target[path] = parsed.data as ProjectFile;
+        recoveredFiles++;
+      }
+      failedFiles.delete(key);
+      skipUntil = fragment.end;
+    } else if (!(path in target) && !failedFiles.has(key)) {
+      const purpose = rawText
+        .slice(brace)
+        .match(new RegExp(`^\\{\\s*"purpose"\\s*:\\s*${STRING}`));
+      failedFiles.set(key, {
+        section: sectionName,
+        location: locationName,
+        path,
+        purpose: (purpose && decodeString(purpose[1])) || UNKNOWN_PURPOSE,
+      });
+    }
+  }
+  unrecoverable.push(...failedFiles.keys());
+  missingFiles.push(...failedFiles.values());
+
+  const template: Template = (() => {
+    const stated = readTopLevelString(rawText, 'template');
+    if (
+      stated === 'next+fastapi+mongodb' ||
+      stated === 'react+fastapi+mongodb'
+    ) {
+      return stated;
+    }
+    unrecoverable.push('template');
+    return requestedTemplate ?? 'react+fastapi+mongodb';
+  })();
+
+  for (const section of ['frontend', 'backend'] as ProjectSection[]) {
+    for (const location of ['files', 'dependencies'] as FileLocation[]) {
+      const known = missingFiles.some(
+        (file) => file.section === section && file.location === location,
+      );
+      if (Object.keys(files[section][location]).length === 0 && !known) {
+        unrecoverable.push(`code.${section}.${location}`);
+        for (const [path, purpose] of ESSENTIAL_FILES[section][location](
+          template,
+        )) {
+          missingFiles.push({ section, location, path, purpose });
+        }
+      }
+    }
+  }
+
+  let apiEndpoints: ApiEndpoint[] = [];
+  const endpointRange = findArray(rawText, 'apiEndpoints');
+  if (endpointRange) {
+    const { items, failed } = scanItems(
+      rawText,
+      endpointRange,
+      apiEndpointSchema,
+    );
+    apiEndpoints = items as ApiEndpoint[];
+    unrecoverable.push(...failed.map((index) => `apiEndpoints.${index}`));
+  } else {
+    unrecoverable.push('apiEndpoints');
+  }
+
+  let collections: DatabaseCollection[] = [];
+  const schemaStart = rawText.search(/"databaseSchema"\s*:\s*\{/);
+  const collectionRange =
+    schemaStart >= 0
+      ? findArray(rawText, 'collections', schemaStart)
+      : undefined;
+  if (collectionRange) {
+    const { items, failed } = scanItems(
+      rawText,
+      collectionRange,
+      databaseCollectionSchema,
+      ['name', 'purpose', 'schema'],
+    );
+    collections = items as DatabaseCollection[];
+    unrecoverable.push(
+      ...failed.map((index) => `databaseSchema.collections.${index}`),
+    );
+  } else {
+    unrecoverable.push('databaseSchema');
+  }
+
+  let projectStructure: ProjectStructure | undefined;
+  const structureStart = rawText.search(/"projectStructure"\s*:\s*\{/);
+  if (structureStart >= 0) {
+    const fragment = readFragment(
+      rawText,
+      rawText.indexOf('{', structureStart),
+    );
+    const parsed = z
+      .object({ frontend: z.string(), backend: z.string() })
+      .safeParse(fragment?.value);
+    projectStructure = parsed.success
+      ? (parsed.data as ProjectStructure)
+      : undefined;
+  }
+  if (!projectStructure) {
+    unrecoverable.push('projectStructure');
+    projectStructure = {
+      frontend: describeTree('frontend', Object.values(files.frontend)),
+      backend: describeTree('backend', Object.values(files.backend)),
+    };
+  }
+
+  const projectName = readTopLevelString(rawText, 'projectName');
+  const projectDescription = readTopLevelString(rawText, 'projectDescription');
+  if (!projectName) {
+    unrecoverable.push('projectName');
+  }
+  if (projectDescription === undefined) {
+    unrecoverable.push('projectDescription');
+  }
+
+  const framework = rawText.match(
+    /"frontend"\s*:\s*\{\s*"framework"\s*:\s*"(react|next)"/,
+  )?.[1] as 'react' | 'next' | undefined;
+
+  return {
+    project: {
+      projectName: projectName || 'Generated Project',
+      projectDescription: projectDescription ?? '',
+      template,
+      code: {
+        frontend: {
+          framework:
+            framework ?? (template.startsWith('next') ? 'next' : 'react'),
+          ...files.frontend,
+        },
+        backend: { framework: 'fastapi', ...files.backend },
+      },
+      projectStructure,
+      databaseSchema: { collections },
+      apiEndpoints,
+    },
+    report: {
+      recovered: {
+        files: recoveredFiles,
+        apiEndpoints: apiEndpoints.length,
+        collections: collections.length,
+      },
+      unrecoverable,
+      missingFiles,
+    },
+  };
+}
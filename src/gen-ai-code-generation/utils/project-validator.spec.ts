@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FullStackProject } from '../interfaces/project.interface';
+import { validateProjectStructure } from './project-validator';
+
+function loadProject(): FullStackProject {
+  return JSON.parse(
+    fs.readFileSync(
+      path.join(
+        __dirname,
+        '../../../generated-code/2025-08-21T06-31-53-388Z-parsed-project.json',
+      ),
+      'utf8',
+    ),
+  ) as FullStackProject;
+}
+
+describe('validateProjectStructure', () => {
+  it('passes a generated Next.js project', () => {
+    expect(validateProjectStructure(loadProject())).toEqual({
+      valid: true,
+      errors: 0,
+      warnings: 0,
+      diagnostics: [],
+    });
+  });
+
+  it('locates each problem by JSON path, file and line', () => {
+    const project = loadProject();
+    const { frontend, backend } = project.code;
+    project.template = 'react+fastapi+mongodb';
+    delete frontend.files['/app/layout.tsx'];
+    frontend.files['app//page.tsx'] = frontend.files['/app/page.tsx'];
+    frontend.files['/App/Globals.css'] = frontend.files['/app/globals.css'];
+    backend.files['/../secrets.py'] = { purpose: '', code: '' };
+    frontend.dependencies['package.json'].code = '{\n  "name": "todo",\n}';
+    backend.files['/main.py'].code = backend.files['/main.py'].code.replace(
+      /@app\.put\(/,
+      '@app.patch(',
+    );
+    project.apiEndpoints.push({
+      method: 'GET',
+      path: '/api/stats',
+      purpose: 'Todo counts',
+    });
+
+    const { valid, errors, warnings, diagnostics } =
+      validateProjectStructure(project);
+
+    expect({ valid, errors, warnings }).toEqual({
+      valid: false,
+      errors: 7,
+      warnings: 1,
+    });
+    const putIndex = project.apiEndpoints.findIndex(
+      ({ method }) => method === 'PUT',
+    );
+    const patchLine = backend.files['/main.py'].code
+      .slice(0, backend.files['/main.py'].code.indexOf('@app.patch('))
+      .split('\n').length;
+    expect(diagnostics).toMatchObject([
+      {
+        severity: 'error',
+        code: 'template-mismatch',
+        path: 'code.frontend.framework',
+      },
+      {
+        severity: 'error',
+        code: 'missing-entry-file',
+        path: 'code.frontend.files./app/layout.tsx',
+        file: '/app/layout.tsx',
+      },
+      {
+        severity: 'error',
+        code: 'invalid-package-json',
+        path: 'code.frontend.dependencies.package.json.code',
+        file: 'package.json',
+        line: 3,
+      },
+      {
+        severity: 'error',
+        code: 'duplicate-path',
+        path: 'code.frontend.files.app//page.tsx',
+        file: 'app//page.tsx',
+      },
+      {
+        severity: 'warning',
+        code: 'duplicate-path',
+        path: 'code.frontend.files./App/Globals.css',
+        file: '/App/Globals.css',
+      },
+      {
+        severity: 'error',
+        code: 'path-escapes-root',
+        path: 'code.backend.files./../secrets.py',
+        file: '/../secrets.py',
+      },
+      {
+        severity: 'error',
+        code: 'endpoint-mismatch',
+        path: `apiEndpoints.${putIndex}`,
+        file: '/main.py',
+        line: patchLine,
+      },
+      {
+        severity: 'error',
+        code: 'endpoint-missing',
+        path: `apiEndpoints.${project.apiEndpoints.length - 1}`,
+      },
+    ]);
+  });
+});
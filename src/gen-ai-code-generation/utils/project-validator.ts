@@ -0,0 +1,322 @@
+import { posix } from 'path';
+import {
+  FileLocation,
+  FullStackProject,
+  ProjectDiagnostic,
+  ProjectFiles,
+  ProjectSection,
+  ProjectValidationReport,
+} from '../interfaces/project.interface';
+import { validateFullStackProject } from '../interfaces/project.schema';
+import { typeCheckFrontend } from './frontend-typecheck';
+import {
+  extractFastApiRoutes,
+  isSimilarPath,
+  normalizePath,
+} from './openapi-contract';
+
+/**
+ * Files a project cannot start without, with the variants accepted in their
+ * place (other extensions, a src/ directory for the Next.js app directory)
+ */
+const ENTRY_FILES: Record<
+  FullStackProject['code']['frontend']['framework'],
+  { path: string; variants: string[] }[]
+> = {
+  next: [
+    {
+      path: '/app/layout.tsx',
+      variants: variantsOf(['/app/layout', '/src/app/layout']),
+    },
+    {
+      path: '/app/page.tsx',
+      variants: variantsOf(['/app/page', '/src/app/page']),
+    },
+  ],
+  react: [
+    { path: '/src/index.js', variants: variantsOf(['/src/index']) },
+    { path: '/public/index.html', variants: ['/public/index.html'] },
+  ],
+};
+
+const DEPENDENCY_FILES: Record<ProjectSection, string> = {
+  frontend: 'package.json',
+  backend: 'requirements.txt',
+};
+
+function variantsOf(stems: string[]): string[] {
+  return stems.flatMap((stem) =>
+    ['.tsx', '.jsx', '.js', '.ts'].map((extension) => stem + extension),
+  );
+}
+
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
+
+function filesOf(
+  project: FullStackProject,
+  section: ProjectSection,
+  location: FileLocation,
+): ProjectFiles {
+  const files = project.code?.[section]?.[location];
+  return files && typeof files === 'object' ? files : {};
+}
+
+function checkTemplate(project: FullStackProject): ProjectDiagnostic[] {
+  const framework = project.code?.frontend?.framework;
+  const expected = project.template?.startsWith('next') ? 'next' : 'react';
+  if (!framework || !project.template || framework === expected) {
+    return [];
+  }
+  return [
+    {
+      severity: 'error',
+      code: 'template-mismatch',
+      message: `Template ${project.template} needs a ${expected} frontend, the project declares ${framework}`,
+      path: 'code.frontend.framework',
+    },
+  ];
+}
+
+function checkEntryFiles(project: FullStackProject): ProjectDiagnostic[] {
+  const diagnostics: ProjectDiagnostic[] = [];
+  const missing = (
+    section: ProjectSection,
+    location: FileLocation,
+    path: string,
+    message: string,
+  ) =>
+    diagnostics.push({
+      severity: 'error',
+      code: 'missing-entry-file',
+      message,
+      path: `code.${section}.${location}.${path}`,
+      file: path,
+    });
+
+  const framework = project.code?.frontend?.framework;
+  const frontendFiles = filesOf(project, 'frontend', 'files');
+  for (const { path, variants } of (framework && ENTRY_FILES[framework]) ??
+    []) {
+    if (!variants.some((variant) => variant in frontendFiles)) {
+      const app = framework === 'next' ? 'Next.js' : 'React';
+      missing('frontend', 'files', path, `${app} app has no ${path}`);
+    }
+  }
+  if (!('/main.py' in filesOf(project, 'backend', 'files'))) {
+    missing(
+      'backend',
+      'files',
+      '/main.py',
+      'FastAPI app has no /main.py; the sandbox starts uvicorn main:app',
+    );
+  }
+
+  for (const [section, file] of Object.entries(DEPENDENCY_FILES) as [
+    ProjectSection,
+    string,
+  ][]) {
+    const entry = filesOf(project, section, 'dependencies')[file];
+    if (typeof entry?.code !== 'string') {
+      missing(section, 'dependencies', file, `${section} has no ${file}`);
+    }
+  }
+  return diagnostics;
+}
+
+function checkDependencyFiles(project: FullStackProject): ProjectDiagnostic[] {
+  const diagnostics: ProjectDiagnostic[] = [];
+  const packageJson = filesOf(project, 'frontend', 'dependencies')[
+    'package.json'
+  ]?.code;
+  if (typeof packageJson === 'string') {
+    try {
+      JSON.parse(packageJson);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      const position = error.message.match(/position (\d+)/);
+      diagnostics.push({
+        severity: 'error',
+        code: 'invalid-package-json',
+        message: `package.json is not valid JSON: ${error.message}`,
+        path: 'code.frontend.dependencies.package.json.code',
+        file: 'package.json',
+        ...(position && { line: lineAt(packageJson, Number(position[1])) }),
+      });
+    }
+  }
+
+  const requirements = filesOf(project, 'backend', 'dependencies')[
+    'requirements.txt'
+  ]?.code;
+  if (typeof requirements === 'string' && !requirements.trim()) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'empty-requirements',
+      message:
+        'requirements.txt is empty; fastapi and uvicorn will not install',
+      path: 'code.backend.dependencies.requirements.txt.code',
+      file: 'requirements.txt',
+    });
+  }
+  return diagnostics;
+}
+
+/**
+ * Files and dependencies of a section are written to the same directory,
+ * so paths are compared across both after resolving ./, // and \
+ */
+function checkPaths(project: FullStackProject): ProjectDiagnostic[] {
+  const diagnostics: ProjectDiagnostic[] = [];
+  for (const section of ['frontend', 'backend'] as ProjectSection[]) {
+    const seen = new Map<string, string>();
+    for (const location of ['files', 'dependencies'] as FileLocation[]) {
+      for (const path of Object.keys(filesOf(project, section, location))) {
+        const jsonPath = `code.${section}.${location}.${path}`;
+        const unixPath = path.replace(/\\/g, '/');
+        const depth = unixPath
+          .split('/')
+          .filter((segment) => segment && segment !== '.')
+          .reduce(
+            (depth, segment) =>
+              depth < 0 ? depth : depth + (segment === '..' ? -1 : 1),
+            0,
+          );
+        if (depth < 0 || /^(~|[a-zA-Z]:)/.test(unixPath)) {
+          diagnostics.push({
+            severity: 'error',
+            code: 'path-escapes-root',
+            message: `${path} resolves outside the ${section} directory`,
+            path: jsonPath,
+            file: path,
+          });
+          continue;
+        }
+
+        const resolved = posix.normalize(`/${unixPath}`);
+        const other = [...seen.entries()].find(
+          ([key]) => key.toLowerCase() === resolved.toLowerCase(),
+        );
+        if (other) {
+          const sameCase = other[0] === resolved;
+          diagnostics.push({
+            severity: sameCase ? 'error' : 'warning',
+            code: 'duplicate-path',
+            message: sameCase
+              ? `${path} is the same file as ${other[1]}; one overwrites the other`
+              : `${path} differs from ${other[1]} only by case, which clashes on case-insensitive file systems`,
+            path: jsonPath,
+            file: path,
+          });
+        } else {
+          seen.set(resolved, path);
+        }
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Declared apiEndpoints the FastAPI code does not serve. Routes found under
+ * another method or a similar path point at the decorator to fix.
+ */
+function checkEndpoints(project: FullStackProject): ProjectDiagnostic[] {
+  const backendFiles = Object.values(filesOf(project, 'backend', 'files'));
+  if (
+    !Array.isArray(project.apiEndpoints) ||
+    backendFiles.some((file) => typeof file?.code !== 'string')
+  ) {
+    return [];
+  }
+  const routes = extractFastApiRoutes(project);
+  const diagnostics: ProjectDiagnostic[] = [];
+  project.apiEndpoints.forEach((endpoint, index) => {
+    if (typeof endpoint?.path !== 'string') {
+      return;
+    }
+    const method = String(endpoint.method).toUpperCase();
+    const label = `${method} ${endpoint.path}`;
+    const samePath = routes.filter(
+      (route) => normalizePath(route.path) === normalizePath(endpoint.path),
+    );
+    if (samePath.some((route) => route.method === method)) {
+      return;
+    }
+    const near =
+      samePath[0] ??
+      routes.find(
+        (route) =>
+          route.method === method && isSimilarPath(route.path, endpoint.path),
+      );
+    diagnostics.push(
+      near
+        ? {
+            severity: 'error',
+            code: 'endpoint-mismatch',
+            message: `${label} is implemented as ${near.method} ${near.path}`,
+            path: `apiEndpoints.${index}`,
+            file: near.file,
+            line: near.line,
+          }
+        : {
+            severity: 'error',
+            code: 'endpoint-missing',
+            message: `No FastAPI route serves ${label}`,
+            path: `apiEndpoints.${index}`,
+          },
+    );
+  });
+  return diagnostics;
+}
+
+/**
+ * Check a project beyond its schema: entry files for its framework,
+ * dependency files, duplicate and escaping paths, template and framework
+ * agreement, and declared API endpoints against the backend routes. With
+ * typeCheck, the frontend files are also compiled (see typeCheckFrontend).
+ */
+export function validateProjectStructure(
+  project: FullStackProject,
+  options: { typeCheck?: boolean } = {},
+): ProjectValidationReport {
+  const diagnostics: ProjectDiagnostic[] = [];
+  const schema = validateFullStackProject(project);
+  if (!schema.success) {
+    diagnostics.push(
+      ...schema.issues.map(
+        (issue): ProjectDiagnostic => ({
+          severity: 'error',
+          code: 'schema',
+          message: issue.message,
+          path: issue.path,
+        }),
+      ),
+    );
+  }
+
+  // A partial project is still checked as far as it goes
+  if (project && typeof project === 'object') {
+    diagnostics.push(
+      ...checkTemplate(project),
+      ...checkEntryFiles(project),
+      ...checkDependencyFiles(project),
+      ...checkPaths(project),
+      ...checkEndpoints(project),
+      ...(options.typeCheck ? typeCheckFrontend(project) : []),
+    );
+  }
+
+  const errors = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error',
+  ).length;
+  return {
+    valid: errors === 0,
+    errors,
+    warnings: diagnostics.length - errors,
+    diagnostics,
+  };
+}
@@ -0,0 +1,136 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { listPromptVersions, resolveSystemPrompt } from './prompt-registry';
+
+const promptFiles: Record<string, string> = {
+  'default/v1.md': 'Default prompt for {{template}}.\n',
+  'next+fastapi+mongodb/v1.md': 'Old {{framework}} prompt.\n',
+  'next+fastapi+mongodb/v2.md':
+    'Build with {{framework}} and {{ styling }}.\n{{> shared/rules}}\nKeep {{unknown}}.\n',
+  'next+fastapi+mongodb/v10.md': 'Newest prompt.\n',
+  'next+fastapi+mongodb/notes.md': 'Not a version.\n',
+  'shared/rules.md': 'Rules for {{database}}:\n{{> shared/json}}\n\n',
+  'shared/json.md': 'Reply with JSON only.\n',
+  'loop/v1.md': '{{> shared/loop}}\n',
+  'shared/loop.md': '{{> shared/loop}}\n',
+  'missing/v1.md': '{{> shared/absent}}\n',
+};
+
+describe('prompt-registry', () => {
+  const env = {
+    PROMPTS_DIR: process.env.PROMPTS_DIR,
+    PROMPT_VERSION: process.env.PROMPT_VERSION,
+  };
+  let promptsDir: string;
+
+  beforeAll(() => {
+    promptsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+    for (const [file, text] of Object.entries(promptFiles)) {
+      fs.mkdirSync(path.dirname(path.join(promptsDir, file)), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(promptsDir, file), text);
+    }
+  });
+
+  beforeEach(() => {
+    process.env.PROMPTS_DIR = promptsDir;
+    delete process.env.PROMPT_VERSION;
+  });
+
+  afterAll(() => {
+    fs.rmSync(promptsDir, { recursive: true, force: true });
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it('lists versions in numeric order and defaults to the newest', () => {
+    expect(
+      listPromptVersions().find(
+        ({ template }) => template === 'next+fastapi+mongodb',
+      ),
+    ).toEqual({
+      template: 'next+fastapi+mongodb',
+      versions: ['v1', 'v2', 'v10'],
+      defaultVersion: 'v10',
+    });
+    expect(
+      resolveSystemPrompt({ template: 'next+fastapi+mongodb' }).version,
+    ).toBe('v10');
+
+    process.env.PROMPT_VERSION = 'v1';
+    expect(resolveSystemPrompt({ template: 'next+fastapi+mongodb' }).text).toBe(
+      'Old Next.js 14 (App Router) prompt.\n',
+    );
+
+    process.env.PROMPT_VERSION = 'v9';
+    expect(
+      resolveSystemPrompt({ template: 'next+fastapi+mongodb' }).version,
+    ).toBe('v10');
+  });
+
+  it('expands includes and fills variables, keeping unknown placeholders', () => {
+    const prompt = resolveSystemPrompt({
+      template: 'next+fastapi+mongodb',
+      version: 'v2',
+      variables: { styling: 'CSS modules' },
+    });
+
+    expect(prompt.text).toBe(
+      'Build with Next.js 14 (App Router) and CSS modules.\nRules for MongoDB:\nReply with JSON only.\nKeep {{unknown}}.\n',
+    );
+    expect(prompt.variables).toMatchObject({
+      template: 'next+fastapi+mongodb',
+      styling: 'CSS modules',
+      database: 'MongoDB',
+    });
+  });
+
+  it('falls back to the default prompts for templates without their own', () => {
+    expect(resolveSystemPrompt()).toMatchObject({
+      template: 'default',
+      version: 'v1',
+      text: 'Default prompt for full-stack.\n',
+    });
+    expect(
+      resolveSystemPrompt({ template: 'react+fastapi+mongodb' }),
+    ).toMatchObject({
+      template: 'default',
+      text: 'Default prompt for react+fastapi+mongodb.\n',
+      variables: { framework: 'React (Create React App)' },
+    });
+  });
+
+  it('rejects unknown versions and broken includes', () => {
+    let error: unknown;
+    try {
+      resolveSystemPrompt({ template: 'next+fastapi+mongodb', version: 'v3' });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(BadRequestException);
+    expect((error as Error).message).toBe(
+      'Unknown prompt version "v3" for template "next+fastapi+mongodb". Available: v1, v2, v10',
+    );
+
+    expect(() => resolveSystemPrompt({ template: 'loop' })).toThrow(
+      'Prompt includes nested too deeply at "shared/loop"',
+    );
+    expect(() => resolveSystemPrompt({ template: 'missing' })).toThrow(
+      'Prompt fragment "shared/absent" not found',
+    );
+
+    process.env.PROMPTS_DIR = path.join(promptsDir, 'absent');
+    expect(listPromptVersions()).toEqual([]);
+    expect(() => resolveSystemPrompt()).toThrow(
+      'No system prompts found for "default"',
+    );
+  });
+});
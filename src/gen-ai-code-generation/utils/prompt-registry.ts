@@ -0,0 +1,161 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Versioned system prompts stored as files, one directory per project template:
+ *
+ *   prompts/<template>/v1.md, v2.md, ...   (prompts/default/ when no template is given)
+ *   prompts/shared/<name>.md               (fragments included with {{> shared/<name>}})
+ *
+ * Prompts are read on every request, so they can be changed without a deploy.
+ * {{name}} placeholders are filled from the template defaults below and the
+ * per-request promptVariables.
+ */
+export interface ResolvedPrompt {
+  template: string;
+  version: string;
+  variables: Record<string, string>;
+  text: string;
+}
+
+export interface PromptVersions {
+  template: string;
+  versions: string[];
+  defaultVersion: string;
+}
+
+const DEFAULT_TEMPLATE = 'default';
+
+const TEMPLATE_VARIABLES: Record<string, Record<string, string>> = {
+  'next+fastapi+mongodb': {
+    framework: 'Next.js 14 (App Router)',
+    styling: 'Tailwind CSS',
+    database: 'MongoDB',
+  },
+  'react+fastapi+mongodb': {
+    framework: 'React (Create React App)',
+    styling: 'Tailwind CSS',
+    database: 'MongoDB',
+  },
+  [DEFAULT_TEMPLATE]: {
+    framework: 'Next.js or React',
+    styling: 'Tailwind CSS',
+    database: 'MongoDB',
+  },
+};
+
+const MAX_INCLUDE_DEPTH = 5;
+
+export function getPromptsDir(): string {
+  return process.env.PROMPTS_DIR || path.join(process.cwd(), 'prompts');
+}
+
+function versionNumber(version: string): number {
+  return Number(version.replace(/^v/, '')) || 0;
+}
+
+function listVersions(template: string): string[] {
+  const dir = path.join(getPromptsDir(), template);
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .filter((file) => /^v\d+\.md$/.test(file))
+    .map((file) => file.replace(/\.md$/, ''))
+    .sort((a, b) => versionNumber(a) - versionNumber(b));
+}
+
+function defaultVersion(versions: string[]): string {
+  const configured = process.env.PROMPT_VERSION;
+  return configured && versions.includes(configured)
+    ? configured
+    : versions[versions.length - 1];
+}
+
+export function listPromptVersions(): PromptVersions[] {
+  const dir = getPromptsDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs
+    .readdirSync(dir)
+    .map((template) => ({ template, versions: listVersions(template) }))
+    .filter(({ versions }) => versions.length > 0)
+    .map(({ template, versions }) => ({
+      template,
+      versions,
+      defaultVersion: defaultVersion(versions),
+    }));
+}
+
+function expandIncludes(text: string, depth = 0): string {
+  return text.replace(/\{\{>\s*([\w\-/]+)\s*\}\}/g, (_, name: string) => {
+    if (depth >= MAX_INCLUDE_DEPTH) {
+      throw new Error(`Prompt includes nested too deeply at "${name}"`);
+    }
+    const file = path.join(getPromptsDir(), `${name}.md`);
+    if (!fs.existsSync(file)) {
+      throw new Error(
+        `Prompt fragment "${name}" not found in ${getPromptsDir()}`,
+      );
+    }
+    return expandIncludes(
+      fs.readFileSync(file, 'utf8').replace(/\n+$/, ''),
+      depth + 1,
+    );
+  });
+}
+
+/**
+ * Load and render the system prompt for a template. Unknown versions are
+ * rejected with a 400, since they come from the request.
+ */
+export function resolveSystemPrompt({
+  template,
+  version,
+  variables,
+}: {
+  template?: string;
+  version?: string;
+  variables?: Record<string, string>;
+} = {}): ResolvedPrompt {
+  const promptTemplate =
+    template && listVersions(template).length > 0 ? template : DEFAULT_TEMPLATE;
+  const versions = listVersions(promptTemplate);
+  if (versions.length === 0) {
+    throw new Error(
+      `No system prompts found for "${promptTemplate}" in ${getPromptsDir()}`,
+    );
+  }
+
+  const selected = version ?? defaultVersion(versions);
+  if (!versions.includes(selected)) {
+    throw new BadRequestException(
+      `Unknown prompt version "${selected}" for template "${promptTemplate}". Available: ${versions.join(', ')}`,
+    );
+  }
+
+  const mergedVariables: Record<string, string> = {
+    ...TEMPLATE_VARIABLES[promptTemplate],
+    ...(template && TEMPLATE_VARIABLES[template]),
+    template: template ?? 'full-stack',
+    ...variables,
+  };
+  const source = fs.readFileSync(
+    path.join(getPromptsDir(), promptTemplate, `${selected}.md`),
+    'utf8',
+  );
+  const text = expandIncludes(source).replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (placeholder, name: string) => mergedVariables[name] ?? placeholder,
+  );
+
+  return {
+    template: promptTemplate,
+    version: selected,
+    variables: mergedVariables,
+    text,
+  };
+}
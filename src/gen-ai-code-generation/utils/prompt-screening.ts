@@ -0,0 +1,194 @@
+import { BadRequestException } from '@nestjs/common';
+
+export type ScreeningCategory =
+  | 'length'
+  | 'blocked-topic'
+  | 'exfiltration'
+  | 'crypto-mining'
+  | 'prompt-injection';
+
+export interface ScreeningViolation {
+  rule: string;
+  category: ScreeningCategory;
+  reason: string;
+  /** The text that matched, shortened */
+  excerpt?: string;
+}
+
+export interface ScreeningResult {
+  allowed: boolean;
+  /** "monitor" reports violations without blocking */
+  mode: 'enforce' | 'monitor';
+  violations: ScreeningViolation[];
+}
+
+interface ScreeningRule {
+  rule: string;
+  category: ScreeningCategory;
+  reason: string;
+  pattern: RegExp;
+}
+
+/**
+ * Rejection returned to the client, listing every rule the prompt broke
+ */
+export class PromptRejectedException extends BadRequestException {
+  constructor(readonly violations: ScreeningViolation[]) {
+    super({
+      message: 'Prompt rejected by screening',
+      reasons: violations.map(({ rule, category, reason }) => ({
+        rule,
+        category,
+        reason,
+      })),
+    });
+  }
+}
+
+/** Matches when a and b occur in the same sentence, in either order */
+function near(a: string, b: string): RegExp {
+  return new RegExp(
+    `(?:${a})[^.\\n]{0,100}(?:${b})|(?:${b})[^.\\n]{0,100}(?:${a})`,
+    'i',
+  );
+}
+
+const SEND =
+  '\\b(?:send|post|upload|forward|exfiltrate|transmit|leak|beacon)(?:s|ed|ing)?\\b';
+const SECRETS =
+  '\\benv(?:ironment)?(?:\\s+|_)?var(?:iable)?s?\\b|os\\.environ|process\\.env|\\.env\\b|\\bapi[\\s_-]?keys?\\b|\\bsecrets?\\b|\\bcredentials\\b|\\baccess[\\s_-]?tokens?\\b';
+const OUTBOUND =
+  '\\bwebhook|https?://|\\b(?:external|remote|third[\\s-]party|attacker|my own|another)\\s+(?:server|host|url|endpoint|domain|machine)|\\bpastebin|\\brequestbin|\\bngrok|\\bdiscord|\\btelegram';
+
+const BUILT_IN_RULES: ScreeningRule[] = [
+  {
+    rule: 'exfiltrate-secrets',
+    category: 'exfiltration',
+    reason: 'Sends environment variables or secrets to an outside destination',
+    // A send verb, then the secrets, then "to <outside target>": storing API
+    // keys or calling an https:// API with one is not enough
+    pattern: new RegExp(
+      `(?:${SEND})[^.\\n]{0,60}(?:${SECRETS})[^.\\n]{0,60}\\b(?:to|into|via)\\b[^.\\n]{0,40}(?:${OUTBOUND})`,
+      'i',
+    ),
+  },
+  {
+    rule: 'expose-environment',
+    category: 'exfiltration',
+    reason: 'Exposes the environment variables of the server',
+    pattern: near(
+      '\\b(?:returns?|expose[sd]?|dumps?|leaks?|prints?|lists?)\\b',
+      '\\ball\\s+(?:the\\s+)?(?:env(?:ironment)?\\s+var(?:iable)?s|secrets)|os\\.environ\\b(?!\\.get|\\[)|process\\.env\\b(?!\\.)',
+    ),
+  },
+  {
+    rule: 'crypto-miner',
+    category: 'crypto-mining',
+    reason: 'Runs a cryptocurrency miner',
+    pattern:
+      /\b(?:xmrig|cpuminer|cryptonight|coinhive|nicehash|minergate|stratum\+tcp)\b/i,
+  },
+  {
+    rule: 'mine-coins',
+    category: 'crypto-mining',
+    reason: 'Runs a cryptocurrency miner',
+    // Only cryptocurrencies: "mine gold coins" or "data mining" is fine
+    pattern:
+      /\b(?:mine|mines|mining|miners?)\s+(?:for\s+|some\s+)?(?:crypto(?:currency|currencies)?|bitcoins?|btc|monero|xmr|ethereum|eth|litecoin|dogecoin)\b|\b(?:crypto(?:currency)?|bitcoin|btc|monero|xmr|ethereum|eth|litecoin|dogecoin)\s+(?:mining|miners?)\b|\bmining\b[^.\n]{0,60}\bhash\s*rate\b/i,
+  },
+  {
+    rule: 'override-instructions',
+    category: 'prompt-injection',
+    reason: 'Tries to override the system instructions',
+    pattern:
+      /\b(?:ignore|disregard|forget)\s+(?:all\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|system)\s+(?:instructions|prompts?|rules)\b|\breveal\s+(?:your|the)\s+system\s+prompt\b/i,
+  },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * BLOCKED_TOPICS is a comma-separated list of phrases (matched as whole
+ * words, case-insensitive) or /regular expressions/
+ */
+function blockedTopicRules(): ScreeningRule[] {
+  return (process.env.BLOCKED_TOPICS ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const literal = entry.match(/^\/(.+)\/([a-z]*)$/);
+      let pattern: RegExp;
+      try {
+        pattern = literal
+          ? new RegExp(
+              literal[1],
+              literal[2].includes('i') ? literal[2] : `${literal[2]}i`,
+            )
+          : new RegExp(`\\b${escapeRegExp(entry)}\\b`, 'i');
+      } catch {
+        pattern = new RegExp(escapeRegExp(entry), 'i');
+      }
+      return {
+        rule: `blocked-topic:${entry}`,
+        category: 'blocked-topic' as const,
+        reason: 'Mentions a topic this service does not generate code for',
+        pattern,
+      };
+    });
+}
+
+function shorten(text: string): string {
+  const oneLine = text.replace(/\s+/g, ' ').trim();
+  return oneLine.length > 80 ? `${oneLine.slice(0, 77)}...` : oneLine;
+}
+
+/**
+ * Check a prompt, plus any other user text sent with it, against the length
+ * limit (MAX_PROMPT_LENGTH), BLOCKED_TOPICS and the built-in rules.
+ * PROMPT_SCREENING=monitor reports violations without blocking, "off" skips
+ * the content rules.
+ */
+export function screenPrompt(
+  prompt: string,
+  extraText: string[] = [],
+): ScreeningResult {
+  const setting = (process.env.PROMPT_SCREENING ?? 'enforce').toLowerCase();
+  const mode = setting === 'monitor' ? 'monitor' : 'enforce';
+  const maxLength = Number(process.env.MAX_PROMPT_LENGTH) || 5000;
+  const violations: ScreeningViolation[] = [];
+
+  if ((prompt ?? '').length > maxLength) {
+    violations.push({
+      rule: 'max-length',
+      category: 'length',
+      reason: `Prompt is ${prompt.length} characters, the limit is ${maxLength} (MAX_PROMPT_LENGTH)`,
+    });
+  }
+
+  if (setting !== 'off') {
+    const text = [prompt ?? '', ...extraText].join('\n');
+    for (const rule of [...blockedTopicRules(), ...BUILT_IN_RULES]) {
+      const match = text.match(rule.pattern);
+      if (match) {
+        violations.push({
+          rule: rule.rule,
+          category: rule.category,
+          reason: rule.reason,
+          excerpt: shorten(match[0]),
+        });
+      }
+    }
+  }
+
+  return {
+    // The length limit is enforced in both modes
+    allowed: violations.every(
+      (violation) => mode === 'monitor' && violation.category !== 'length',
+    ),
+    mode,
+    violations,
+  };
+}
@@ -0,0 +1,122 @@
+import { APICallError, NoObjectGeneratedError } from 'ai';
+import {
+  callWithRetries,
+  classifyProviderError,
+  ProviderError,
+  retryDelay,
+} from './provider-errors';
+
+function apiError(
+  statusCode: number | undefined,
+  responseHeaders?: Record<string, string>,
+  responseBody?: string,
+) {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://provider.example/v1',
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+    responseBody,
+  });
+}
+
+describe('classifyProviderError', () => {
+  it('maps provider responses to error codes and reads the retry delay', () => {
+    expect(
+      classifyProviderError(apiError(429, { 'Retry-After': '7' })),
+    ).toEqual({
+      code: 'rate_limit',
+      retryable: true,
+      statusCode: 429,
+      retryAfterMs: 7000,
+    });
+    expect(
+      classifyProviderError(
+        apiError(
+          400,
+          {},
+          '{"error":{"status":"RESOURCE_EXHAUSTED","details":[{"retryDelay":"17s"}]}}',
+        ),
+      ),
+    ).toMatchObject({ code: 'rate_limit', retryAfterMs: 17000 });
+    expect(classifyProviderError(apiError(529))?.code).toBe('overloaded');
+    expect(classifyProviderError(apiError(504))?.code).toBe('timeout');
+    expect(classifyProviderError(apiError(401))).toMatchObject({
+      code: 'auth',
+      retryable: false,
+    });
+    expect(classifyProviderError(apiError(422))?.code).toBe('bad_request');
+    const timedOut = Object.assign(new Error('connect ETIMEDOUT'), {
+      code: 'ETIMEDOUT',
+    });
+    expect(
+      classifyProviderError(
+        new APICallError({
+          message: 'Cannot connect to API',
+          url: 'https://provider.example/v1',
+          requestBodyValues: {},
+          cause: timedOut,
+        }),
+      )?.code,
+    ).toBe('timeout');
+    expect(classifyProviderError(timedOut)?.code).toBe('timeout');
+    expect(classifyProviderError({ code: 'ETIMEDOUT' })).toBeUndefined();
+    expect(
+      classifyProviderError(
+        new NoObjectGeneratedError({
+          message: 'no object',
+          response: { id: '1', timestamp: new Date(), modelId: 'm' },
+          usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+          finishReason: 'stop',
+        }),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe('callWithRetries', () => {
+  const policy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50 };
+
+  it('retries transient failures and gives up with a typed error', async () => {
+    const flaky = jest
+      .fn()
+      .mockRejectedValueOnce(apiError(503))
+      .mockResolvedValueOnce('ok');
+    await expect(
+      callWithRetries('openai:gpt-4o', flaky, undefined, policy),
+    ).resolves.toBe('ok');
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const limited = jest.fn().mockRejectedValue(apiError(429));
+    const error = (await callWithRetries(
+      'openai:gpt-4o',
+      limited,
+      undefined,
+      policy,
+    ).catch((e: unknown) => e)) as ProviderError;
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.getStatus()).toBe(429);
+    expect(error.attempts).toBe(3);
+
+    // A Retry-After beyond maxDelayMs fails at once, as does a bad request
+    for (const failure of [
+      apiError(429, { 'retry-after': '60' }),
+      apiError(400),
+    ]) {
+      const once = jest.fn().mockRejectedValue(failure);
+      await expect(
+        callWithRetries('openai:gpt-4o', once, undefined, policy),
+      ).rejects.toBeInstanceOf(ProviderError);
+      expect(once).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('backs off exponentially with jitter', () => {
+    const backoff = { maxRetries: 5, baseDelayMs: 1000, maxDelayMs: 30000 };
+    expect(retryDelay(0, backoff, undefined, () => 0)).toBe(500);
+    expect(retryDelay(3, backoff, undefined, () => 1)).toBe(8000);
+    expect(retryDelay(10, backoff, undefined, () => 1)).toBe(30000);
+    expect(retryDelay(0, backoff, 2000, () => 0.5)).toBe(2500);
+  });
+});
@@ -0,0 +1,293 @@
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import {
+  APICallError,
+  LanguageModelV1,
+  LoadAPIKeyError,
+  RetryError,
+  wrapLanguageModel,
+} from 'ai';
+import { ProviderErrorCode } from '../interfaces/project.interface';
+
+const logger = new Logger('ProviderRetries');
+
+/** HTTP status returned to our clients for each kind of provider failure */
+export const PROVIDER_ERROR_STATUS: Record<ProviderErrorCode, HttpStatus> = {
+  rate_limit: HttpStatus.TOO_MANY_REQUESTS,
+  overloaded: HttpStatus.BAD_GATEWAY,
+  auth: HttpStatus.BAD_GATEWAY,
+  bad_request: HttpStatus.BAD_GATEWAY,
+  timeout: HttpStatus.GATEWAY_TIMEOUT,
+};
+
+const RETRYABLE_CODES: ProviderErrorCode[] = [
+  'rate_limit',
+  'overloaded',
+  'timeout',
+];
+
+const DESCRIPTIONS: Record<ProviderErrorCode, string> = {
+  rate_limit: 'Rate limited',
+  overloaded: 'Provider unavailable',
+  auth: 'Provider rejected the credentials',
+  bad_request: 'Provider rejected the request',
+  timeout: 'Provider timed out',
+};
+
+export interface ProviderErrorDetails {
+  code: ProviderErrorCode;
+  retryable: boolean;
+  statusCode?: number;
+  /** From Retry-After, retry-after-ms or a Gemini retryDelay */
+  retryAfterMs?: number;
+}
+
+export interface ProviderRetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  /** Longer waits, including a longer Retry-After, fail instead */
+  maxDelayMs: number;
+}
+
+/**
+ * A model call that failed at the provider, after any retries
+ */
+export class ProviderError extends HttpException {
+  constructor(
+    readonly code: ProviderErrorCode,
+    message: string,
+    readonly modelIdentifier: string,
+    readonly attempts: number,
+    readonly retryAfterMs?: number,
+    cause?: unknown,
+  ) {
+    super(
+      {
+        message,
+        code,
+        modelIdentifier,
+        attempts,
+        ...(retryAfterMs !== undefined && {
+          retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+        }),
+      },
+      PROVIDER_ERROR_STATUS[code],
+      { cause },
+    );
+  }
+}
+
+export function getProviderRetryPolicy(): ProviderRetryPolicy {
+  const maxRetries = Number(process.env.PROVIDER_MAX_RETRIES ?? 3);
+  return {
+    maxRetries:
+      Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : 3,
+    baseDelayMs: Number(process.env.PROVIDER_RETRY_BASE_MS) || 1000,
+    maxDelayMs: Number(process.env.PROVIDER_RETRY_MAX_DELAY_MS) || 30000,
+  };
+}
+
+function parseRetryAfter(
+  headers: Record<string, string> = {},
+  body = '',
+): number | undefined {
+  const header = (name: string) =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+
+  const milliseconds = Number(header('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+  const retryAfter = header('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(seconds, 0) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(date - Date.now(), 0);
+    }
+  }
+  // Gemini puts the delay in the body: "retryDelay": "17s"
+  const retryDelay = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return retryDelay ? Number(retryDelay[1]) * 1000 : undefined;
+}
+
+function isTimeout(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const codes = [
+    'ETIMEDOUT',
+    'UND_ERR_CONNECT_TIMEOUT',
+    'UND_ERR_HEADERS_TIMEOUT',
+  ];
+  const { cause } = error;
+  return (
+    error.name === 'TimeoutError' ||
+    codes.includes((error as NodeJS.ErrnoException).code ?? '') ||
+    (cause instanceof Error &&
+      codes.includes((cause as NodeJS.ErrnoException).code ?? ''))
+  );
+}
+
+function codeForStatus(status: number, body: string): ProviderErrorCode {
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate.?limit/i.test(body)) {
+    return 'rate_limit';
+  }
+  if (status === 408 || status === 504) {
+    return 'timeout';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  return status >= 500 ? 'overloaded' : 'bad_request';
+}
+
+/**
+ * Classify a failed model call. Errors that did not come from the provider
+ * (invalid output, client aborts, our own bugs) return undefined.
+ */
+export function classifyProviderError(
+  error: unknown,
+): ProviderErrorDetails | undefined {
+  if (RetryError.isInstance(error)) {
+    return classifyProviderError(error.lastError);
+  }
+  if (error instanceof ProviderError) {
+    return {
+      code: error.code,
+      retryable: false,
+      retryAfterMs: error.retryAfterMs,
+    };
+  }
+  if (LoadAPIKeyError.isInstance(error)) {
+    return { code: 'auth', retryable: false };
+  }
+
+  let code: ProviderErrorCode | undefined;
+  let statusCode: number | undefined;
+  let retryAfterMs: number | undefined;
+  if (APICallError.isInstance(error)) {
+    statusCode = error.statusCode;
+    retryAfterMs = parseRetryAfter(error.responseHeaders, error.responseBody);
+    if (statusCode) {
+      code = codeForStatus(statusCode, error.responseBody ?? '');
+    } else {
+      // No response at all: the connection failed or timed out
+      code = isTimeout(error.cause) ? 'timeout' : 'overloaded';
+    }
+  } else if (isTimeout(error)) {
+    code = 'timeout';
+  }
+
+  return code
+    ? {
+        code,
+        retryable: RETRYABLE_CODES.includes(code),
+        statusCode,
+        retryAfterMs,
+      }
+    : undefined;
+}
+
+/**
+ * Wait before retry number attempt + 1: exponential backoff with equal
+ * jitter, or Retry-After plus a little jitter when the provider sent one.
+ * Returns undefined when the wait would exceed maxDelayMs.
+ */
+export function retryDelay(
+  attempt: number,
+  policy: ProviderRetryPolicy,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs
+      ? Math.round(retryAfterMs + random() * Math.min(policy.baseDelayMs, 1000))
+      : undefined;
+  }
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      const reason: unknown = abortSignal?.reason;
+      reject(
+        reason instanceof Error ? reason : new Error('The wait was aborted'),
+      );
+    };
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a model call, retrying rate limits, overloads and timeouts. Provider
+ * failures end as a ProviderError carrying the error code.
+ */
+export async function callWithRetries<T>(
+  modelIdentifier: string,
+  call: () => PromiseLike<T>,
+  abortSignal?: AbortSignal,
+  policy: ProviderRetryPolicy = getProviderRetryPolicy(),
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const details = classifyProviderError(error);
+      if (!details || error instanceof ProviderError || abortSignal?.aborted) {
+        throw error;
+      }
+      const delay =
+        details.retryable && attempt < policy.maxRetries
+          ? retryDelay(attempt, policy, details.retryAfterMs)
+          : undefined;
+      const description = `${DESCRIPTIONS[details.code]} (${modelIdentifier}${details.statusCode ? `, HTTP ${details.statusCode}` : ''})`;
+      if (delay === undefined) {
+        throw new ProviderError(
+          details.code,
+          `${description}: ${(error as Error).message}`,
+          modelIdentifier,
+          attempt + 1,
+          details.retryAfterMs,
+          error,
+        );
+      }
+      logger.warn(
+        `${description}, retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`,
+      );
+      await sleep(delay, abortSignal);
+    }
+  }
+}
+
+/**
+ * Model whose calls go through callWithRetries. For streams this covers
+ * opening the stream, where 429 and 5xx responses arrive; errors after the
+ * first chunk are not retried.
+ */
+export function withProviderRetries(
+  model: LanguageModelV1,
+  modelIdentifier: string,
+): LanguageModelV1 {
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: ({ doGenerate, params }) =>
+        callWithRetries(modelIdentifier, doGenerate, params.abortSignal),
+      wrapStream: ({ doStream, params }) =>
+        callWithRetries(modelIdentifier, doStream, params.abortSignal),
+    },
+  });
+}
@@ -0,0 +1,117 @@
+import { BadRequestException } from '@nestjs/common';
+import { LanguageModelV1 } from 'ai';
+import { MockLanguageModel } from './mock-model';
+import {
+  createConfiguredProviders,
+  isMockModel,
+  parseModelIdentifier,
+  registerProvider,
+  requireProvider,
+  resolveModel,
+} from './provider-registry';
+
+describe('parseModelIdentifier', () => {
+  it('splits on the first colon only', () => {
+    expect(parseModelIdentifier('openrouter:qwen/qwen3-coder:free')).toEqual({
+      platform: 'openrouter',
+      modelName: 'qwen/qwen3-coder:free',
+    });
+    for (const invalid of ['gpt-4o', ':gpt-4o', 'openai:', '']) {
+      expect(() => parseModelIdentifier(invalid)).toThrow(BadRequestException);
+    }
+  });
+});
+
+describe('requireProvider', () => {
+  const createModel = (modelName: string) =>
+    ({ modelId: modelName }) as LanguageModelV1;
+
+  it('returns the provider for registered, configured platforms', () => {
+    registerProvider({
+      id: 'spec-ready',
+      label: 'Ready',
+      requiredEnv: [],
+      configured: true,
+      createModel,
+    });
+
+    const { provider, modelName } = requireProvider('spec-ready:model:v2');
+    expect(provider.id).toBe('spec-ready');
+    expect(modelName).toBe('model:v2');
+  });
+
+  it('rejects unknown and unconfigured providers', () => {
+    registerProvider({
+      id: 'spec-unconfigured',
+      label: 'Unconfigured',
+      requiredEnv: ['SPEC_API_KEY'],
+      configured: false,
+      createModel,
+    });
+
+    expect(() => requireProvider('nope:model')).toThrow(
+      /Unknown model provider "nope".*Registered providers: .*mock/,
+    );
+    expect(() => requireProvider('spec-unconfigured:model')).toThrow(
+      /Set SPEC_API_KEY to use "spec-unconfigured:model"/,
+    );
+  });
+});
+
+describe('createConfiguredProviders', () => {
+  it('adds valid OpenAI-compatible gateways and ignores the rest', () => {
+    const providers = createConfiguredProviders({
+      OPENAI_COMPATIBLE_PROVIDERS: JSON.stringify([
+        {
+          id: 'together',
+          baseURL: 'https://api.together.xyz/v1',
+          apiKeyEnv: 'TOGETHER_API_KEY',
+        },
+        { id: 'local', baseURL: 'http://localhost:11434/v1' },
+        { id: 'no-url' },
+      ]),
+    });
+    const gateways = providers.filter((provider) =>
+      ['together', 'local', 'no-url'].includes(provider.id),
+    );
+
+    expect(gateways.map(({ id, configured }) => ({ id, configured }))).toEqual([
+      { id: 'together', configured: false },
+      { id: 'local', configured: true },
+    ]);
+    expect(
+      createConfiguredProviders({ OPENAI_COMPATIBLE_PROVIDERS: '[{' }).map(
+        (provider) => provider.id,
+      ),
+    ).toEqual(['anthropic', 'openai', 'google', 'openrouter', 'azure', 'mock']);
+  });
+});
+
+describe('resolveModel', () => {
+  const mockResponses = process.env.MOCK_AI_RESPONSES;
+
+  beforeEach(() => {
+    delete process.env.MOCK_AI_RESPONSES;
+  });
+
+  afterAll(() => {
+    if (mockResponses !== undefined) {
+      process.env.MOCK_AI_RESPONSES = mockResponses;
+    }
+  });
+
+  it('routes every model to recorded responses with MOCK_AI_RESPONSES', () => {
+    expect(isMockModel('openai:gpt-4o')).toBe(false);
+    expect(isMockModel('mock:latest')).toBe(true);
+    expect(resolveModel('mock:latest:truncated').modelId).toBe(
+      'latest:truncated',
+    );
+
+    process.env.MOCK_AI_RESPONSES = 'true';
+    const model = resolveModel('openai:gpt-4o');
+    expect(isMockModel('openai:gpt-4o')).toBe(true);
+    expect(model).toBeInstanceOf(MockLanguageModel);
+    expect(model.modelId).toBe('auto');
+    expect(resolveModel('mock:latest').modelId).toBe('latest');
+  });
+});
@@ -0,0 +1,265 @@
+import { BadRequestException, Logger } from '@nestjs/common';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createAzure } from '@ai-sdk/azure';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import { LanguageModelV1 } from 'ai';
+import { createMockProvider } from './mock-model';
+
+/**
+ * A model provider that can be addressed as "<id>:<modelName>"
+ */
+export interface ModelProvider {
+  /** Platform prefix used in model identifiers, e.g. "openai" in "openai:gpt-4o" */
+  id: string;
+  label: string;
+  /** Environment variables that must be set for the provider to be usable */
+  requiredEnv: string[];
+  /** Whether the credentials in requiredEnv are present */
+  configured: boolean;
+  createModel(modelName: string): LanguageModelV1;
+}
+
+/**
+ * Hosted OpenAI-compatible gateway declared in OPENAI_COMPATIBLE_PROVIDERS, e.g.
+ * [{"id":"together","baseURL":"https://api.together.xyz/v1","apiKeyEnv":"TOGETHER_API_KEY"}]
+ */
+interface CompatibleGatewayConfig {
+  id: string;
+  baseURL: string;
+  apiKeyEnv?: string;
+  label?: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+const logger = new Logger('ProviderRegistry');
+const registry = new Map<string, ModelProvider>();
+let defaultsLoaded = false;
+
+function firstEnv(env: Env, names: string[]): string | undefined {
+  return names.map((name) => env[name]).find((value) => !!value);
+}
+
+function isGatewayConfig(value: unknown): value is CompatibleGatewayConfig {
+  const gateway = value as Partial<CompatibleGatewayConfig> | null;
+  return (
+    typeof gateway?.id === 'string' &&
+    !!gateway.id &&
+    typeof gateway.baseURL === 'string' &&
+    !!gateway.baseURL
+  );
+}
+
+function parseCompatibleGateways(env: Env): CompatibleGatewayConfig[] {
+  const raw = env.OPENAI_COMPATIBLE_PROVIDERS;
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isGatewayConfig) : [];
+  } catch (error) {
+    logger.warn(
+      `Ignoring OPENAI_COMPATIBLE_PROVIDERS: ${(error as Error).message}`,
+    );
+    return [];
+  }
+}
+
+/**
+ * Build the built-in providers from environment configuration
+ */
+export function createConfiguredProviders(
+  env: Env = process.env,
+): ModelProvider[] {
+  const anthropicKey = env.ANTHROPIC_API_KEY;
+  const openaiKey = env.OPENAI_API_KEY;
+  const googleKey = firstEnv(env, [
+    'GOOGLE_API_KEY',
+    'GOOGLE_AI_API_KEY',
+    'GOOGLE_GENERATIVE_AI_API_KEY',
+  ]);
+  const openrouterKey = env.OPENROUTER_API_KEY;
+  const azureKey = env.AZURE_OPENAI_API_KEY;
+  const azureTarget = firstEnv(env, [
+    'AZURE_OPENAI_BASE_URL',
+    'AZURE_OPENAI_RESOURCE_NAME',
+  ]);
+
+  const providers: ModelProvider[] = [
+    {
+      id: 'anthropic',
+      label: 'Anthropic',
+      requiredEnv: ['ANTHROPIC_API_KEY'],
+      configured: !!anthropicKey,
+      createModel: (modelName) =>
+        createAnthropic({ apiKey: anthropicKey })(modelName),
+    },
+    {
+      id: 'openai',
+      label: 'OpenAI',
+      requiredEnv: ['OPENAI_API_KEY'],
+      configured: !!openaiKey,
+      createModel: (modelName) =>
+        createOpenAI({ apiKey: openaiKey, baseURL: env.OPENAI_BASE_URL })(
+          modelName,
+        ),
+    },
+    {
+      id: 'google',
+      label: 'Google Gemini',
+      requiredEnv: ['GOOGLE_API_KEY'],
+      configured: !!googleKey,
+      createModel: (modelName) =>
+        createGoogleGenerativeAI({ apiKey: googleKey })(modelName),
+    },
+    {
+      id: 'openrouter',
+      label: 'OpenRouter',
+      requiredEnv: ['OPENROUTER_API_KEY'],
+      configured: !!openrouterKey,
+      createModel: (modelName) =>
+        createOpenRouter({ apiKey: openrouterKey })(modelName),
+    },
+    {
+      id: 'azure',
+      label: 'Azure OpenAI',
+      requiredEnv: ['AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_RESOURCE_NAME'],
+      configured: !!azureKey && !!azureTarget,
+      // The model name is the Azure deployment name
+      createModel: (deploymentName) =>
+        createAzure({
+          apiKey: azureKey,
+          resourceName: env.AZURE_OPENAI_RESOURCE_NAME,
+          baseURL: env.AZURE_OPENAI_BASE_URL,
+          apiVersion: env.AZURE_OPENAI_API_VERSION,
+        })(deploymentName),
+    },
+  ];
+
+  for (const gateway of parseCompatibleGateways(env)) {
+    const apiKey = gateway.apiKeyEnv ? env[gateway.apiKeyEnv] : undefined;
+    providers.push({
+      id: gateway.id,
+      label: gateway.label || gateway.id,
+      requiredEnv: gateway.apiKeyEnv ? [gateway.apiKeyEnv] : [],
+      configured: !gateway.apiKeyEnv || !!apiKey,
+      createModel: (modelName) =>
+        createOpenAI({
+          name: gateway.id,
+          baseURL: gateway.baseURL,
+          apiKey: apiKey || 'not-required',
+          compatibility: 'compatible',
+        })(modelName),
+    });
+  }
+
+  // Offline replay of recorded generations, always available
+  providers.push(createMockProvider());
+
+  return providers;
+}
+
+function ensureDefaultProviders(): void {
+  if (defaultsLoaded) {
+    return;
+  }
+  defaultsLoaded = true;
+  for (const provider of createConfiguredProviders()) {
+    // Explicit registrations take precedence over the config-driven defaults
+    if (!registry.has(provider.id)) {
+      registry.set(provider.id, provider);
+    }
+  }
+}
+
+/**
+ * Register (or replace) a provider under its id
+ */
+export function registerProvider(provider: ModelProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function listProviders(): ModelProvider[] {
+  ensureDefaultProviders();
+  return Array.from(registry.values());
+}
+
+export function getProvider(id: string): ModelProvider | undefined {
+  ensureDefaultProviders();
+  return registry.get(id);
+}
+
+/**
+ * Split "platform:modelName". Only the first colon separates the two, so
+ * model names such as "qwen/qwen3-coder:free" are preserved.
+ */
+export function parseModelIdentifier(modelIdentifier: string): {
+  platform: string;
+  modelName: string;
+} {
+  const separator = modelIdentifier?.indexOf(':') ?? -1;
+  if (separator <= 0 || separator === modelIdentifier.length - 1) {
+    throw new BadRequestException(
+      `Invalid model identifier "${modelIdentifier}". Expected "provider:model", e.g. "openai:gpt-4o-mini"`,
+    );
+  }
+  return {
+    platform: modelIdentifier.slice(0, separator),
+    modelName: modelIdentifier.slice(separator + 1),
+  };
+}
+
+/**
+ * Provider serving a model identifier, rejecting unknown or unconfigured
+ * providers with a 400 instead of silently swapping models
+ */
+export function requireProvider(modelIdentifier: string): {
+  provider: ModelProvider;
+  modelName: string;
+} {
+  const { platform, modelName } = parseModelIdentifier(modelIdentifier);
+  const provider = getProvider(platform);
+
+  if (!provider) {
+    const known = listProviders()
+      .map((registered) => registered.id)
+      .join(', ');
+    throw new BadRequestException(
+      `Unknown model provider "${platform}" in "${modelIdentifier}". Registered providers: ${known}`,
+    );
+  }
+
+  if (!provider.configured) {
+    throw new BadRequestException(
+      `Model provider "${platform}" is not configured. Set ${provider.requiredEnv.join(' and ')} to use "${modelIdentifier}"`,
+    );
+  }
+
+  return { provider, modelName };
+}
+
+/**
+ * Whether requests for this identifier are answered from recorded responses
+ */
+export function isMockModel(modelIdentifier: string): boolean {
+  return (
+    process.env.MOCK_AI_RESPONSES === 'true' ||
+    !!modelIdentifier?.startsWith('mock:')
+  );
+}
+
+/**
+ * Resolve a model identifier to a model instance
+ */
+export function resolveModel(modelIdentifier: string): LanguageModelV1 {
+  // MOCK_AI_RESPONSES routes every request to recorded responses matched on prompt
+  if (isMockModel(modelIdentifier) && !modelIdentifier?.startsWith('mock:')) {
+    return resolveModel('mock:auto');
+  }
+
+  const { provider, modelName } = requireProvider(modelIdentifier);
+  return provider.createModel(modelName);
+}
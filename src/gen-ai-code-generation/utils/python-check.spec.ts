@@ -0,0 +1,124 @@
+import { FullStackProject } from '../interfaces/project.interface';
+import {
+  checkBackendFiles,
+  parseBackendCheckOutput,
+  requirementModules,
+} from './python-check';
+
+function projectWithBackend(
+  files: string[],
+  requirements: string,
+): FullStackProject {
+  return {
+    code: {
+      backend: {
+        files: Object.fromEntries(
+          files.map((path) => [path, { purpose: '', code: '' }]),
+        ),
+        dependencies: {
+          'requirements.txt': { purpose: '', code: requirements },
+        },
+      },
+    },
+  } as unknown as FullStackProject;
+}
+
+describe('requirementModules', () => {
+  it('maps distributions to the modules they install', () => {
+    const modules = requirementModules(
+      [
+        '# API',
+        'fastapi==0.104.1',
+        'uvicorn[standard]>=0.24  # server',
+        'Python-Dotenv',
+        'PyJWT~=2.8',
+        'requests ; python_version >= "3.8"',
+        '-r more.txt',
+      ].join('\n'),
+    );
+
+    expect([...modules].sort()).toEqual(
+      [
+        'anyio',
+        'click',
+        'dotenv',
+        'fastapi',
+        'h11',
+        'jwt',
+        'pydantic',
+        'requests',
+        'starlette',
+        'typing_extensions',
+        'uvicorn',
+      ].sort(),
+    );
+  });
+});
+
+describe('checkBackendFiles', () => {
+  it('reports syntax errors and unavailable imports by file and line', () => {
+    const project = projectWithBackend(
+      ['/main.py', '/app/models.py', '/app/__init__.py'],
+      'fastapi\nmotor\n',
+    );
+    const report = parseBackendCheckOutput(
+      [
+        'Compiling...',
+        JSON.stringify({
+          stdlib: ['os', 'json'],
+          files: [
+            {
+              file: 'main.py',
+              imports: [
+                { module: 'os', line: 1 },
+                { module: 'fastapi.middleware.cors', line: 2 },
+                { module: 'bson', line: 3 },
+                { module: 'app.models', line: 4 },
+                { module: 'jose.jwt', line: 5 },
+              ],
+            },
+            {
+              file: 'app/models.py',
+              imports: [],
+              error: { line: 7, message: 'SyntaxError: invalid syntax' },
+            },
+          ],
+        }),
+      ].join('\n'),
+    );
+
+    expect(checkBackendFiles(project, report!)).toEqual([
+      {
+        severity: 'error',
+        code: 'python-import',
+        message:
+          'jose.jwt is not in the standard library, the project or requirements.txt',
+        path: 'code.backend.files./main.py.code',
+        file: '/main.py',
+        line: 5,
+      },
+      {
+        severity: 'error',
+        code: 'python-syntax',
+        message: 'SyntaxError: invalid syntax',
+        path: 'code.backend.files./app/models.py.code',
+        file: '/app/models.py',
+        line: 7,
+      },
+    ]);
+  });
+
+  it('does not read output without a report', () => {
+    expect(
+      parseBackendCheckOutput('Traceback (most recent call last):'),
+    ).toBeUndefined();
+    expect(
+      parseBackendCheckOutput('{"stdlib": [], "files": {}}'),
+    ).toBeUndefined();
+    expect(
+      parseBackendCheckOutput(
+        '{"stdlib": ["os"], "files": [{"file": "main.py", "imports": "os"}]}',
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import {
+  FullStackProject,
+  ProjectDiagnostic,
+} from '../interfaces/project.interface';
+
+/**
+ * Run in the sandbox with the backend files as arguments: compiles each file
+ * and lists its module-level imports, writing the report as JSON on the last
+ * line of stdout
+ */
+export const BACKEND_CHECK_SCRIPT = `
+import ast, json, py_compile, sys
+
+report = {
+    "stdlib": sorted(getattr(sys, "stdlib_module_names", sys.builtin_module_names)),
+    "files": [],
+}
+for path in sys.argv[1:]:
+    entry = {"file": path, "imports": []}
+    try:
+        py_compile.compile(path, doraise=True)
+        with open(path, encoding="utf-8") as source:
+            tree = ast.parse(source.read(), path)
+        for node in tree.body:
+            if isinstance(node, ast.Import):
+                names = [alias.name for alias in node.names]
+            elif isinstance(node, ast.ImportFrom) and node.level == 0 and node.module:
+                names = [node.module]
+            else:
+                continue
+            entry["imports"] += [{"module": name, "line": node.lineno} for name in names]
+    except py_compile.PyCompileError as error:
+        cause = error.exc_value
+        entry["error"] = {
+            "line": getattr(cause, "lineno", None),
+            "message": f"{type(cause).__name__}: {getattr(cause, 'msg', None) or cause}",
+        }
+    report["files"].append(entry)
+print(json.dumps(report))
+`;
+
+export interface BackendCheckReport {
+  /** Top-level module names of the sandbox's Python standard library */
+  stdlib: string[];
+  files: {
+    /** Path relative to the backend directory */
+    file: string;
+    error?: { line: number | null; message: string };
+    imports: { module: string; line: number }[];
+  }[];
+}
+
+const backendCheckReportSchema: z.ZodType<BackendCheckReport> = z.object({
+  stdlib: z.array(z.string()),
+  files: z.array(
+    z.object({
+      file: z.string(),
+      error: z
+        .object({ line: z.number().nullable(), message: z.string() })
+        .optional(),
+      imports: z.array(z.object({ module: z.string(), line: z.number() })),
+    }),
+  ),
+});
+
+/**
+ * Modules installed by requirements whose import name differs from the
+ * distribution name, or that bring other importable packages along
+ */
+const REQUIREMENT_MODULES: Record<string, string[]> = {
+  fastapi: ['fastapi', 'starlette', 'pydantic', 'typing_extensions', 'anyio'],
+  uvicorn: ['uvicorn', 'h11', 'click'],
+  pydantic: ['pydantic', 'pydantic_core', 'typing_extensions'],
+  pymongo: ['pymongo', 'bson', 'gridfs'],
+  motor: ['motor', 'pymongo', 'bson', 'gridfs'],
+  'python-dotenv': ['dotenv'],
+  'python-multipart': ['multipart', 'python_multipart'],
+  'python-jose': ['jose'],
+  'python-dateutil': ['dateutil'],
+  pyjwt: ['jwt'],
+  beautifulsoup4: ['bs4'],
+  pillow: ['PIL'],
+  pyyaml: ['yaml'],
+  'scikit-learn': ['sklearn'],
+  'opencv-python': ['cv2'],
+  attrs: ['attr', 'attrs'],
+  httpx: ['httpx', 'httpcore'],
+};
+
+/** Distribution names in requirements.txt, normalized as pip compares them */
+function requirementNames(requirements: string): string[] {
+  return requirements
+    .split('\n')
+    .map((line) => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter((line) => line && !line.startsWith('-'))
+    .map((line) => line.match(/^[A-Za-z0-9][A-Za-z0-9._-]*/)?.[0])
+    .filter((name): name is string => !!name)
+    .map((name) => name.toLowerCase().replace(/[-_.]+/g, '-'));
+}
+
+/** Top-level modules importable once requirements.txt is installed */
+export function requirementModules(requirements: string): Set<string> {
+  return new Set(
+    requirementNames(requirements).flatMap(
+      (name) => REQUIREMENT_MODULES[name] ?? [name.replace(/-/g, '_')],
+    ),
+  );
+}
+
+/**
+ * Read the report printed by BACKEND_CHECK_SCRIPT; undefined when the
+ * script did not get as far as printing it
+ */
+export function parseBackendCheckOutput(
+  stdout: string,
+): BackendCheckReport | undefined {
+  const lastLine = stdout.trim().split('\n').pop() ?? '';
+  try {
+    const report = backendCheckReportSchema.safeParse(
+      JSON.parse(lastLine) as unknown,
+    );
+    return report.success ? report.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Syntax errors, and imports that are neither standard library, one of the
+ * project's own modules nor installed by requirements.txt
+ */
+export function checkBackendFiles(
+  project: FullStackProject,
+  report: BackendCheckReport,
+): ProjectDiagnostic[] {
+  const files = Object.keys(project.code.backend.files);
+  const requirements =
+    project.code.backend.dependencies['requirements.txt']?.code ?? '';
+  const available = new Set([
+    ...report.stdlib,
+    ...requirementModules(requirements),
+    // Modules and packages of the backend directory itself
+    ...files.map((file) => file.replace(/^\//, '').split(/[/.]/)[0]),
+  ]);
+
+  const diagnostics: ProjectDiagnostic[] = [];
+  for (const { file: checked, error, imports } of report.files) {
+    const file = `/${checked.replace(/^\.?\//, '')}`;
+    const path = `code.backend.files.${file}.code`;
+    if (error) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'python-syntax',
+        message: error.message,
+        path,
+        file,
+        ...(error.line !== null && { line: error.line }),
+      });
+      continue;
+    }
+    for (const { module, line } of imports) {
+      const topLevel = module.split('.')[0];
+      if (!available.has(topLevel)) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'python-import',
+          message: `${module} is not in the standard library, the project or requirements.txt`,
+          path,
+          file,
+          line,
+        });
+      }
+    }
+  }
+  return diagnostics;
+}
@@ -0,0 +1,38 @@
+import { BadRequestException } from '@nestjs/common';
+import { answerQuestions } from './requirements';
+
+describe('answerQuestions', () => {
+  const questions = [
+    {
+      id: 'auth',
+      topic: 'auth' as const,
+      question: 'Do users log in?',
+      suggestedDefault: 'Yes, email + password',
+    },
+    {
+      id: 'pages',
+      topic: 'pages' as const,
+      question: 'Which pages?',
+      suggestedDefault: 'Dashboard and contacts',
+    },
+  ];
+
+  it('uses the suggested default for unanswered and blank questions', () => {
+    expect(
+      answerQuestions({ questions, answers: { auth: 'No', pages: '  ' } }),
+    ).toEqual([
+      { question: 'Do users log in?', answer: 'No', defaulted: false },
+      {
+        question: 'Which pages?',
+        answer: 'Dashboard and contacts',
+        defaulted: true,
+      },
+    ]);
+  });
+
+  it('rejects a clarification without questions', () => {
+    expect(() => answerQuestions({ questions: [], answers: {} })).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { BadRequestException } from '@nestjs/common';
+import { z } from 'zod';
+import {
+  ClarificationAnswers,
+  ProjectRequirements,
+} from '../interfaces/project.interface';
+
+/**
+ * Runtime schemas mirroring ClarifyingQuestion and ProjectRequirements in
+ * project.interface.ts
+ */
+export const clarifyingQuestionSchema = z.object({
+  id: z.string().describe('Short stable identifier, e.g. "auth-method"'),
+  topic: z.enum(['entities', 'auth', 'pages', 'integrations', 'other']),
+  question: z.string(),
+  options: z
+    .array(z.string())
+    .optional()
+    .describe('Choices to offer, only when there are a few obvious answers'),
+  suggestedDefault: z
+    .string()
+    .describe('Sensible answer used when the user skips the question'),
+});
+
+export const clarifyingQuestionsSchema = z.object({
+  questions: z.array(clarifyingQuestionSchema).min(1).max(12),
+});
+
+export const projectRequirementsSchema = z.object({
+  summary: z.string().describe('One paragraph describing the application'),
+  entities: z
+    .array(
+      z.object({
+        name: z.string(),
+        fields: z.array(z.string()).describe('e.g. "email: string, unique"'),
+      }),
+    )
+    .describe('Data the application stores'),
+  auth: z.object({
+    required: z.boolean(),
+    method: z.string().optional().describe('e.g. "email + password"'),
+    roles: z.array(z.string()),
+  }),
+  pages: z.array(
+    z.object({
+      name: z.string(),
+      path: z.string().describe('Route, e.g. "/contacts"'),
+      purpose: z.string(),
+    }),
+  ),
+  integrations: z.array(z.object({ name: z.string(), purpose: z.string() })),
+  notes: z
+    .array(z.string())
+    .describe('Other decisions from the answers that affect the code'),
+});
+
+/**
+ * Pair every question with its answer, falling back to the suggested default
+ */
+export function answerQuestions(clarification: ClarificationAnswers): {
+  question: string;
+  answer: string;
+  defaulted: boolean;
+}[] {
+  if (
+    !Array.isArray(clarification?.questions) ||
+    clarification.questions.length === 0
+  ) {
+    throw new BadRequestException(
+      'clarification.questions must contain the questions returned by POST /gen-ai-code/clarify',
+    );
+  }
+
+  return clarification.questions.map((question) => {
+    const answer = clarification.answers?.[question.id]?.trim();
+    return {
+      question: question.question,
+      answer: answer || question.suggestedDefault,
+      defaulted: !answer,
+    };
+  });
+}
+
+function list(items: string[]): string {
+  return items.length > 0 ? items.join(', ') : 'none';
+}
+
+/**
+ * Append the requirements to the user's prompt as a plain-text specification
+ */
+export function appendRequirements(
+  prompt: string,
+  requirements: ProjectRequirements,
+): string {
+  const lines = [
+    prompt,
+    '',
+    'Requirements (follow these exactly):',
+    `Summary: ${requirements.summary}`,
+    'Entities:',
+    ...requirements.entities.map(
+      (entity) => `- ${entity.name}: ${list(entity.fields)}`,
+    ),
+    requirements.auth.required
+      ? `Authentication: ${requirements.auth.method ?? 'required'}; roles: ${list(requirements.auth.roles)}`
+      : 'Authentication: none',
+    'Pages:',
+    ...requirements.pages.map(
+      (page) => `- ${page.name} (${page.path}): ${page.purpose}`,
+    ),
+    `Integrations: ${list(requirements.integrations.map((integration) => `${integration.name} (${integration.purpose})`))}`,
+    ...(requirements.notes.length > 0
+      ? ['Notes:', ...requirements.notes.map((note) => `- ${note}`)]
+      : []),
+  ];
+  return lines.join('\n');
+}
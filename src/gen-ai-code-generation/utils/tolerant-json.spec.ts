@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FullStackProject } from '../interfaces/project.interface';
+import { JsonRepairError, parseTolerantJson } from './tolerant-json';
+
+const SAMPLES_DIR = path.join(__dirname, '../../../generated-code');
+
+/** Raw model responses in generated-code/ and the projects parsed from them */
+const SAMPLES = [
+  ['2025-08-21T05-20-47-341Z', '2025-08-21T05-20-47-344Z'],
+  ['2025-08-21T06-31-53-385Z', '2025-08-21T06-31-53-388Z'],
+].map(([raw, parsed]) => ({
+  name: raw,
+  rawResponse: (
+    JSON.parse(
+      fs.readFileSync(
+        path.join(SAMPLES_DIR, `${raw}-ai-raw-response.json`),
+        'utf8',
+      ),
+    ) as { rawResponse: string }
+  ).rawResponse,
+  project: JSON.parse(
+    fs.readFileSync(
+      path.join(SAMPLES_DIR, `${parsed}-parsed-project.json`),
+      'utf8',
+    ),
+  ) as FullStackProject,
+}));
+
+/** Replace escape sequences in JSON text, leaving escaped backslashes alone */
+function unescape(json: string, escapes: Record<string, string>): string {
+  return json.replace(/\\./g, (escape) => escapes[escape] ?? escape);
+}
+
+/** Ways models break JSON, applied to the samples; each must parse back */
+const CORRUPTIONS: {
+  kind: string;
+  corrupt: (pretty: string) => string;
+  /** The characters each repair offset points at */
+  at: RegExp;
+}[] = [
+  {
+    kind: 'trailing-comma',
+    corrupt: (pretty) => pretty.replace(/\n(\s*)([}\]])/g, ',\n$1$2'),
+    at: /,/,
+  },
+  {
+    kind: 'missing-comma',
+    corrupt: (pretty) => pretty.replace(/,\n/g, '\n'),
+    at: /["{[]/,
+  },
+  {
+    kind: 'control-character',
+    corrupt: (pretty) => unescape(pretty, { '\\n': '\n', '\\t': '\t' }),
+    at: /[\n\t]/,
+  },
+  {
+    kind: 'unescaped-quote',
+    corrupt: (pretty) => unescape(pretty, { '\\"': '"' }),
+    at: /"/,
+  },
+];
+
+describe('parseTolerantJson', () => {
+  describe.each(SAMPLES)('sample $name', ({ rawResponse, project }) => {
+    const pretty = JSON.stringify(project, null, 2);
+
+    it('parses the raw response without repairs', () => {
+      expect(parseTolerantJson(rawResponse)).toEqual({
+        value: project,
+        repairs: [],
+      });
+      expect(parseTolerantJson(JSON.stringify(project)).repairs).toEqual([]);
+    });
+
+    it.each(CORRUPTIONS)('repairs every $kind', ({ kind, corrupt, at }) => {
+      const text = corrupt(pretty);
+      const { value, repairs } = parseTolerantJson(text);
+
+      expect(value).toEqual(project);
+      expect(repairs.length).toBeGreaterThan(0);
+      for (const repair of repairs) {
+        expect(repair.kind).toBe(kind);
+        expect(text[repair.offset]).toMatch(at);
+      }
+    });
+
+    it('strips prose and fences around the JSON', () => {
+      const text = `Here is the project:\n\`\`\`json\n${rawResponse}\n\`\`\`\n`;
+      const { value, repairs } = parseTolerantJson(text);
+
+      expect(value).toEqual(project);
+      expect(repairs.map(({ kind, offset }) => [kind, offset])).toEqual([
+        ['stripped-text', 0],
+        ['stripped-text', text.lastIndexOf('```')],
+      ]);
+    });
+
+    it('closes output cut off at any point', () => {
+      for (let end = 200; end < pretty.length; end += 997) {
+        const { value, repairs } = parseTolerantJson(pretty.slice(0, end));
+
+        expect(value).toHaveProperty('projectName', project.projectName);
+        expect(repairs[repairs.length - 1]).toMatchObject({
+          kind: 'unclosed-container',
+          offset: end,
+          message: 'Closed the object opened at offset 0',
+        });
+      }
+    });
+  });
+
+  it('leaves code strings containing }" and ], untouched', () => {
+    const code = 'const tags = {a: "}", b: ["],"]};\nexport default tags;';
+    const text = `{"files":{"a.ts":{"code":${JSON.stringify(code)}},"b.ts":{"code":""}}}`;
+
+    expect(parseTolerantJson(text)).toEqual({
+      value: { files: { 'a.ts': { code }, 'b.ts': { code: '' } } },
+      repairs: [],
+    });
+  });
+
+  it('reports each repair with its offset', () => {
+    const text = '{"a": [1, 2,],\n "b": "x\ny"\n "c": {"d": "unterminated';
+
+    expect(parseTolerantJson(text)).toEqual({
+      value: { a: [1, 2], b: 'x\ny', c: { d: 'unterminated' } },
+      repairs: [
+        {
+          kind: 'trailing-comma',
+          offset: 11,
+          message: 'Removed a trailing comma',
+        },
+        {
+          kind: 'control-character',
+          offset: 23,
+          message: 'Escaped a raw "\\n" inside a string',
+        },
+        {
+          kind: 'missing-comma',
+          offset: 28,
+          message: 'Inserted a missing comma',
+        },
+        {
+          kind: 'unterminated-string',
+          offset: text.length,
+          message: 'Closed the string opened at offset 39',
+        },
+        {
+          kind: 'unclosed-container',
+          offset: text.length,
+          message: 'Closed the object opened at offset 33',
+        },
+        {
+          kind: 'unclosed-container',
+          offset: text.length,
+          message: 'Closed the object opened at offset 0',
+        },
+      ],
+    });
+  });
+
+  it('throws with the offset of output it cannot repair', () => {
+    expect(() => parseTolerantJson('no json here')).toThrow(JsonRepairError);
+    expect(() => parseTolerantJson('{"a": 1, b: 2}')).toThrow(
+      'Expected a property name, found "b" at offset 9',
+    );
+  });
+});
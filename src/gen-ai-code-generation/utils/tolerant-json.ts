@@ -0,0 +1,503 @@
+export type JsonRepairKind =
+  | 'stripped-text'
+  | 'trailing-comma'
+  | 'missing-comma'
+  | 'control-character'
+  | 'unescaped-quote'
+  | 'invalid-escape'
+  | 'unterminated-string'
+  | 'unclosed-container'
+  | 'dropped-value';
+
+export interface JsonRepair {
+  kind: JsonRepairKind;
+  /** Offset in the original text where the repair was made */
+  offset: number;
+  message: string;
+}
+
+export interface TolerantJsonResult {
+  value: unknown;
+  repairs: JsonRepair[];
+}
+
+/** Model output that could not be repaired, with the offset where parsing stopped */
+export class JsonRepairError extends SyntaxError {
+  constructor(
+    message: string,
+    readonly offset: number,
+  ) {
+    super(`${message} at offset ${offset}`);
+    this.name = 'JsonRepairError';
+  }
+}
+
+type StringContext = 'key' | 'object-value' | 'array-value';
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const LITERALS: [string, unknown][] = [
+  ['true', true],
+  ['false', false],
+  ['null', null],
+];
+const VALUE_START = /["{[\]\d\-tfn]/;
+const MAX_QUOTE_RETRIES = 20;
+/** Marks a value cut off by the end of the output, left out of its container */
+const DROPPED = Symbol('dropped');
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
+
+/**
+ * Single-pass parser that always knows whether it is inside a string, so code
+ * values containing "}", "]" or "," are never rewritten
+ */
+class TolerantJsonParser {
+  readonly repairs: JsonRepair[] = [];
+  /**
+   * Quotes taken as the end of a string that already had unescaped quotes,
+   * only because a property name seemed to follow
+   */
+  readonly guesses: number[] = [];
+  private pos = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly escapedQuotes: Set<number>,
+  ) {}
+
+  parse(): unknown {
+    const objectStart = this.text.indexOf('{');
+    const start = objectStart >= 0 ? objectStart : this.text.indexOf('[');
+    if (start < 0) {
+      throw new JsonRepairError('No JSON object or array found', 0);
+    }
+    if (this.text.slice(0, start).trim()) {
+      this.repair(
+        'stripped-text',
+        0,
+        `Ignored ${start} characters before the JSON`,
+      );
+    }
+    this.pos = start;
+    const value =
+      this.text[start] === '{' ? this.parseObject(1) : this.parseArray(1);
+
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      this.repair(
+        'stripped-text',
+        this.pos,
+        `Ignored ${this.text.length - this.pos} characters after the JSON`,
+      );
+    }
+    return value;
+  }
+
+  private parseObject(depth: number): Record<string, unknown> {
+    const start = this.pos++;
+    const result: Record<string, unknown> = {};
+    let members = 0;
+    let comma: number | undefined;
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === undefined) {
+        this.unclosed('object', start);
+        return result;
+      }
+      if (char === '}') {
+        this.trailingComma(comma);
+        this.pos++;
+        return result;
+      }
+      if (char === ',' && members > 0 && comma === undefined) {
+        comma = this.pos++;
+        continue;
+      }
+      if (members > 0 && comma === undefined) {
+        this.repair('missing-comma', this.pos, 'Inserted a missing comma');
+      }
+      comma = undefined;
+
+      if (char !== '"') {
+        this.fail(`Expected a property name, found ${JSON.stringify(char)}`);
+      }
+      const keyStart = this.pos;
+      const key = this.parseString('key', depth);
+      this.skipWhitespace();
+      if (!key.terminated || this.pos >= this.text.length) {
+        this.dropped(keyStart, `property "${key.value}"`);
+        continue;
+      }
+      if (this.text[this.pos] !== ':') {
+        this.fail(`Expected ":" after the property "${key.value}"`);
+      }
+      this.pos++;
+      this.skipWhitespace();
+      if (this.pos >= this.text.length) {
+        this.dropped(keyStart, `property "${key.value}"`);
+        continue;
+      }
+
+      const value = this.parseValue('object-value', depth);
+      if (value !== DROPPED) {
+        // Own property even for "__proto__", as JSON.parse does
+        Object.defineProperty(result, key.value, {
+          value,
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      members++;
+    }
+  }
+
+  private parseArray(depth: number): unknown[] {
+    const start = this.pos++;
+    const result: unknown[] = [];
+    let comma: number | undefined;
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === undefined) {
+        this.unclosed('array', start);
+        return result;
+      }
+      if (char === ']') {
+        this.trailingComma(comma);
+        this.pos++;
+        return result;
+      }
+      if (char === ',' && result.length > 0 && comma === undefined) {
+        comma = this.pos++;
+        continue;
+      }
+      if (result.length > 0 && comma === undefined) {
+        this.repair('missing-comma', this.pos, 'Inserted a missing comma');
+      }
+      comma = undefined;
+
+      const value = this.parseValue('array-value', depth);
+      if (value !== DROPPED) {
+        result.push(value);
+      }
+    }
+  }
+
+  /** The parsed value, or DROPPED when the output ends before it does */
+  private parseValue(context: StringContext, depth: number): unknown {
+    const start = this.pos;
+    const char = this.text[start];
+
+    if (char === '{') {
+      return this.parseObject(depth + 1);
+    }
+    if (char === '[') {
+      return this.parseArray(depth + 1);
+    }
+    if (char === '"') {
+      const string = this.parseString(context, depth);
+      if (!string.terminated) {
+        this.repair(
+          'unterminated-string',
+          this.text.length,
+          `Closed the string opened at offset ${start}`,
+        );
+      }
+      return string.value;
+    }
+
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      NUMBER.lastIndex = start;
+      const match = NUMBER.exec(this.text);
+      const end = start + (match?.[0].length ?? 0);
+      if (!match || /[\d.eE+-]/.test(this.text[end] ?? '')) {
+        let scan = end;
+        while (/[\d.eE+-]/.test(this.text[scan] ?? '')) {
+          scan++;
+        }
+        if (scan >= this.text.length) {
+          return this.dropped(start, 'number');
+        }
+        if (!match) {
+          this.fail(`Invalid number`);
+        }
+      }
+      this.pos = end;
+      return Number(match[0]);
+    }
+
+    for (const [word, value] of LITERALS) {
+      if (this.text.startsWith(word, start)) {
+        this.pos += word.length;
+        return value;
+      }
+      if (
+        this.text.length - start < word.length &&
+        word.startsWith(this.text.slice(start))
+      ) {
+        return this.dropped(start, word);
+      }
+    }
+    this.fail(`Unexpected ${JSON.stringify(char)}`);
+  }
+
+  private parseString(
+    context: StringContext,
+    depth: number,
+  ): { value: string; terminated: boolean } {
+    let value = '';
+    let segmentStart = ++this.pos;
+    let unescapedQuotes = false;
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+
+      if (char === '"') {
+        value += this.text.slice(segmentStart, this.pos);
+        const closes =
+          !this.escapedQuotes.has(this.pos) &&
+          this.closesString(this.pos, context, depth);
+        if (closes) {
+          if (closes === 'likely' && unescapedQuotes) {
+            this.guesses.push(this.pos);
+          }
+          this.pos++;
+          return { value, terminated: true };
+        }
+        unescapedQuotes = true;
+        this.repair(
+          'unescaped-quote',
+          this.pos,
+          'Escaped a quote inside a string',
+        );
+        value += '"';
+        segmentStart = ++this.pos;
+      } else if (char === '\\') {
+        value += this.text.slice(segmentStart, this.pos);
+        value += this.parseEscape();
+        segmentStart = this.pos;
+      } else if (char < ' ') {
+        value += this.text.slice(segmentStart, this.pos) + char;
+        this.repair(
+          'control-character',
+          this.pos,
+          `Escaped a raw ${JSON.stringify(char)} inside a string`,
+        );
+        segmentStart = ++this.pos;
+      } else {
+        this.pos++;
+      }
+    }
+
+    value += this.text.slice(segmentStart);
+    return { value, terminated: false };
+  }
+
+  /** Decode the escape at pos; invalid escapes keep their backslash */
+  private parseEscape(): string {
+    const next = this.text[this.pos + 1];
+    if (next === 'u') {
+      const hex = this.text.slice(this.pos + 2, this.pos + 6);
+      if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+        this.pos += 6;
+        return String.fromCharCode(parseInt(hex, 16));
+      }
+      if (this.pos + 6 > this.text.length && /^[0-9a-fA-F]*$/.test(hex)) {
+        // Cut off mid-escape, the string ends here
+        this.pos = this.text.length;
+        return '';
+      }
+    } else if (next === undefined) {
+      this.pos++;
+      return '';
+    } else if (next in ESCAPES) {
+      this.pos += 2;
+      return ESCAPES[next];
+    }
+    this.repair(
+      'invalid-escape',
+      this.pos,
+      `Kept the backslash of the invalid escape "\\${next}"`,
+    );
+    this.pos++;
+    return '\\';
+  }
+
+  /**
+   * Whether the quote at offset ends the string, judged by what follows it.
+   * Anything that would not continue valid JSON makes it a quote inside the
+   * string that the model forgot to escape. "likely" when that rests on a
+   * property name following, which code inside the string can imitate.
+   */
+  private closesString(
+    quote: number,
+    context: StringContext,
+    depth: number,
+  ): boolean | 'likely' {
+    const next = this.skipWhitespaceFrom(quote + 1);
+    const char = this.text[next];
+    if (char === undefined) {
+      return true;
+    }
+
+    if (context === 'key') {
+      return char === ':';
+    }
+    const closer = context === 'object-value' ? '}' : ']';
+    if (char === closer) {
+      return this.endsContainer(next, depth);
+    }
+    if (char === ',') {
+      const after = this.skipWhitespaceFrom(next + 1);
+      const member = this.text[after];
+      if (member === undefined || member === closer) {
+        return true;
+      }
+      if (context === 'array-value') {
+        return VALUE_START.test(member);
+      }
+      return this.isKeyAt(after) && 'likely';
+    }
+    // No comma, but the next member starts here
+    if (context === 'array-value') {
+      return char === '"' && this.text.slice(quote + 1, next).includes('\n');
+    }
+    return this.isKeyAt(next) && 'likely';
+  }
+
+  /** Whether the closer at offset can end its container */
+  private endsContainer(closer: number, depth: number): boolean | 'likely' {
+    if (depth <= 1) {
+      return true;
+    }
+    const offset = this.skipWhitespaceFrom(closer + 1);
+    const next = this.text[offset];
+    if (next === undefined || next === ',' || next === '}' || next === ']') {
+      return true;
+    }
+    // The parent is missing a comma after this container
+    if (this.isKeyAt(offset)) {
+      return 'likely';
+    }
+    return (
+      VALUE_START.test(next) &&
+      this.text.slice(closer + 1, offset).includes('\n')
+    );
+  }
+
+  /** Whether a property name followed by ":" starts at offset */
+  private isKeyAt(offset: number): boolean {
+    if (this.text[offset] !== '"') {
+      return false;
+    }
+    for (let index = offset + 1; index < this.text.length; index++) {
+      const char = this.text[index];
+      if (char === '\\') {
+        index++;
+      } else if (char === '"') {
+        const after = this.text[this.skipWhitespaceFrom(index + 1)];
+        return after === undefined || after === ':';
+      } else if (char === '\n') {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private skipWhitespace(): void {
+    this.pos = this.skipWhitespaceFrom(this.pos);
+  }
+
+  private skipWhitespaceFrom(offset: number): number {
+    while (isWhitespace(this.text[offset])) {
+      offset++;
+    }
+    return offset;
+  }
+
+  private trailingComma(comma: number | undefined): void {
+    if (comma !== undefined) {
+      this.repair('trailing-comma', comma, 'Removed a trailing comma');
+    }
+  }
+
+  private unclosed(container: 'object' | 'array', start: number): void {
+    this.repair(
+      'unclosed-container',
+      this.text.length,
+      `Closed the ${container} opened at offset ${start}`,
+    );
+  }
+
+  private dropped(offset: number, what: string): typeof DROPPED {
+    this.repair(
+      'dropped-value',
+      offset,
+      `Dropped the ${what} cut off by the end of the output`,
+    );
+    this.pos = this.text.length;
+    return DROPPED;
+  }
+
+  private repair(kind: JsonRepairKind, offset: number, message: string): void {
+    this.repairs.push({ kind, offset, message });
+  }
+
+  private fail(message: string): never {
+    throw new JsonRepairError(message, this.pos);
+  }
+}
+
+/**
+ * Parse the first JSON object (or array, when there is none) in model output.
+ * Surrounding prose and code fences, trailing and missing commas, raw control
+ * characters, unescaped quotes and output cut off mid-string or mid-object are
+ * repaired, and each repair is reported with its offset in text. Throws a
+ * JsonRepairError when the output cannot be repaired.
+ */
+export function parseTolerantJson(text: string): TolerantJsonResult {
+  const escapedQuotes = new Set<number>();
+  for (;;) {
+    const parser = new TolerantJsonParser(text, escapedQuotes);
+    try {
+      const value = parser.parse();
+      return { value, repairs: parser.repairs };
+    } catch (error) {
+      // Code inside a string can look like more properties; retry with the
+      // first such quote treated as part of the string
+      if (!(error instanceof JsonRepairError)) {
+        throw error;
+      }
+      const guess = parser.guesses.find((offset) => offset < error.offset);
+      if (guess === undefined || escapedQuotes.size >= MAX_QUOTE_RETRIES) {
+        throw error;
+      }
+      escapedQuotes.add(guess);
+    }
+  }
+}
+
+/** One-line summary of repairs for logs, e.g. "2 trailing-comma, 1 missing-comma" */
+export function summarizeRepairs(repairs: JsonRepair[]): string {
+  const counts = new Map<JsonRepairKind, number>();
+  for (const { kind } of repairs) {
+    counts.set(kind, (counts.get(kind) ?? 0) + 1);
+  }
+  return [...counts].map(([kind, count]) => `${count} ${kind}`).join(', ');
+}
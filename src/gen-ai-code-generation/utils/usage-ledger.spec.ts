@@ -0,0 +1,68 @@
+import { queryUsage, recordUsage } from './usage-ledger';
+
+describe('queryUsage', () => {
+  beforeAll(() => {
+    jest.useFakeTimers();
+    const calls = [
+      ['2026-10-01T10:00:00Z', 'openai:gpt-4o', 'v1', 'full-stack'],
+      ['2026-10-02T10:00:00Z', 'openai:gpt-4o-mini', 'v1', 'full-stack'],
+      ['2026-10-03T10:00:00Z', 'openai:gpt-4o', 'v2', 'continuation'],
+    ] as const;
+    for (const [time, modelIdentifier, promptVersion, operation] of calls) {
+      jest.setSystemTime(new Date(time));
+      recordUsage({
+        operation,
+        modelIdentifier,
+        template: 'next+fastapi+mongodb',
+        promptVersion,
+        usage: { promptTokens: 1_000_000, completionTokens: 100_000 },
+      });
+    }
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('totals cost by model, prompt version and operation', () => {
+    const report = queryUsage({ template: 'next+fastapi+mongodb' });
+
+    expect(report.totals).toMatchObject({
+      requests: 3,
+      promptTokens: 3_000_000,
+      completionTokens: 300_000,
+    });
+    expect(report.totals.costUsd).toBeCloseTo(3.5 + 3.5 + 0.21);
+    expect(report.byModel['openai:gpt-4o']).toMatchObject({
+      requests: 2,
+      costUsd: 7,
+    });
+    expect(report.byModel['openai:gpt-4o-mini'].costUsd).toBeCloseTo(0.21);
+    expect(report.byPromptVersion.v2.requests).toBe(1);
+    expect(report.byOperation['full-stack'].requests).toBe(2);
+  });
+
+  it('filters by model and date range', () => {
+    expect(queryUsage({ model: 'openai:gpt-4o' }).totals.requests).toBe(2);
+    const { byModel } = queryUsage({
+      from: new Date('2026-10-02T00:00:00Z'),
+      to: new Date('2026-10-02T23:59:59Z'),
+    });
+    expect(Object.keys(byModel)).toEqual(['openai:gpt-4o-mini']);
+    expect(byModel['openai:gpt-4o-mini'].requests).toBe(1);
+    expect(
+      queryUsage({
+        model: 'openai:gpt-4o',
+        from: new Date('2026-10-02T00:00:00Z'),
+      }).totals,
+    ).toMatchObject({ requests: 1, costUsd: 3.5 });
+    expect(queryUsage({ template: 'react+fastapi+mongodb' }).totals).toEqual({
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      priced: true,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { LanguageModelUsage } from 'ai';
+import { GenerationUsage } from '../interfaces/project.interface';
+import { priceUsage, sumUsage } from './model-pricing';
+
+export type UsageOperation =
+  | 'full-stack'
+  | 'full-stack-stream'
+  | 'continuation'
+  | 'plan'
+  | 'file'
+  | 'modification'
+  | 'repair'
+  | 'agent'
+  | 'clarify'
+  | 'requirements'
+  | 'frontend'
+  | 'chat'
+  | 'debug';
+
+/**
+ * One model call as recorded by model-router.ts
+ */
+export interface UsageRecord extends GenerationUsage {
+  timestamp: Date;
+  operation: UsageOperation;
+  modelIdentifier: string;
+  template?: string;
+  /** System prompt version used, see prompt-registry.ts */
+  promptVersion?: string;
+}
+
+export interface UsageFilter {
+  model?: string;
+  template?: string;
+  promptVersion?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface UsageTotals extends GenerationUsage {
+  requests: number;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byTemplate: Record<string, UsageTotals>;
+  byPromptVersion: Record<string, UsageTotals>;
+  byOperation: Record<string, UsageTotals>;
+}
+
+const records: UsageRecord[] = [];
+
+/**
+ * Append a call to the in-memory ledger, dropping the oldest records
+ * beyond USAGE_LEDGER_LIMIT (default 10000)
+ */
+export function recordUsage(entry: {
+  operation: UsageOperation;
+  modelIdentifier: string;
+  template?: string;
+  promptVersion?: string;
+  usage: Partial<LanguageModelUsage> | undefined;
+}): UsageRecord {
+  const record: UsageRecord = {
+    timestamp: new Date(),
+    operation: entry.operation,
+    modelIdentifier: entry.modelIdentifier,
+    template: entry.template,
+    promptVersion: entry.promptVersion,
+    ...priceUsage(entry.modelIdentifier, entry.usage),
+  };
+  records.push(record);
+
+  const limit = Number(process.env.USAGE_LEDGER_LIMIT) || 10000;
+  if (records.length > limit) {
+    records.splice(0, records.length - limit);
+  }
+  return record;
+}
+
+function totalsOf(group: UsageRecord[]): UsageTotals {
+  return { requests: group.length, ...sumUsage(group) };
+}
+
+function groupTotals(
+  matching: UsageRecord[],
+  key: (record: UsageRecord) => string,
+): Record<string, UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of matching) {
+    groups.set(key(record), [...(groups.get(key(record)) ?? []), record]);
+  }
+  return Object.fromEntries(
+    [...groups].map(([name, group]) => [name, totalsOf(group)]),
+  );
+}
+
+export function queryUsage(filter: UsageFilter = {}): UsageReport {
+  const matching = records.filter(
+    (record) =>
+      (!filter.model || record.modelIdentifier === filter.model) &&
+      (!filter.template || record.template === filter.template) &&
+      (!filter.promptVersion ||
+        record.promptVersion === filter.promptVersion) &&
+      (!filter.from || record.timestamp >= filter.from) &&
+      (!filter.to || record.timestamp <= filter.to),
+  );
+
+  return {
+    totals: totalsOf(matching),
+    byModel: groupTotals(matching, (record) => record.modelIdentifier),
+    byTemplate: groupTotals(matching, (record) => record.template ?? 'none'),
+    byPromptVersion: groupTotals(
+      matching,
+      (record) => record.promptVersion ?? 'none',
+    ),
+    byOperation: groupTotals(matching, (record) => record.operation),
+  };
+}
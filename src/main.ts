@@ -1,9 +1,12 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
  
 async function main() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  // Base64 image attachments and full projects do not fit the 100kb default
+  app.useBodyParser('json', { limit: process.env.JSON_BODY_LIMIT || '25mb' });
  
   const config = new DocumentBuilder()
     .setTitle('Chat API')
@@ -1,6 +1,6 @@
 // src/sandbox/sandbox.service.ts
 import { Injectable, OnModuleDestroy, Logger } from '@nestjs/common';
-import { Sandbox } from 'e2b';
+import { EntryInfo, Sandbox } from 'e2b';
 import { ConfigService } from '@nestjs/config';
 import { FASTAPI_HELLO_WORLD, NEXTJS_HELLO_WORLD_PAGE, FASTAPI_WITH_MONGODB, NEXTJS_WITH_MONGODB_PAGE, MONGODB_REQUIREMENTS_TXT } from './templates';
 
@@ -16,6 +16,16 @@ export interface ServiceProcess {
   url: string;
 }
 
+/**
+ * A service that never became ready, with whatever it printed before giving up
+ */
+export class ServiceStartError extends Error {
+  constructor(message: string, public readonly output: string) {
+    super(message);
+    this.name = 'ServiceStartError';
+  }
+}
+
 @Injectable()
 export class SandboxService implements OnModuleDestroy {
   private readonly logger = new Logger(SandboxService.name);
@@ -118,7 +128,7 @@ export class SandboxService implements OnModuleDestroy {
     await sandbox.files.makeDir(dirPath);
   }
 
-  async listFiles(dirPath: string = '/home'): Promise<any[]> {
+  async listFiles(dirPath: string = '/home'): Promise<EntryInfo[]> {
     const sandbox = await this.ensureSandbox();
     this.logger.log(`Listing files in '${dirPath}'`);
     return await sandbox.files.list(dirPath);
@@ -138,7 +148,14 @@ export class SandboxService implements OnModuleDestroy {
     this.logger.log(`Service started with URL: ${url}`);
     
     // Wait for service to be ready with improved health checking
-    await this.waitForServiceReady(port, url, 60000); // 60 second timeout
+    try {
+      await this.waitForServiceReady(port, url, 60000); // 60 second timeout
+    } catch (error) {
+      // Keep the process output (tracebacks, compile errors) and free the port for a retry
+      const output = [process.stdout, process.stderr].filter(Boolean).join('\n');
+      await process.kill().catch(() => false);
+      throw new ServiceStartError((error as Error).message, output);
+    }
     
     return {
       process,